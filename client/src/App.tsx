@@ -7,9 +7,15 @@ import PlanetInterior from './components/PlanetInterior';
 import RegionSelector from './components/RegionSelector';
 import GlobalHUD from './components/GlobalHUD';
 import TravelOverview from './components/TravelOverview';
-import { api, setAuthToken, getAuthToken, getCurrentUser, type Planet } from './lib/api';
+import FederationPanel from './components/FederationPanel';
+import InvasionPanel from './components/InvasionPanel';
+import AdmiralPanel from './components/AdmiralPanel';
+import { api, setAuthToken, getAuthToken, getCurrentUser, subscribeRealtime, type Planet, type RealtimeEventType } from './lib/api';
 import './App.css';
 
+// Pushes that can change the player's XP, level or Dark Matter
+const PROFILE_EVENTS: RealtimeEventType[] = ['construction_finished', 'battle_report', 'level_up', 'dark_matter_changed'];
+
 function App() {
   const [selectedPlanet, setSelectedPlanet] = useState<Planet | null>(null);
   const [mapContainer, setMapContainer] = useState<any>(null);
@@ -18,6 +24,9 @@ function App() {
   const [showFleetPanel, setShowFleetPanel] = useState(false);
   const [showPlanetInterior, setShowPlanetInterior] = useState(false);
   const [showTravelOverview, setShowTravelOverview] = useState(false);
+  const [showFederation, setShowFederation] = useState(false);
+  const [showAdmiral, setShowAdmiral] = useState(false);
+  const [showInvasion, setShowInvasion] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [needsSpawn, setNeedsSpawn] = useState(false);
   const [hudPlanet, setHudPlanet] = useState<Planet | null>(null);
@@ -61,6 +70,14 @@ function App() {
     });
   };
 
+  // Keep the HUD's level, XP bar and Dark Matter current
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    return subscribeRealtime(event => {
+      if (PROFILE_EVENTS.includes(event.type)) api.getMe().then(setCurrentUser).catch(console.error);
+    });
+  }, [isLoggedIn]);
+
   const handleLogin = () => {
     setIsLoggedIn(true);
     // Store token if available
@@ -138,6 +155,15 @@ function App() {
         <button onClick={() => setShowTravelOverview(true)} style={{ background: '#ff9800', color: 'black', border: '2px solid #e65100', padding: '10px 20px', cursor: 'pointer', borderRadius: '4px', fontWeight: 'bold' }}>
           Travel Overview
         </button>
+        <button onClick={() => setShowFederation(true)} style={{ background: '#3366ff', color: 'white', border: '2px solid #1a3d99', padding: '10px 20px', cursor: 'pointer', borderRadius: '4px', fontWeight: 'bold' }}>
+          Federation
+        </button>
+        <button onClick={() => setShowAdmiral(true)} style={{ background: '#c79100', color: 'white', border: '2px solid #8a6500', padding: '10px 20px', cursor: 'pointer', borderRadius: '4px', fontWeight: 'bold' }}>
+          Admiral
+        </button>
+        <button onClick={() => setShowInvasion(true)} style={{ background: '#7b1fa2', color: 'white', border: '2px solid #4a148c', padding: '10px 20px', cursor: 'pointer', borderRadius: '4px', fontWeight: 'bold' }}>
+          Invasion
+        </button>
         <button onClick={handleLogout} style={{ background: '#d32f2f', color: 'white', border: '2px solid #b71c1c', padding: '10px 20px', cursor: 'pointer', borderRadius: '4px', fontWeight: 'bold' }}>
           Logout
         </button>
@@ -195,6 +221,18 @@ function App() {
       {showTravelOverview && (
         <TravelOverview onClose={() => setShowTravelOverview(false)} />
       )}
+
+      {showFederation && (
+        <FederationPanel onClose={() => setShowFederation(false)} />
+      )}
+
+      {showAdmiral && (
+        <AdmiralPanel onClose={() => setShowAdmiral(false)} />
+      )}
+
+      {showInvasion && (
+        <InvasionPanel onClose={() => setShowInvasion(false)} />
+      )}
     </div>
   );
 }
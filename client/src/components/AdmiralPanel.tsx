@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { api, formatGearStats, type AdmiralResponse, type GearSlot } from '../lib/api';
+import './AdmiralPanel.css';
+
+interface AdmiralPanelProps {
+    onClose: () => void;
+}
+
+const SLOT_LABELS: Record<GearSlot, string> = {
+    helmet: 'Helmet',
+    armor: 'Armor',
+    weapon: 'Weapon',
+    insignia: 'Insignia',
+};
+
+const LANE_LABELS: Record<'left' | 'front' | 'right', string> = {
+    left: 'Industrial',
+    front: 'Starport',
+    right: 'Military',
+};
+
+export default function AdmiralPanel({ onClose }: AdmiralPanelProps) {
+    const [admiral, setAdmiral] = useState<AdmiralResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        api.getAdmiral()
+            .then(setAdmiral)
+            .catch(console.error)
+            .finally(() => setLoading(false));
+    }, []);
+
+    const run = async (action: () => Promise<AdmiralResponse>) => {
+        try {
+            setAdmiral(await action());
+        } catch (e) {
+            alert((e as Error).message);
+        }
+    };
+
+    return (
+        <div className="admiral-overlay">
+            <div className="admiral-window">
+                <div className="admiral-header">
+                    <h2>Admiral</h2>
+                    <button className="close-btn" onClick={onClose}>×</button>
+                </div>
+
+                <div className="admiral-content">
+                    {loading || !admiral ? (
+                        <div className="loading">Contacting flagship...</div>
+                    ) : (
+                        <>
+                            {/* Bonus summary */}
+                            <div className="admiral-section">
+                                <h3>Combat Bonuses</h3>
+                                <div className="lane-bonuses">
+                                    {(['left', 'front', 'right'] as const).map(lane => (
+                                        <div key={lane} className="lane-bonus">
+                                            <div className="lane-name">{LANE_LABELS[lane]}</div>
+                                            <div>ATK +{admiral.laneBonuses[lane].attack}%</div>
+                                            <div>DEF +{admiral.laneBonuses[lane].defense}%</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Equipped slots */}
+                            <div className="admiral-section">
+                                <h3>Equipped</h3>
+                                <div className="gear-slots">
+                                    {admiral.slots.map(slot => {
+                                        const piece = admiral.equipped[slot];
+                                        return (
+                                            <div key={slot} className={`gear-slot ${piece ? piece.rarity : 'empty'}`}>
+                                                <div className="slot-label">{SLOT_LABELS[slot]}</div>
+                                                {piece ? (
+                                                    <>
+                                                        <div className="gear-name">{piece.name}</div>
+                                                        <div className="gear-stats">{formatGearStats(piece.stats)}</div>
+                                                        <button onClick={() => run(() => api.unequipGear(slot))}>Unequip</button>
+                                                    </>
+                                                ) : (
+                                                    <div className="gear-stats">Empty</div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+
+                            {/* Inventory */}
+                            <div className="admiral-section">
+                                <h3>Inventory ({admiral.inventory.length})</h3>
+                                {admiral.inventory.length === 0 && (
+                                    <div className="empty">No gear yet. Defeat pirate bases to recover equipment.</div>
+                                )}
+                                {admiral.inventory.map(piece => (
+                                    <div key={piece.id} className={`gear-row ${piece.rarity}`}>
+                                        <span>
+                                            <span className="gear-name">{piece.name}</span>
+                                            <span className="gear-stats">{formatGearStats(piece.stats)}</span>
+                                        </span>
+                                        <button onClick={() => run(() => api.equipGear(piece.id))}>Equip</button>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,5 @@
-import { useState, useMemo } from 'react';
-import { type Planet } from '../lib/api';
+import { useState, useMemo, useEffect } from 'react';
+import { api, estimateTravelTime, formatTravelTime, type AttackSlots, type CombatSimulation, type Planet } from '../lib/api';
 import './AttackPlanner.css';
 
 // Importing SVG placeholders directly as image sources
@@ -20,6 +20,7 @@ interface AttackPlannerProps {
         laneAssignments: any
     ) => void;
     onCancel: () => void;
+    onSwitchMode?: () => void;
 }
 
 type Lane = 'left' | 'front' | 'right';
@@ -57,10 +58,11 @@ const TOOL_ICONS: Record<string, string> = {
     signal_jammer: iconJammer,
     breach_cutter: iconBreach,
     holo_decoy: iconECM,
+    plasma_breacher: iconBreach,
 };
 
 const ALL_UNITS = ['marine', 'ranger', 'sentinel', 'interceptor'];
-const ALL_TOOLS = ['signal_jammer', 'breach_cutter', 'holo_decoy'];
+const ALL_TOOLS = ['signal_jammer', 'breach_cutter', 'holo_decoy', 'plasma_breacher'];
 
 // Initial State Generator
 const createInitialState = (): WaveData[] => {
@@ -82,10 +84,19 @@ const createInitialState = (): WaveData[] => {
     return waves;
 };
 
-export default function AttackPlanner({ fromPlanet, toPlanet, availableUnits, onCommit, onCancel }: AttackPlannerProps) {
+export default function AttackPlanner({ fromPlanet, toPlanet, availableUnits, onCommit, onCancel, onSwitchMode }: AttackPlannerProps) {
     const [waves, setWaves] = useState<WaveData[]>(createInitialState());
     const [selectedItem, setSelectedItem] = useState<{ type: ItemType, id: string } | null>(null);
     const [placementAmount, setPlacementAmount] = useState<number | 'max'>('max');
+    const [simulation, setSimulation] = useState<CombatSimulation | null>(null);
+    const [simulating, setSimulating] = useState(false);
+    const [attackSlots, setAttackSlots] = useState<AttackSlots | null>(null);
+
+    useEffect(() => {
+        api.getAttackSlots()
+            .then(setAttackSlots)
+            .catch(console.error);
+    }, []);
 
     // Calculate available tools from Planet props
     const availableTools = useMemo(() => {
@@ -180,16 +191,8 @@ export default function AttackPlanner({ fromPlanet, toPlanet, availableUnits, on
         });
     };
 
-    const handleLaunch = () => {
-        // 1. Compile Final Units Total (Soldiers Only)
-        const finalSoldierUnits: Record<string, number> = {};
-        Object.keys(usedTotals).forEach(k => {
-            if (ALL_UNITS.includes(k)) {
-                finalSoldierUnits[k] = usedTotals[k];
-            }
-        });
-
-        // 2. Compile Lane Assignments JSON
+    // Compile Lane Assignments JSON (per lane: array of waves { units, tools })
+    const compileLaneAssignments = () => {
         const laneAssignments: any = { left: [], front: [], right: [] };
 
         waves.forEach(w => {
@@ -211,7 +214,41 @@ export default function AttackPlanner({ fromPlanet, toPlanet, availableUnits, on
             });
         });
 
-        onCommit(finalSoldierUnits, laneAssignments);
+        return laneAssignments;
+    };
+
+    // Only soldiers set the pace (tools ride along)
+    const soldierTotals = Object.fromEntries(Object.entries(usedTotals).filter(([k]) => ALL_UNITS.includes(k)));
+
+    const handleLaunch = () => {
+        // 1. Compile Final Units Total (Soldiers Only)
+        const finalSoldierUnits: Record<string, number> = {};
+        Object.keys(usedTotals).forEach(k => {
+            if (ALL_UNITS.includes(k)) {
+                finalSoldierUnits[k] = usedTotals[k];
+            }
+        });
+
+        // 2. Compile Lane Assignments JSON
+        onCommit(finalSoldierUnits, compileLaneAssignments());
+    };
+
+    // Predict the outcome against our latest intel on the target (no fleet is sent)
+    const handleSimulate = async () => {
+        try {
+            setSimulating(true);
+            setSimulation(await api.simulateAttack(toPlanet.id, compileLaneAssignments()));
+        } catch (e) {
+            alert((e as Error).message);
+        } finally {
+            setSimulating(false);
+        }
+    };
+
+    const formatUnits = (units: Record<string, number>) => {
+        const entries = Object.entries(units).filter(([, c]) => c > 0);
+        if (entries.length === 0) return 'none';
+        return entries.map(([u, c]) => `${c} ${u}`).join(', ');
     };
 
     return (
@@ -222,6 +259,7 @@ export default function AttackPlanner({ fromPlanet, toPlanet, availableUnits, on
                     Target: <strong>{toPlanet.name}</strong>
                     {toPlanet.isNpc && <span className="npc-tag"> (Sector {toPlanet.x},{toPlanet.y})</span>}
                 </div>
+                {onSwitchMode && <button className="switch-mode-btn" onClick={onSwitchMode}>Other Ops</button>}
                 <button className="close-ap" onClick={onCancel}>×</button>
             </div>
 
@@ -365,7 +403,56 @@ export default function AttackPlanner({ fromPlanet, toPlanet, availableUnits, on
                         </div>
                     </div>
 
+                    {simulation && (
+                        <div className={`sim-results ${simulation.winner === 'attacker' ? 'att-win' : 'def-win'}`}>
+                            <h3>Predicted: {simulation.winner === 'attacker' ? 'VICTORY' : 'DEFEAT'}</h3>
+                            {(['left', 'center', 'right'] as const).map(key => (
+                                <div key={key} className="sim-row">
+                                    <span className="sim-lane">{key === 'left' ? 'Industrial' : key === 'center' ? 'Starport' : 'Military'}</span>
+                                    <span className={simulation.sectors[key].winner === 'attacker' ? 'sim-breach' : 'sim-blocked'}>
+                                        {simulation.sectors[key].winner === 'attacker' ? 'Breach' : 'Blocked'}
+                                    </span>
+                                    <span className="sim-losses">Lost: {formatUnits(simulation.sectors[key].attackerLosses)}</span>
+                                </div>
+                            ))}
+                            {simulation.surface && (
+                                <div className="sim-row">
+                                    <span className="sim-lane">Courtyard</span>
+                                    <span className={simulation.surface.winner === 'attacker' ? 'sim-breach' : 'sim-blocked'}>
+                                        {simulation.surface.winner === 'attacker' ? 'Taken' : 'Held'}
+                                    </span>
+                                    <span className="sim-losses">Lost: {formatUnits(simulation.surface.attackerLosses)}</span>
+                                </div>
+                            )}
+                            <div className="sim-total">Total losses: {formatUnits(simulation.attackerTotalLosses)}</div>
+                            <div className="sim-total">
+                                Expected loot: {simulation.expectedLoot.carbon} C / {simulation.expectedLoot.titanium} Ti / {simulation.expectedLoot.food} F / {simulation.expectedLoot.credits} Cr
+                            </div>
+                            {simulation.dropChances && (
+                                <div className="sim-total">
+                                    Drop chance: gear {Math.round(simulation.dropChances.gear * 100)}%
+                                    {simulation.dropChances.darkMatter > 0 && ` / Dark Matter ${Math.round(simulation.dropChances.darkMatter * 100)}%`}
+                                </div>
+                            )}
+                            {simulation.intelReport && (
+                                <div className="sim-note">Based on intel from {new Date(simulation.intelReport.createdAt).toLocaleString()}</div>
+                            )}
+                        </div>
+                    )}
+
                     <div className="ap-footer">
+                        <div className="travel-time">
+                            Travel time: {formatTravelTime(estimateTravelTime(fromPlanet, toPlanet, soldierTotals))}
+                        </div>
+                        {attackSlots && (
+                            <div className={`attack-slots ${attackSlots.attacksUsed >= attackSlots.attackSlots ? 'full' : ''}`}>
+                                Attack slots: {attackSlots.attacksUsed}/{attackSlots.attackSlots}
+                                {' · '}Admiral: {attackSlots.admiralsUsed < attackSlots.admiralSlots ? 'leading' : 'all slots busy'}
+                            </div>
+                        )}
+                        <button className="simulate-btn" onClick={handleSimulate} disabled={simulating}>
+                            {simulating ? 'SIMULATING...' : 'SIMULATE'}
+                        </button>
                         <button className="attack-btn" onClick={handleLaunch}>INITIATE ASSAULT</button>
                     </div>
                 </div>
@@ -24,6 +24,7 @@ export default function DefensePanel({ planet, onClose }: DefensePanelProps) {
     const [front, setFront] = useState<LaneData>({ units: {}, tools: [] });
     const [left, setLeft] = useState<LaneData>({ units: {}, tools: [] });
     const [right, setRight] = useState<LaneData>({ units: {}, tools: [] });
+    const [courtyard, setCourtyard] = useState<LaneUnits>({});
 
     const [availableUnits, setAvailableUnits] = useState<Record<string, number>>({});
     const [availableTools, setAvailableTools] = useState<Record<string, number>>({});
@@ -75,6 +76,7 @@ export default function DefensePanel({ planet, onClose }: DefensePanelProps) {
                 setLeft(normalize(profile.laneDefenses.left));
                 setRight(normalize(profile.laneDefenses.right));
             }
+            setCourtyard(profile.courtyard || {});
 
         } catch (e) {
             console.error(e);
@@ -86,7 +88,7 @@ export default function DefensePanel({ planet, onClose }: DefensePanelProps) {
     const handleSave = async () => {
         try {
             setSaving(true);
-            await api.updateDefenseLayout(planet.id, { front, left, right });
+            await api.updateDefenseLayout(planet.id, { front, left, right, courtyard });
             alert('Defense layout saved!');
             onClose();
         } catch (e: any) {
@@ -111,7 +113,8 @@ export default function DefensePanel({ planet, onClose }: DefensePanelProps) {
         const f = front.units[unit] || 0;
         const l = left.units[unit] || 0;
         const r = right.units[unit] || 0;
-        return f + l + r;
+        const c = courtyard[unit] || 0;
+        return f + l + r + c;
     };
 
     // --- Tool Logic ---
@@ -238,6 +241,48 @@ export default function DefensePanel({ planet, onClose }: DefensePanelProps) {
         );
     };
 
+    // Courtyard: units only, no module slots. Anything left unassigned also defends here.
+    const renderCourtyard = () => {
+        const totalAssigned = Object.values(courtyard).reduce((a, b) => a + b, 0);
+
+        return (
+            <div className="defense-lane courtyard">
+                <div className="defense-lane-header">
+                    <h4>Courtyard (Surface)</h4>
+                    <span className="lane-cap">Pop: {totalAssigned}</span>
+                </div>
+
+                <div className="section-label">Units</div>
+                <div className="unit-inputs">
+                    {UNIT_TYPES.map(unit => {
+                        const owned = availableUnits[unit] || 0;
+                        const currentVal = courtyard[unit] || 0;
+                        const maxHere = Math.max(0, owned - (getAssignedUnitCount(unit) - currentVal));
+                        const unassigned = Math.max(0, owned - getAssignedUnitCount(unit));
+
+                        return (
+                            <div key={unit} className="unit-input-row">
+                                <label className="unit-name">{unit}</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max={maxHere}
+                                    value={currentVal}
+                                    onChange={e => {
+                                        const val = Math.min(parseInt(e.target.value) || 0, maxHere);
+                                        setCourtyard({ ...courtyard, [unit]: Math.max(0, val) });
+                                    }}
+                                />
+                                <span className="unit-total">+{unassigned} reserve</span>
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="courtyard-note">Reserve units not posted on a lane join the courtyard fight.</div>
+            </div>
+        );
+    };
+
     // --- Modal ---
     const renderToolSelector = () => {
         if (!showToolSelector) return null;
@@ -282,6 +327,7 @@ export default function DefensePanel({ planet, onClose }: DefensePanelProps) {
                     {renderLane("Left Flank", "left", left)}
                     {renderLane("Front (Center)", "front", front)}
                     {renderLane("Right Flank", "right", right)}
+                    {renderCourtyard()}
                 </div>
 
                 <div className="defense-footer">
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import {
+    api,
+    getCurrentUser,
+    type FederationSummary,
+    type FederationIncomingAttack,
+    type FederationRank,
+    type MyFederationResponse,
+} from '../lib/api';
+import './FederationPanel.css';
+
+interface FederationPanelProps {
+    onClose: () => void;
+}
+
+const RANK_LABELS: Record<FederationRank, string> = {
+    leader: 'Leader',
+    officer: 'Officer',
+    member: 'Member',
+};
+
+export default function FederationPanel({ onClose }: FederationPanelProps) {
+    const [data, setData] = useState<MyFederationResponse | null>(null);
+    const [federations, setFederations] = useState<FederationSummary[]>([]);
+    const [incoming, setIncoming] = useState<FederationIncomingAttack[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Forms
+    const [newName, setNewName] = useState('');
+    const [newTag, setNewTag] = useState('');
+    const [inviteName, setInviteName] = useState('');
+
+    const myId = getCurrentUser()?.userId;
+
+    const load = () => api.getMyFederation()
+        .then(async mine => {
+            setData(mine);
+            if (mine.federation) {
+                const alerts = await api.getFederationIncoming();
+                setIncoming(alerts.attacks);
+            } else {
+                const list = await api.getFederations();
+                setFederations(list.federations);
+                setIncoming([]);
+            }
+        })
+        .catch(console.error)
+        .finally(() => setLoading(false));
+
+    useEffect(() => {
+        load();
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Run an action, surface errors, then refresh
+    const run = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+            await load();
+        } catch (e) {
+            alert((e as Error).message);
+        }
+    };
+
+    const formatEta = (arriveAt: string) => {
+        const secs = Math.max(0, Math.floor((new Date(arriveAt).getTime() - now) / 1000));
+        const m = Math.floor(secs / 60);
+        const s = secs % 60;
+        return `${m}:${s.toString().padStart(2, '0')}`;
+    };
+
+    const federation = data?.federation;
+    const myRank = data?.myRank;
+    const isOfficer = myRank === 'leader' || myRank === 'officer';
+
+    return (
+        <div className="federation-overlay">
+            <div className="federation-window">
+                <div className="federation-header">
+                    <h2>{federation ? `[${federation.tag}] ${federation.name}` : 'Federations'}</h2>
+                    <button className="close-btn" onClick={onClose}>×</button>
+                </div>
+
+                <div className="federation-content">
+                    {loading ? (
+                        <div className="loading">Contacting federation relay...</div>
+                    ) : federation ? (
+                        <>
+                            {/* Shared alerts */}
+                            <div className="fed-section">
+                                <h3>Incoming Attacks on Members</h3>
+                                {incoming.length === 0 ? (
+                                    <div className="empty">No hostile fleets detected.</div>
+                                ) : incoming.map(a => (
+                                    <div key={a.id} className="fed-row alert">
+                                        <span>⚠️ <b>{a.attacker.username}</b> ➔ {a.toPlanet.name} ({a.toPlanet.ownerName})</span>
+                                        <span className="eta">{formatEta(a.arriveAt)}</span>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {/* Members */}
+                            <div className="fed-section">
+                                <h3>Members ({data?.members?.length || 0})</h3>
+                                {data?.members?.map(m => (
+                                    <div key={m.userId} className="fed-row">
+                                        <span>
+                                            <span className={`rank-badge ${m.rank}`}>{RANK_LABELS[m.rank]}</span>
+                                            {m.username} <span className="muted">Lvl {m.level}</span>
+                                        </span>
+                                        <span className="fed-actions">
+                                            {myRank === 'leader' && m.userId !== myId && (
+                                                <>
+                                                    {m.rank === 'member' && (
+                                                        <button onClick={() => run(() => api.setFederationRank(federation.id, m.userId, 'officer'))}>Promote</button>
+                                                    )}
+                                                    {m.rank === 'officer' && (
+                                                        <button onClick={() => run(() => api.setFederationRank(federation.id, m.userId, 'member'))}>Demote</button>
+                                                    )}
+                                                    <button onClick={() => {
+                                                        if (confirm(`Hand leadership to ${m.username}?`)) {
+                                                            run(() => api.setFederationRank(federation.id, m.userId, 'leader'));
+                                                        }
+                                                    }}>Make Leader</button>
+                                                </>
+                                            )}
+                                            {isOfficer && m.userId !== myId && m.rank !== 'leader' && !(myRank === 'officer' && m.rank === 'officer') && (
+                                                <button className="danger" onClick={() => run(() => api.kickFromFederation(federation.id, m.userId))}>Kick</button>
+                                            )}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {/* Recruitment (officer+) */}
+                            {isOfficer && (
+                                <div className="fed-section">
+                                    <h3>Recruitment</h3>
+                                    <div className="fed-form">
+                                        <input placeholder="Commander name" value={inviteName} onChange={e => setInviteName(e.target.value)} />
+                                        <button onClick={() => run(async () => {
+                                            await api.inviteToFederation(federation.id, inviteName);
+                                            setInviteName('');
+                                        })} disabled={!inviteName}>Invite</button>
+                                    </div>
+                                    {data?.requests?.map(r => (
+                                        <div key={r.id} className="fed-row">
+                                            <span>{r.type === 'application' ? '📨 Application from' : '✉️ Invited'} <b>{r.user.username}</b></span>
+                                            <span className="fed-actions">
+                                                {r.type === 'application' && (
+                                                    <button onClick={() => run(() => api.respondToFederationRequest(r.id, 'accept'))}>Accept</button>
+                                                )}
+                                                {r.type === 'application' && (
+                                                    <button className="danger" onClick={() => run(() => api.respondToFederationRequest(r.id, 'decline'))}>Decline</button>
+                                                )}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className="fed-footer">
+                                <button className="danger" onClick={() => {
+                                    if (confirm('Leave this federation?')) run(() => api.leaveFederation());
+                                }}>Leave Federation</button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            {/* Invitations addressed to me */}
+                            {data && data.invites.length > 0 && (
+                                <div className="fed-section">
+                                    <h3>Invitations</h3>
+                                    {data.invites.map(inv => (
+                                        <div key={inv.id} className="fed-row">
+                                            <span>[{inv.federation.tag}] {inv.federation.name}</span>
+                                            <span className="fed-actions">
+                                                <button onClick={() => run(() => api.respondToFederationRequest(inv.id, 'accept'))}>Join</button>
+                                                <button className="danger" onClick={() => run(() => api.respondToFederationRequest(inv.id, 'decline'))}>Decline</button>
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className="fed-section">
+                                <h3>Found a Federation</h3>
+                                <div className="fed-form">
+                                    <input placeholder="Name" value={newName} onChange={e => setNewName(e.target.value)} />
+                                    <input placeholder="Tag" maxLength={5} value={newTag} onChange={e => setNewTag(e.target.value.toUpperCase())} className="tag-input" />
+                                    <button onClick={() => run(() => api.createFederation(newName, newTag))} disabled={!newName || !newTag}>Found</button>
+                                </div>
+                            </div>
+
+                            <div className="fed-section">
+                                <h3>Known Federations</h3>
+                                {federations.length === 0 && <div className="empty">No federations yet.</div>}
+                                {federations.map(f => (
+                                    <div key={f.id} className="fed-row">
+                                        <span>[{f.tag}] {f.name} <span className="muted">{f.memberCount} members</span></span>
+                                        <span className="fed-actions">
+                                            <button onClick={() => run(async () => {
+                                                await api.applyToFederation(f.id);
+                                                alert('Application sent');
+                                            })}>Apply</button>
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { api, type Planet } from '../lib/api';
+import { api, estimateTravelTime, formatTravelTime, type Planet, type TradeCargo } from '../lib/api';
 import './FleetPanel.css';
 import AttackPlanner from './AttackPlanner';
 
@@ -12,16 +12,30 @@ interface FleetPanelProps {
 
 type Lane = 'front' | 'left' | 'right';
 
+// Cargo capacity per unit (mirrors UNIT_STATS capacity on the server)
+const UNIT_CAPACITY: Record<string, number> = {
+  marine: 10,
+  ranger: 5,
+  sentinel: 20,
+  interceptor: 15,
+};
+
+const CARGO_RESOURCES: (keyof TradeCargo)[] = ['carbon', 'titanium', 'food', 'credits'];
+
 export default function FleetPanel({ fromPlanet, toPlanet, onClose, onFleetCreated }: FleetPanelProps) {
   // Mode
-  const [fleetType, setFleetType] = useState<'attack' | 'support' | 'scout'>('attack');
+  const [fleetType, setFleetType] = useState<'attack' | 'support' | 'scout' | 'trade'>('attack');
 
   // Data
   const [currentFromPlanet, setCurrentFromPlanet] = useState<Planet | null>(fromPlanet);
   const [availableUnits, setAvailableUnits] = useState<Record<string, number>>({});
 
-  // State for flat fleet (Support/Scout)
+  // State for flat fleet (Support)
   const [flatUnits, setFlatUnits] = useState<Record<string, number>>({});
+  // State for scout missions (agents from the Intelligence Hub)
+  const [spyCount, setSpyCount] = useState(1);
+  // State for trade runs (resources carried by the selected units)
+  const [cargo, setCargo] = useState<TradeCargo>({ carbon: 0, titanium: 0, food: 0, credits: 0 });
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -62,9 +76,26 @@ export default function FleetPanel({ fromPlanet, toPlanet, onClose, onFleetCreat
     if (!currentFromPlanet || !toPlanet) return;
     setLoading(true);
     try {
+      if (fleetType === 'scout') {
+        if (spyCount <= 0) throw new Error("Must send at least one spy");
+        await api.createFleet(currentFromPlanet.id, toPlanet.id, 'scout', {}, undefined, spyCount);
+        onFleetCreated();
+        onClose();
+        return;
+      }
+
       const total = Object.values(flatUnits).reduce((a, b) => a + b, 0);
       if (total === 0) throw new Error("Must select at least one unit");
 
+      if (fleetType === 'trade') {
+        if (cargoTotal === 0) throw new Error("Must load some cargo");
+        if (cargoTotal > cargoCapacity) throw new Error(`Cargo exceeds capacity (${cargoCapacity})`);
+        await api.createFleet(currentFromPlanet.id, toPlanet.id, 'trade', flatUnits, undefined, undefined, cargo);
+        onFleetCreated();
+        onClose();
+        return;
+      }
+
       await api.createFleet(currentFromPlanet.id, toPlanet.id, fleetType, flatUnits);
       onFleetCreated();
       onClose();
@@ -91,6 +122,18 @@ export default function FleetPanel({ fromPlanet, toPlanet, onClose, onFleetCreat
 
   if (!currentFromPlanet || !toPlanet) return null;
 
+  const cargoCapacity = Object.entries(flatUnits).reduce((sum, [u, c]) => sum + (UNIT_CAPACITY[u] || 0) * c, 0);
+  const cargoTotal = CARGO_RESOURCES.reduce((sum, r) => sum + cargo[r], 0);
+
+  // Same formula as the server: slowest unit, boosted by the origin's Hangar Bays
+  const travelUnits = fleetType === 'scout' ? { spy: spyCount } : flatUnits;
+  const travelTime = estimateTravelTime(currentFromPlanet, toPlanet, travelUnits);
+
+  const handleCargoChange = (resource: keyof TradeCargo, val: number) => {
+    const stock = Math.floor(currentFromPlanet.resources?.[resource] || 0);
+    setCargo(prev => ({ ...prev, [resource]: Math.max(0, Math.min(stock, val)) }));
+  };
+
   // If Attack Mode is selected, we render the AttackPlanner instead of the simple panel!
   // Or we show a "Open Tactical Map" button?
   // Let's toggle immediately if 'attack' is selected.
@@ -103,6 +146,7 @@ export default function FleetPanel({ fromPlanet, toPlanet, onClose, onFleetCreat
         availableUnits={availableUnits}
         onCommit={handleAttackCommit}
         onCancel={onClose}
+        onSwitchMode={() => setFleetType('scout')}
       />
     );
   }
@@ -121,33 +165,73 @@ export default function FleetPanel({ fromPlanet, toPlanet, onClose, onFleetCreat
             <span className="arrow">➔</span>
             <span className="planet-name">{toPlanet.name}</span>
           </div>
-          {toPlanet.isNpc && <span className="npc-badge">NPC (Lvl {toPlanet.npcLevel})</span>}
+          {toPlanet.isNpc && <span className="npc-badge">NPC (Lvl {toPlanet.npcLevel}{toPlanet.npcVariant ? `.${toPlanet.npcVariant}` : ''})</span>}
         </div>
 
         <div className="fleet-type-selector">
-          {['attack', 'support', 'scout'].map(t => (
+          {['attack', 'support', 'scout', 'trade'].map(t => (
             <button key={t} className={fleetType === t ? 'active' : ''} onClick={() => setFleetType(t as any)}>
               {t.toUpperCase()}
             </button>
           ))}
         </div>
 
-        {/* Support/Scout View */}
-        <div className="flat-selector">
-          {Object.entries(availableUnits).map(([u, count]) => (
-            <div key={u} className="unit-row">
-              <span>{u}</span>
-              <span>Max: {count}</span>
+        {/* Scout View */}
+        {fleetType === 'scout' ? (
+          <div className="flat-selector">
+            <div className="unit-row">
+              <span>Spies</span>
+              <span>Max: {currentFromPlanet.spies?.count || 0}</span>
               <input
                 type="number"
-                value={flatUnits[u] || 0}
-                onChange={e => handleFlatChange(u, parseInt(e.target.value) || 0)}
+                min="1"
+                max={currentFromPlanet.spies?.count || 0}
+                value={spyCount}
+                onChange={e => setSpyCount(Math.min(currentFromPlanet.spies?.count || 0, parseInt(e.target.value) || 0))}
               />
             </div>
-          ))}
-        </div>
+          </div>
+        ) : (
+          /* Support / Trade View */
+          <div className="flat-selector">
+            {Object.entries(availableUnits).map(([u, count]) => (
+              <div key={u} className="unit-row">
+                <span>{u}</span>
+                <span>Max: {count}</span>
+                <input
+                  type="number"
+                  value={flatUnits[u] || 0}
+                  onChange={e => handleFlatChange(u, parseInt(e.target.value) || 0)}
+                />
+              </div>
+            ))}
+
+            {fleetType === 'trade' && (
+              <div className="cargo-hold">
+                <div className="cargo-header">
+                  <span>Cargo</span>
+                  <span className={cargoTotal > cargoCapacity ? 'over-capacity' : ''}>
+                    {cargoTotal} / {cargoCapacity}
+                  </span>
+                </div>
+                {CARGO_RESOURCES.map(r => (
+                  <div key={r} className="unit-row">
+                    <span>{r}</span>
+                    <span>Have: {Math.floor(currentFromPlanet.resources?.[r] || 0)}</span>
+                    <input
+                      type="number"
+                      value={cargo[r]}
+                      onChange={e => handleCargoChange(r, parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
         <div className="fleet-footer">
+          <div className="travel-time">Travel time: {formatTravelTime(travelTime)}</div>
           {error && <div className="error">{error}</div>}
           <button className="dispatch-btn" onClick={handleFlatDispatch} disabled={loading}>
             {loading ? 'Engaging...' : 'DISPATCH'}
@@ -1,53 +1,139 @@
 import { useEffect, useState } from 'react';
 import './GlobalHUD.css';
-import { type Planet, api } from '../lib/api';
+import { type Planet, type IncomingAttack, type RealtimeEventType, api, subscribeRealtime } from '../lib/api';
 
 import Mailbox from './Mailbox';
 
+// Pushes that add or clear incoming attack alerts
+const INCOMING_EVENTS: RealtimeEventType[] = ['connected', 'incoming_attack', 'fleet_arrived', 'fleet_recalled', 'battle_report'];
+
+// Failed scout missions against one of my planets
+interface CapturedSpies {
+    reportId: string;
+    planetName: string;
+    spiesCaught: number;
+}
+
 interface GlobalHUDProps {
-    user: { username: string; xp?: number; level?: number; } | null;
+    user: { username: string; xp?: number; level?: number; darkMatter?: number; } | null;
     currentPlanet: Planet | null;
 }
 
 export default function GlobalHUD({ user, currentPlanet: initialPlanet }: GlobalHUDProps) {
-    const [planet, setPlanet] = useState<Planet | null>(initialPlanet);
+    // Planet plus the moment it was fetched (resources tick forward from there)
+    const [snapshot, setSnapshot] = useState(() => ({ planet: initialPlanet, syncedAt: Date.now() }));
+    const [now, setNow] = useState(() => Date.now());
     const [mailboxOpen, setMailboxOpen] = useState(false);
+    const [incoming, setIncoming] = useState<IncomingAttack[]>([]);
+    const [captures, setCaptures] = useState<CapturedSpies[]>([]);
+    const planet = snapshot.planet;
 
     // Sync state if prop changes
     useEffect(() => {
-        setPlanet(initialPlanet);
+        setSnapshot({ planet: initialPlanet, syncedAt: Date.now() });
     }, [initialPlanet]);
 
-    // Poll for updates every 5 seconds
+    // Refetch when the server pushes an event touching this planet
     useEffect(() => {
         if (!planet?.id) return;
+        const planetId = planet.id;
 
-        const interval = setInterval(() => {
-            api.getPlanet(planet.id).then(setPlanet).catch(console.error);
-        }, 5000);
+        return subscribeRealtime(event => {
+            const { planetId: eventPlanetId, toPlanetId, fromPlanetId } = event.data;
+            if (event.type !== 'connected' && ![eventPlanetId, toPlanetId, fromPlanetId].includes(planetId)) return;
 
-        return () => clearInterval(interval);
+            api.getPlanet(planetId)
+                .then(p => setSnapshot({ planet: p, syncedAt: Date.now() }))
+                .catch(console.error);
+        });
     }, [planet?.id]);
 
+    // Incoming attack alerts across all my planets
+    useEffect(() => {
+        const loadIncoming = () => {
+            api.getIncomingAttacks()
+                .then(data => setIncoming(data.attacks))
+                .catch(console.error);
+        };
+
+        loadIncoming();
+        return subscribeRealtime(event => {
+            if (INCOMING_EVENTS.includes(event.type)) loadIncoming();
+        });
+    }, []);
+
+    // Spies caught at my planets stay listed until dismissed
+    useEffect(() => {
+        return subscribeRealtime(event => {
+            if (event.type !== 'spies_captured') return;
+            const capture = event.data as unknown as CapturedSpies;
+            setCaptures(prev => [...prev, capture]);
+        });
+    }, []);
+
+    // Local resource ticker between pushes
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
     // Level calculation
     const level = user?.level || 1;
     const xp = user?.xp || 0;
 
-    // XP Curve: Prev = 100*(L-1)^2, Next = 100*L^2
-    const prevThreshold = 100 * Math.pow(level - 1, 2);
-    const nextThreshold = 100 * Math.pow(level, 2);
+    // XP Curve (cumulative XP for level L = 30*L^2): Prev = 30*L^2, Next = 30*(L+1)^2
+    const prevThreshold = 30 * Math.pow(level, 2);
+    const nextThreshold = 30 * Math.pow(level + 1, 2);
     const range = nextThreshold - prevThreshold;
     const xpInLevel = Math.max(0, xp - prevThreshold);
 
     const xpPercent = range > 0 ? (xpInLevel / range) * 100 : 0;
 
-    const rubies = 250;
-    const publicOrder = 180; // High order
+    const darkMatter = user?.darkMatter ?? 0;
+    const publicOrder = planet?.stability ?? 100;
+
+    const elapsedHours = Math.max(0, now - snapshot.syncedAt) / 3600000;
+    const rates = planet?.productionRates;
+
+    const formatEta = (arriveAt: string) => {
+        const secs = Math.max(0, Math.floor((new Date(arriveAt).getTime() - now) / 1000));
+        const m = Math.floor(secs / 60);
+        const s = secs % 60;
+        return `${m}:${s.toString().padStart(2, '0')}`;
+    };
+
+    // Exact units with a strong Intelligence Hub, otherwise a size range
+    const describeIntel = (attack: IncomingAttack) => {
+        if (attack.intel.visibility === 'exact' && attack.intel.units) {
+            return Object.entries(attack.intel.units).map(([u, c]) => `${c} ${u}`).join(', ');
+        }
+        const size = attack.intel.estimatedSize;
+        return size ? `~${size.min.toLocaleString()}-${size.max.toLocaleString()} troops` : 'Size unknown';
+    };
+
+    const capacity = planet?.storage?.capacity || 0;
+
+    // Production stops at the storage cap; stock already above it is kept
+    const tick = (stored: number, rate: number) => {
+        const value = stored + rate * elapsedHours;
+        if (!capacity || rate <= 0 || stored >= capacity) return value;
+        return Math.min(capacity, value);
+    };
+
+    const storageGauge = (value: number) => {
+        if (!capacity) return null;
+        const fill = Math.min(100, (value / capacity) * 100);
+        return (
+            <div className="storage-gauge" title={`${Math.floor(value).toLocaleString()} / ${capacity.toLocaleString()}`}>
+                <div className={`storage-fill ${fill >= 100 ? 'full' : fill >= 90 ? 'high' : ''}`} style={{ width: `${fill}%` }}></div>
+            </div>
+        );
+    };
 
-    const credits = planet?.resources?.credits || 0;
-    const carbon = planet?.resources?.carbon || 0;
-    const titanium = planet?.resources?.titanium || 0;
-    const food = planet?.resources?.food || 0;
+    const credits = tick(planet?.resources?.credits || 0, rates?.credits || 0);
+    const carbon = tick(planet?.resources?.carbon || 0, rates?.carbon || 0);
+    const titanium = tick(planet?.resources?.titanium || 0, rates?.titanium || 0);
+    const food = Math.max(0, tick(planet?.resources?.food || 0, rates?.food || 0));
 
     return (
         <div className="global-hud">
@@ -66,15 +152,24 @@ export default function GlobalHUD({ user, currentPlanet: initialPlanet }: Global
             <div className="hud-resources-bar">
                 <div className="res-group">
                     <div className="res-icon carbon-icon"></div>
-                    <span className="res-val">{Math.floor(carbon).toLocaleString()}</span>
+                    <div className="res-stack">
+                        <span className="res-val">{Math.floor(carbon).toLocaleString()}</span>
+                        {storageGauge(carbon)}
+                    </div>
                 </div>
                 <div className="res-group">
                     <div className="res-icon titanium-icon"></div>
-                    <span className="res-val">{Math.floor(titanium).toLocaleString()}</span>
+                    <div className="res-stack">
+                        <span className="res-val">{Math.floor(titanium).toLocaleString()}</span>
+                        {storageGauge(titanium)}
+                    </div>
                 </div>
                 <div className="res-group">
                     <div className="res-icon food-icon"></div>
-                    <span className="res-val">{Math.floor(food).toLocaleString()}</span>
+                    <div className="res-stack">
+                        <span className="res-val">{Math.floor(food).toLocaleString()}</span>
+                        {storageGauge(food)}
+                    </div>
                 </div>
 
                 {/* Military Dropdown */}
@@ -104,11 +199,14 @@ export default function GlobalHUD({ user, currentPlanet: initialPlanet }: Global
             <div className="hud-currencies">
                 <div className="currency-pill">
                     <span className="icon coin-icon">C</span>
-                    <span>{Math.floor(credits).toLocaleString()}</span>
+                    <div className="res-stack">
+                        <span>{Math.floor(credits).toLocaleString()}</span>
+                        {storageGauge(credits)}
+                    </div>
                 </div>
-                <div className="currency-pill premium">
-                    <span className="icon ruby-icon">R</span>
-                    <span>{rubies}</span>
+                <div className="currency-pill premium" title="Dark Matter">
+                    <span className="icon ruby-icon">DM</span>
+                    <span>{darkMatter.toLocaleString()}</span>
                 </div>
                 <div className="hud-icon-btn mail-icon" onClick={() => setMailboxOpen(true)}>
                     ✉️
@@ -121,6 +219,35 @@ export default function GlobalHUD({ user, currentPlanet: initialPlanet }: Global
                 <div className="order-indicator" style={{ width: `${Math.min(100, publicOrder / 2)}%` }}></div>
             </div>
 
+            {/* Incoming Attack Alerts */}
+            {(incoming.length > 0 || captures.length > 0) && (
+                <div className="hud-incoming-alerts">
+                    {captures.map(capture => (
+                        <div
+                            key={capture.reportId}
+                            className="incoming-alert spy-alert"
+                            title="Click to dismiss"
+                            onClick={() => setCaptures(prev => prev.filter(c => c.reportId !== capture.reportId))}
+                        >
+                            <div className="incoming-title">🕵 Spies caught at {capture.planetName}</div>
+                            <div className="incoming-intel">
+                                {capture.spiesCaught} enemy {capture.spiesCaught === 1 ? 'agent' : 'agents'} captured
+                            </div>
+                        </div>
+                    ))}
+                    {incoming.map(attack => (
+                        <div key={attack.id} className="incoming-alert">
+                            <div className="incoming-title">⚠ Attack on {attack.toPlanet.name}</div>
+                            <div className="incoming-row">
+                                <span>From {attack.fromPlanet.name} ({attack.attacker.username})</span>
+                                <span className="incoming-eta">ETA {formatEta(attack.arriveAt)}</span>
+                            </div>
+                            <div className={`incoming-intel ${attack.intel.visibility}`}>{describeIntel(attack)}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {mailboxOpen && <Mailbox onClose={() => setMailboxOpen(false)} />}
         </div>
     );
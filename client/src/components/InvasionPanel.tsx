@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { api, subscribeRealtime, type InvasionEventSummary, type InvasionOverview } from '../lib/api';
+import './WorkshopPanel.css'; // Shared overlay, panel and header styles
+import './InvasionPanel.css';
+
+interface InvasionPanelProps {
+    onClose: () => void;
+}
+
+function formatCountdown(ms: number): string {
+    const secs = Math.max(0, Math.floor(ms / 1000));
+    const d = Math.floor(secs / 86400);
+    const h = Math.floor((secs % 86400) / 3600);
+    const m = Math.floor((secs % 3600) / 60);
+    return d > 0 ? `${d}d ${h}h` : `${h}h ${m}m`;
+}
+
+export default function InvasionPanel({ onClose }: InvasionPanelProps) {
+    const [overview, setOverview] = useState<InvasionOverview | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    const loadInvasion = () => {
+        api.getInvasion().then(setOverview).catch(console.error);
+    };
+
+    useEffect(() => {
+        loadInvasion();
+        return subscribeRealtime(event => {
+            if (event.type === 'invasion_points' || event.type === 'incoming_attack') loadInvasion();
+        });
+    }, []);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 30000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const renderStandings = (event: InvasionEventSummary) => (
+        <>
+            <div className="invasion-score">
+                <div><span>Points</span><strong>{event.myScore.points.toLocaleString()}</strong></div>
+                <div><span>Rank</span><strong>{event.myScore.rank ? `#${event.myScore.rank}` : '—'}</strong></div>
+                <div><span>Defenses</span><strong>{event.myScore.defenses} / {event.myScore.wavesFaced}</strong></div>
+            </div>
+
+            {event.leaderboard.length === 0 ? (
+                <div className="empty-queue">No waves repelled yet</div>
+            ) : (
+                <table className="invasion-leaderboard">
+                    <thead>
+                        <tr><th>#</th><th>Commander</th><th>Lvl</th><th>Defenses</th><th>Points</th></tr>
+                    </thead>
+                    <tbody>
+                        {event.leaderboard.map(row => (
+                            <tr key={row.userId}>
+                                <td>{row.rank}</td>
+                                <td>{row.username}</td>
+                                <td>{row.level}</td>
+                                <td>{row.defenses}</td>
+                                <td>{row.points.toLocaleString()}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </>
+    );
+
+    const event = overview?.event || null;
+
+    return (
+        <div className="workshop-overlay">
+            <div className="workshop-panel invasion-panel">
+                <div className="workshop-header">
+                    <h2>Nomad Invasion</h2>
+                    <button className="close-btn" onClick={onClose}>×</button>
+                </div>
+
+                <div className="workshop-content">
+                    {!overview ? (
+                        <div className="empty-queue">Loading...</div>
+                    ) : (
+                        <>
+                            {event ? (
+                                <div className={`invasion-status ${event.status}`}>
+                                    {event.status === 'active' ? (
+                                        <span>Pirate fleets are attacking! Ends in {formatCountdown(new Date(event.endsAt).getTime() - now)}</span>
+                                    ) : (
+                                        <span>Next invasion in {formatCountdown(new Date(event.startsAt).getTime() - now)}</span>
+                                    )}
+                                    <small>Every wave beaten back earns points; later waves are stronger and worth more.</small>
+                                </div>
+                            ) : (
+                                <div className="empty-queue">No invasion planned</div>
+                            )}
+
+                            {event?.status === 'active' && renderStandings(event)}
+
+                            {overview.previous && (
+                                <div className="invasion-previous">
+                                    <h3>Last invasion</h3>
+                                    {renderStandings(overview.previous)}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react';
-import { api } from '../lib/api';
+import { api, formatGearStats, type DeliveryReceipt, type EspionageReport, type EspionageReportSummary, type GearPiece, type LevelUpReport, type StationedLoss } from '../lib/api';
 import './Mailbox.css';
 
 interface BattleReportSummary {
     id: string;
     fleetId: string;
     isAttacker: boolean;
+    isSupporter?: boolean;
     winner: 'attacker' | 'defender';
     attackerPlanet: { name: string; x: number; y: number };
     defenderPlanet: { name: string; x: number; y: number };
@@ -20,7 +21,11 @@ interface MailboxProps {
 
 export default function Mailbox({ onClose }: MailboxProps) {
     const [reports, setReports] = useState<BattleReportSummary[]>([]);
+    const [intelReports, setIntelReports] = useState<EspionageReportSummary[]>([]);
+    const [receipts, setReceipts] = useState<DeliveryReceipt[]>([]);
+    const [levelUps, setLevelUps] = useState<LevelUpReport[]>([]);
     const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+    const [selectedIntelId, setSelectedIntelId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
@@ -29,8 +34,16 @@ export default function Mailbox({ onClose }: MailboxProps) {
 
     const loadReports = async () => {
         try {
-            const data = await api.getReports(); // We need to add this to api.ts
-            setReports(data.reports);
+            const [battles, intel, deliveries, levels] = await Promise.all([
+                api.getReports(),
+                api.getEspionageReports(),
+                api.getDeliveryReceipts(),
+                api.getLevelUpReports()
+            ]);
+            setReports(battles.reports);
+            setIntelReports(intel.reports);
+            setReceipts(deliveries.receipts);
+            setLevelUps(levels.reports);
         } catch (e) {
             console.error(e);
         } finally {
@@ -53,33 +66,102 @@ export default function Mailbox({ onClose }: MailboxProps) {
                 <div className="mailbox-content">
                     {selectedReportId ? (
                         <BattleReportView id={selectedReportId} onBack={() => setSelectedReportId(null)} />
+                    ) : selectedIntelId ? (
+                        <IntelReportView id={selectedIntelId} onBack={() => setSelectedIntelId(null)} />
                     ) : (
                         <div className="report-list">
                             {loading ? (
                                 <div className="loading">Receiving transmissions...</div>
-                            ) : reports.length === 0 ? (
+                            ) : reports.length === 0 && intelReports.length === 0 && receipts.length === 0 && levelUps.length === 0 ? (
                                 <div className="empty-state">No messages in buffer.</div>
                             ) : (
-                                reports.map(report => (
-                                    <div key={report.id} className={`report-item ${report.winner === (report.isAttacker ? 'attacker' : 'defender') ? 'won' : 'lost'}`} onClick={() => handleSelect(report.id)}>
-                                        <div className="report-icon">
-                                            {report.isAttacker ? '⚔️' : '🛡️'}
+                                <>
+                                    {levelUps.map(report => (
+                                        <div key={report.id} className="report-item level-up">
+                                            <div className="report-icon">⭐</div>
+                                            <div className="report-summary">
+                                                <div className="report-title">Promoted to level {report.level}</div>
+                                                <div className="report-cargo">
+                                                    {report.unlocks.length > 0 ? `Unlocked: ${report.unlocks.join(' · ')}` : 'No new unlocks'}
+                                                </div>
+                                                {report.darkMatter > 0 && (
+                                                    <div className="report-cargo">+{report.darkMatter} Dark Matter</div>
+                                                )}
+                                                <div className="report-date">
+                                                    {new Date(report.createdAt).toLocaleString()}
+                                                </div>
+                                            </div>
+                                            <div className="report-status win">LEVEL UP</div>
                                         </div>
-                                        <div className="report-summary">
-                                            <div className="report-title">
-                                                {report.isAttacker
-                                                    ? `Attack on ${report.defenderPlanet.name}`
-                                                    : `Defense against ${report.attackerPlanet.name}`}
+                                    ))}
+                                    {intelReports.map(report => (
+                                        <div key={report.id} className={`report-item intel ${report.isAttacker === report.success ? 'won' : 'lost'}`} onClick={() => setSelectedIntelId(report.id)}>
+                                            <div className="report-icon">
+                                                {report.isAttacker ? '🕵️' : '🚨'}
                                             </div>
-                                            <div className="report-date">
-                                                {new Date(report.createdAt).toLocaleString()}
+                                            <div className="report-summary">
+                                                <div className="report-title">
+                                                    {report.isAttacker
+                                                        ? `Espionage on ${report.targetPlanet.name}`
+                                                        : `Spies intercepted from ${report.attackerPlanet.name}`}
+                                                </div>
+                                                <div className="report-date">
+                                                    {new Date(report.createdAt).toLocaleString()}
+                                                </div>
+                                            </div>
+                                            <div className={`report-status ${report.isAttacker === report.success ? 'win' : 'loss'}`}>
+                                                {report.success ? 'INTEL GATHERED' : report.isAttacker ? 'AGENTS LOST' : 'CAPTURED'}
+                                            </div>
+                                        </div>
+                                    ))}
+                                    {receipts.map(receipt => (
+                                        <div key={receipt.id} className="report-item delivery">
+                                            <div className="report-icon">📦</div>
+                                            <div className="report-summary">
+                                                <div className="report-title">
+                                                    {receipt.isSender
+                                                        ? `Shipment to ${receipt.toPlanet.name}`
+                                                        : `Shipment from ${receipt.fromPlanet.name}`}
+                                                </div>
+                                                <div className="report-cargo">
+                                                    {Object.entries(receipt.delivered)
+                                                        .filter(([, amount]) => amount > 0)
+                                                        .map(([res, amount]) => `${amount} ${res}`)
+                                                        .join(' · ') || 'Nothing stored'}
+                                                    {Object.entries(receipt.cargo).some(([res, amount]) => amount > receipt.delivered[res as keyof typeof receipt.delivered]) && (
+                                                        <span className="overflow-note"> (storage full, surplus lost)</span>
+                                                    )}
+                                                </div>
+                                                <div className="report-date">
+                                                    {new Date(receipt.createdAt).toLocaleString()}
+                                                </div>
                                             </div>
+                                            <div className="report-status win">DELIVERED</div>
                                         </div>
-                                        <div className={`report-status ${report.winner === (report.isAttacker ? 'attacker' : 'defender') ? 'win' : 'loss'}`}>
-                                            {report.winner === (report.isAttacker ? 'attacker' : 'defender') ? 'VICTORY' : 'DEFEAT'}
+                                    ))}
+                                    {reports.map(report => (
+                                        <div key={report.id} className={`report-item ${report.winner === (report.isAttacker ? 'attacker' : 'defender') ? 'won' : 'lost'}`} onClick={() => handleSelect(report.id)}>
+                                            <div className="report-icon">
+                                                {report.isAttacker ? '⚔️' : '🛡️'}
+                                            </div>
+                                            <div className="report-summary">
+                                                <div className="report-title">
+                                                    {report.isAttacker
+                                                        ? `Attack on ${report.defenderPlanet.name}`
+                                                        : report.isSupporter
+                                                            ? `Reinforcing ${report.defenderPlanet.name}`
+                                                            : `Defense against ${report.attackerPlanet.name}`}
+                                                </div>
+                                                <div className="report-date">
+                                                    {new Date(report.createdAt).toLocaleString()}
+                                                </div>
+                                            </div>
+                                            <div className={`report-status ${report.winner === (report.isAttacker ? 'attacker' : 'defender') ? 'win' : 'loss'}`}>
+                                                {report.winner === (report.isAttacker ? 'attacker' : 'defender') ? 'VICTORY' : 'DEFEAT'}
+                                            </div>
                                         </div>
-                                    </div>
-                                ))
+                                    ))}
+                                </>
                             )}
                         </div>
                     )}
@@ -133,6 +215,97 @@ const ToolList = ({ tools }: { tools: Record<string, number> | Record<string, nu
     );
 };
 
+function IntelReportView({ id, onBack }: { id: string, onBack: () => void }) {
+    const [report, setReport] = useState<EspionageReport | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        api.getEspionageReport(id).then(setReport).finally(() => setLoading(false));
+    }, [id]);
+
+    if (loading) return <div className="loading-detail">Decryption in progress...</div>;
+    if (!report) return <div>Error loading report.</div>;
+
+    const intel = report.intel;
+
+    return (
+        <div className="battle-report-detail">
+            <div className="br-nav">
+                <button className="back-btn" onClick={onBack}>← Back</button>
+            </div>
+
+            <div className={`report-header ${report.isAttacker === report.success ? 'victory' : 'defeat'}`}>
+                <h3>{report.success ? 'INTEL GATHERED' : report.isAttacker ? 'MISSION FAILED' : 'SPIES INTERCEPTED'}</h3>
+                <div className="sub-status">
+                    {report.isAttacker
+                        ? `${report.spiesSent} agents sent to ${report.targetPlanet.name} (${Math.round((report.successChance || 0) * 100)}% chance), ${report.spiesLost} lost`
+                        : `${report.spiesLost} agents from ${report.attackerPlanet.name} captured`}
+                </div>
+            </div>
+
+            {intel && (
+                <div className="br-overview">
+                    <div className="loot-section">
+                        <h4>Resources</h4>
+                        <div className="loot-grid">
+                            {Object.entries(intel.resources).map(([res, amount]) => (
+                                <div key={res} className={`loot-item ${res}`}>
+                                    <span className="res-icon">📦</span>
+                                    <span className="res-amount">{amount}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="total-casualties-section">
+                        <h4>Fortifications</h4>
+                        <div>Shield Generator: Lvl {intel.defense.defensiveGrid} | Perimeter Field: Lvl {intel.defense.perimeterField} | Starport: Lvl {intel.defense.starport}</div>
+                    </div>
+
+                    <div className="flanks-row">
+                        {(['left', 'front', 'right'] as const).map(laneKey => {
+                            const lane = intel.lanes[laneKey];
+                            const label = laneKey === 'left' ? 'Industrial' : laneKey === 'front' ? 'Starport' : 'Military';
+                            return (
+                                <div key={laneKey} className="flank-col">
+                                    <div className="flank-header">{label}</div>
+                                    <div className="flank-side defender">
+                                        <div className="fs-content">
+                                            <UnitList units={lane.units} colorClass="neutral" />
+                                            {lane.tools.length > 0 && (
+                                                <div className="tool-list">
+                                                    <span className="tool-label">Tools: </span>
+                                                    {lane.tools.map((t, i) => (
+                                                        <div key={i} className="tool-entry">{t.count} x {t.type}</div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="total-casualties-section">
+                        <h4>Garrison & Arsenal</h4>
+                        <div className="casualties-grid">
+                            <div className="cas-col">
+                                <h5>Units</h5>
+                                <UnitList units={intel.units} colorClass="neutral" />
+                            </div>
+                            <div className="cas-col">
+                                <h5>Tools</h5>
+                                <UnitList units={intel.tools} colorClass="neutral" />
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
 function BattleReportView({ id, onBack }: { id: string, onBack: () => void }) {
     const [report, setReport] = useState<any | null>(null);
     const [loading, setLoading] = useState(true);
@@ -172,6 +345,9 @@ function BattleReportView({ id, onBack }: { id: string, onBack: () => void }) {
 
     const sectors = (rawData as any).sectors || rawData;
     const surfaceResult = (rawData as any).surface || null;
+    const conquest = (rawData as { conquest?: { conquered: boolean; reason?: string } }).conquest || null;
+    const gearDrop = (rawData as { gearDrop?: GearPiece | null }).gearDrop || null;
+    const darkMatterDrop = (rawData as { darkMatterDrop?: number }).darkMatterDrop || 0;
 
     // Helper to get sector by name, handling 'center' vs 'front'
     const getSector = (key: string) => {
@@ -212,6 +388,8 @@ function BattleReportView({ id, onBack }: { id: string, onBack: () => void }) {
                     <div className={`report-header ${resultClass}`}>
                         <h3>{resultText}</h3>
                         <div className="sub-status">{report.winner.toUpperCase()} PREVAILED</div>
+                        {conquest?.conquered && <div className="sub-status conquest">MOON COLONY CAPTURED</div>}
+                        {conquest && !conquest.conquered && conquest.reason && <div className="sub-status">{conquest.reason}</div>}
                     </div>
                 );
             })()}
@@ -232,6 +410,28 @@ function BattleReportView({ id, onBack }: { id: string, onBack: () => void }) {
                         ) : <div className="no-loot">No resources plundered.</div>}
                     </div>
 
+                    {gearDrop && report.isAttacker && (
+                        <div className="loot-section">
+                            <h4>Admiral Gear Recovered</h4>
+                            <div className={`gear-drop ${gearDrop.rarity}`}>
+                                <span className="gear-name">{gearDrop.name}</span>
+                                <span className="gear-stats">{formatGearStats(gearDrop.stats)}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    {darkMatterDrop > 0 && report.isAttacker && (
+                        <div className="loot-section">
+                            <h4>Dark Matter Recovered</h4>
+                            <div className="loot-grid">
+                                <div className="loot-item dark-matter">
+                                    <span className="res-icon">🌌</span>
+                                    <span className="res-amount">{darkMatterDrop}</span>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
                     <div className="total-casualties-section">
                         <h4>Total Casualties</h4>
                         <div className="casualties-grid">
@@ -245,6 +445,20 @@ function BattleReportView({ id, onBack }: { id: string, onBack: () => void }) {
                             </div>
                         </div>
                     </div>
+
+                    {report.stationedLosses && report.stationedLosses.length > 0 && (
+                        <div className="total-casualties-section">
+                            <h4>Allied Reinforcements</h4>
+                            <div className="casualties-grid">
+                                {(report.stationedLosses as StationedLoss[]).map(s => (
+                                    <div key={s.stationedTroopId} className="cas-col">
+                                        <h5>{s.ownerName}</h5>
+                                        <UnitList units={s.losses} colorClass="red" />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -270,6 +484,7 @@ function BattleReportView({ id, onBack }: { id: string, onBack: () => void }) {
                                     {/* Attacker Stats */}
                                     <div className="flank-side attacker">
                                         <div className="fs-title">Attacker</div>
+                                        {result.admiralBonus?.attack > 0 && <div className="admiral-bonus">Admiral +{result.admiralBonus.attack}% ATK</div>}
                                         <div className="fs-content">
                                             <UnitList units={result.initialAttackerUnits} colorClass="neutral" />
                                             <ToolList tools={result.attackerToolsByWave} />
@@ -300,6 +515,7 @@ function BattleReportView({ id, onBack }: { id: string, onBack: () => void }) {
                                     {/* Defender Stats */}
                                     <div className="flank-side defender">
                                         <div className="fs-title">Defender</div>
+                                        {result.admiralBonus?.defense > 0 && <div className="admiral-bonus">Admiral +{result.admiralBonus.defense}% DEF</div>}
                                         <div className="fs-content">
                                             <UnitList units={result.initialDefenderUnits} colorClass="neutral" />
                                             <ToolList tools={result.defenderTools} />
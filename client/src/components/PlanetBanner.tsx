@@ -106,7 +106,13 @@ export default function PlanetBanner({ planet, mapContainer, onEnterPlanet, onCl
       }}
     >
       <div className="banner-content">
-        <div className="banner-title">{planet.name}</div>
+        <div className="banner-title">
+          {planet.name}
+          {planet.planetType === 'moon' && <span className="banner-subtitle"> · Moon Colony{planet.isNpc ? ' (Neutral)' : ''}</span>}
+          {planet.npcAttacks && (
+            <span className="banner-subtitle"> · Lvl {planet.npcLevel}.{planet.npcVariant} · Beaten {planet.npcAttacks.defeats}/{planet.npcAttacks.toBeat}</span>
+          )}
+        </div>
         <button
           className="banner-close"
           onClick={(e) => {
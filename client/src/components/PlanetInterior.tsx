@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
-import { api, type Planet, getCurrentUser } from '../lib/api';
+import { api, darkMatterSpeedupCost, type Planet, type BuildingDefinition, type BuildingLevel, type ConstructionOrder, getCurrentUser, subscribeRealtime } from '../lib/api';
 import DefensePanel from './DefensePanel';
 import WorkshopPanel from './WorkshopPanel';
+import ResearchPanel from './ResearchPanel';
 import './PlanetInterior.css';
 
 interface PlanetInteriorProps {
@@ -9,61 +10,30 @@ interface PlanetInteriorProps {
   onClose: () => void;
 }
 
-const BUILDING_SIZES: Record<string, number> = {
-  'colony_hub': 4,
-  'carbon_processor': 2,
-  'titanium_extractor': 2,
-  'hydroponics': 2,
-  'academy': 3,
-  'tavern': 2,
-  'defense_workshop': 2,
-  'siege_workshop': 2,
-  'monument': 1
-};
-
-const BUILDING_LABELS: Record<string, string> = {
-  'colony_hub': 'Colony Hub',
-  'carbon_processor': 'Carbon Processor',
-  'titanium_extractor': 'Titanium Extractor',
-  'hydroponics': 'Hydroponics',
-  'academy': 'Naval Academy',
-  'tavern': 'Intelligence Hub',
-  'defense_workshop': 'Systems Workshop',
-  'siege_workshop': 'Munitions Factory',
-  'monument': 'Holo-Monument'
-};
-
-const BUILDING_COSTS: Record<string, { c: number, t: number }> = {
-  'colony_hub': { c: 0, t: 0 },
-  'carbon_processor': { c: 100, t: 100 },
-  'titanium_extractor': { c: 100, t: 100 },
-  'hydroponics': { c: 100, t: 100 },
-  'academy': { c: 500, t: 500 },
-  'tavern': { c: 300, t: 200 },
-  'defense_workshop': { c: 400, t: 300 },
-  'siege_workshop': { c: 400, t: 300 },
-  'monument': { c: 500, t: 0 } // Costs Carbon only? Should assume some cost.
-};
-
 const UNIT_COSTS: any = {
-  marine: { c: 20, t: 0, time: 20, label: 'Marine' },
-  ranger: { c: 30, t: 10, time: 30, label: 'Ranger' },
-  sentinel: { c: 10, t: 40, time: 40, label: 'Sentinel' }
+  marine: { credits: 48, time: 20, label: 'Marine' },
+  ranger: { credits: 41, time: 30, label: 'Ranger' },
+  sentinel: { credits: 200, time: 40, label: 'Sentinel' }
 };
 
 export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps) {
   const [planetData, setPlanetData] = useState<Planet | null>(null);
   const [loading, setLoading] = useState(true);
+  const [catalog, setCatalog] = useState<Record<string, BuildingDefinition>>({});
 
   // Interaction State
   const [hoveredTile, setHoveredTile] = useState<{ x: number, y: number } | null>(null);
   const [buildMode, setBuildMode] = useState<string | null>(null); // Building Type
+  const [dragging, setDragging] = useState<{ id: string, type: string } | null>(null); // Building being moved
   const [showUpgradeMenu, setShowUpgradeMenu] = useState<{ building: any } | null>(null);
   const [recruitSelection, setRecruitSelection] = useState<string>('marine');
   const [recruitCount, setRecruitCount] = useState<number>(10);
   const [showRecruitConsole, setShowRecruitConsole] = useState(false);
   const [showDefensePanel, setShowDefensePanel] = useState(false);
   const [showWorkshop, setShowWorkshop] = useState<'defense_workshop' | 'siege_workshop' | null>(null);
+  const [showResearch, setShowResearch] = useState(false);
+  const [showSpyConsole, setShowSpyConsole] = useState(false);
+  const [spyTrainCount, setSpyTrainCount] = useState<number>(1);
 
   const currentUser = getCurrentUser();
   const isOwner = currentUser?.userId === planet.ownerId;
@@ -84,8 +54,23 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
     loadPlanetData();
   }, [planet.id]);
 
-  // Timer Logic
-  const [timeLeft, setTimeLeft] = useState<string | null>(null);
+  // Building rules come from the server's catalog
+  useEffect(() => {
+    api.getBuildingCatalog()
+      .then(data => setCatalog(Object.fromEntries(data.buildings.map(b => [b.type, b]))))
+      .catch(console.error);
+  }, []);
+
+  // Reload when the server pushes a change to this planet (construction, queues, fleets)
+  useEffect(() => {
+    return subscribeRealtime(event => {
+      const { planetId, toPlanetId, fromPlanetId } = event.data;
+      if (event.type === 'connected' || [planetId, toPlanetId, fromPlanetId].includes(planet.id)) {
+        loadPlanetData();
+      }
+    });
+  }, [planet.id]);
+
   const [now, setNow] = useState(new Date());
 
   // Global Ticker
@@ -96,56 +81,101 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
     return () => clearInterval(interval);
   }, []);
 
-  const construction = planetData?.construction;
-  useEffect(() => {
-    if (construction?.isBuilding && construction.buildFinishTime) {
-      // Logic moved to rely on 'now' if we wanted, or kept simple here
-      // Let's just use the existing logic for construction right now to minimize diff risk, 
-      // but strictly speaking we could unify.
-      // Re-implementing simplified construction timer using `now` would be cleaner but changing logic.
-      // Keeping existing interval logic for construction for safety, but `now` is needed for recruitment.
-
-      const finish = new Date(construction.buildFinishTime!);
-      const diff = Math.ceil((finish.getTime() - now.getTime()) / 1000);
-
-      if (diff <= 0) {
-        if (timeLeft !== null) { // Only reload if we transition from having time to 0
-          setTimeLeft(null);
-          loadPlanetData();
-        }
-      } else {
-        setTimeLeft(`${diff}s`);
-      }
-    } else {
-      setTimeLeft(null);
+  const constructionQueue = planetData?.construction?.queue || [];
+  const activeOrders = constructionQueue.filter(o => o.finishTime).length;
+  // Batches train one after another, so the last one finishes the queue
+  const recruitmentFinish: string | undefined = planetData?.recruitmentQueue?.[planetData.recruitmentQueue.length - 1]?.finishTime;
+
+  // Countdown for orders under way, position for waiting ones
+  const orderStatus = (order: ConstructionOrder) => {
+    if (!order.finishTime) return `Queued #${constructionQueue.indexOf(order) - activeOrders + 1}`;
+    const diff = Math.ceil((new Date(order.finishTime).getTime() - now.getTime()) / 1000);
+    return diff > 0 ? formatBuildTime(diff) : '...'; // The construction_finished push reloads the planet
+  };
+
+  const handleCancelOrder = async (order: ConstructionOrder) => {
+    const share = order.finishTime ? 'half' : 'all';
+    if (!confirm(`Cancel ${labelOf(order.type)} (Lvl ${order.level})? You get ${share} of the resources back.`)) return;
+    try {
+      await api.cancelConstruction(planet.id, order.buildingId);
+      loadPlanetData();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const handleMoveOrder = async (order: ConstructionOrder, position: number) => {
+    try {
+      await api.reorderConstruction(planet.id, order.buildingId, position);
+      loadPlanetData();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  // Dark Matter: finish a timer now, or buy another construction slot
+  const handleSpeedup = async (target: 'construction' | 'recruitment', finishTime: string, buildingId?: string) => {
+    if (!confirm(`Finish now for ${darkMatterSpeedupCost(finishTime)} Dark Matter?`)) return;
+    try {
+      await api.speedup(planet.id, target, buildingId);
+      loadPlanetData();
+    } catch (e) {
+      alert((e as Error).message);
     }
-  }, [now, construction, planet.id]);
+  };
+
+  const handleBuySlot = async (cost: number) => {
+    if (!confirm(`Buy another construction slot for ${cost} Dark Matter?`)) return;
+    try {
+      await api.buyBuildSlot(planet.id);
+      loadPlanetData();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
 
   // derived
   const resources = planetData?.resources;
   const buildings = planetData?.buildings || [];
+  const gridSize = planetData?.gridSize || 10; // Moon Colonies have a smaller grid
+
+  const sizeOf = (type: string) => catalog[type]?.size || 2;
+  const labelOf = (type: string) => catalog[type]?.name || type;
+  const formatCost = (cost: BuildingLevel) =>
+    `${cost.carbon}C ${cost.titanium}Ti${cost.credits > 0 ? ` ${cost.credits}Cr` : ''}`;
+  const canAfford = (cost: BuildingLevel) => !!resources && resources.carbon >= cost.carbon
+    && resources.titanium >= cost.titanium && resources.credits >= cost.credits;
+  const formatBuildTime = (secs: number) => {
+    if (secs < 60) return `${secs}s`;
+    if (secs < 3600) return `${Math.floor(secs / 60)}m ${secs % 60 ? `${secs % 60}s` : ''}`.trim();
+    return `${Math.floor(secs / 3600)}h ${Math.floor((secs % 3600) / 60)}m`;
+  };
 
-  // Occupied Map
-  const occupiedMap = new Set<string>();
+  // Occupied Map (tile -> building id)
+  const occupiedMap = new Map<string, string>();
   buildings.forEach(b => {
-    const size = BUILDING_SIZES[b.type] || 2;
+    const size = sizeOf(b.type);
     for (let dx = 0; dx < size; dx++) {
       for (let dy = 0; dy < size; dy++) {
-        occupiedMap.add(`${b.x + dx},${b.y + dy}`);
+        occupiedMap.set(`${b.x + dx},${b.y + dy}`, b.id);
       }
     }
   });
-  const isOccupied = (x: number, y: number) => occupiedMap.has(`${x},${y}`);
+  // A building being moved does not block its own tiles
+  const isOccupied = (x: number, y: number, ignoreId?: string) => {
+    const id = occupiedMap.get(`${x},${y}`);
+    return !!id && id !== ignoreId;
+  };
 
   // Placement Check Logic
-  const canPlaceAt = (x: number, y: number, type: string) => {
-    const size = BUILDING_SIZES[type] || 2;
+  const canPlaceAt = (x: number, y: number, type: string, ignoreId?: string) => {
+    const size = sizeOf(type);
     // Bounds
-    if (x + size > 10 || y + size > 10) return false;
+    if (x + size > gridSize || y + size > gridSize) return false;
     // Overlap
     for (let dx = 0; dx < size; dx++) {
       for (let dy = 0; dy < size; dy++) {
-        if (isOccupied(x + dx, y + dy)) return false;
+        if (isOccupied(x + dx, y + dy, ignoreId)) return false;
       }
     }
     return true;
@@ -169,7 +199,7 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
 
     // Check click existing
     const building = buildings.find(b => {
-      const size = BUILDING_SIZES[b.type] || 2;
+      const size = sizeOf(b.type);
       return x >= b.x && x < b.x + size && y >= b.y && y < b.y + size;
     });
     if (building) {
@@ -177,6 +207,34 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
     }
   };
 
+  // Drag-to-move: drop the dragged building with its top-left corner on the tile
+  const handleDrop = async (x: number, y: number) => {
+    const moved = dragging;
+    setDragging(null);
+    setHoveredTile(null);
+    if (!moved || !canPlaceAt(x, y, moved.type, moved.id)) return;
+    try {
+      await api.moveBuilding(planet.id, moved.id, x, y);
+      loadPlanetData();
+    } catch (e) { alert((e as Error).message); }
+  };
+
+  const handleDemolish = async (building: { id: string, type: string, level: number }) => {
+    if (!confirm(`Demolish ${labelOf(building.type)} (Lvl ${building.level})? Part of its cost is refunded once it is gone.`)) return;
+    try {
+      await api.demolishBuilding(planet.id, building.id);
+      setShowUpgradeMenu(null);
+      loadPlanetData();
+    } catch (e) { alert((e as Error).message); }
+  };
+
+  const handleExpandGrid = async () => {
+    try {
+      await api.expandGrid(planet.id);
+      loadPlanetData();
+    } catch (e) { alert((e as Error).message); }
+  };
+
   const handleRecruit = async () => {
     if (recruitCount <= 0) return;
     try {
@@ -185,21 +243,29 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
     } catch (e: any) { alert(e.message); }
   };
 
+  const handleTrainSpies = async () => {
+    if (spyTrainCount <= 0) return;
+    try {
+      await api.trainSpies(planet.id, spyTrainCount);
+      loadPlanetData();
+    } catch (e) { alert((e as Error).message); }
+  };
+
   // Render Grid
-  const gridSize = 10;
   const gridCells = [];
 
   for (let y = 0; y < gridSize; y++) {
     for (let x = 0; x < gridSize; x++) {
-      // Ghost Logic
+      // Ghost Logic (placing a new building or dragging an existing one)
       let ghostClass = '';
-      if (buildMode && hoveredTile) {
-        const size = BUILDING_SIZES[buildMode] || 2;
+      const ghostType = buildMode || dragging?.type;
+      if (ghostType && hoveredTile) {
+        const size = sizeOf(ghostType);
         // Check if THIS cell is inside the hovered footprint
         if (x >= hoveredTile.x && x < hoveredTile.x + size &&
           y >= hoveredTile.y && y < hoveredTile.y + size) {
           // Check validity of the ROOT hovered tile
-          const valid = canPlaceAt(hoveredTile.x, hoveredTile.y, buildMode);
+          const valid = canPlaceAt(hoveredTile.x, hoveredTile.y, ghostType, dragging?.id);
           ghostClass = valid ? 'ghost-valid' : 'ghost-invalid';
         }
       }
@@ -211,6 +277,15 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
           onClick={() => handleTileClick(x, y)}
           onMouseEnter={() => setHoveredTile({ x, y })}
           onMouseLeave={() => setHoveredTile(null)}
+          onDragOver={e => {
+            if (!dragging) return;
+            e.preventDefault();
+            if (hoveredTile?.x !== x || hoveredTile?.y !== y) setHoveredTile({ x, y });
+          }}
+          onDrop={e => {
+            e.preventDefault();
+            handleDrop(x, y);
+          }}
           style={{ gridColumn: x + 1, gridRow: y + 1 }}
         />
       );
@@ -218,11 +293,12 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
   }
 
   const buildingElements = buildings.map(b => {
-    const size = BUILDING_SIZES[b.type] || 2;
+    const size = sizeOf(b.type);
+    const order = constructionQueue.find(o => o.buildingId === b.id);
     return (
       <div
         key={b.id}
-        className={`grid-building ${b.type} ${b.status === 'constructing' || b.status === 'upgrading' ? 'constructing' : ''}`}
+        className={`grid-building ${b.type} ${b.status !== 'active' ? 'constructing' : ''}`}
         style={{
           gridColumn: `${b.x + 1} / span ${size}`,
           gridRow: `${b.y + 1} / span ${size}`
@@ -231,14 +307,23 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
           e.stopPropagation();
           handleTileClick(b.x, b.y);
         }}
+        draggable={isOwner && !buildMode}
+        onDragStart={e => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDragging({ id: b.id, type: b.type });
+        }}
+        onDragEnd={() => {
+          setDragging(null);
+          setHoveredTile(null);
+        }}
         onMouseEnter={() => {
           // Prevent ghost from rendering underneath if hovering a building?
           // No, we technically want to know we can't place there.
         }}
       >
-        <div className="b-name">{BUILDING_LABELS[b.type]}</div>
+        <div className="b-name">{labelOf(b.type)}</div>
         <div className="b-level">Lvl {b.level}</div>
-        {b.status !== 'active' && <div className="b-status">{timeLeft || '...'}</div>}
+        {order && <div className="b-status">{orderStatus(order)}</div>}
       </div>
     );
   });
@@ -263,32 +348,106 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
                 <span>Titanium: {resources?.titanium.toFixed(0)}</span>
                 <span className="res-rate">+{planetData?.production?.titanium}/h</span>
               </div>
+              <div className="resource-item">
+                <span>Credits: {resources?.credits.toFixed(0)}</span>
+                <span className="res-rate">+{(planetData?.productionRates?.credits || 0).toFixed(0)}/h</span>
+              </div>
+              <div className="resource-item">
+                <span>Population: {planetData?.population ?? 0}</span>
+              </div>
             </div>
           </div>
 
+          {/* Stability breakdown */}
+          {planetData?.stabilitySources && (
+            <div className="planet-section">
+              <h3>Stability: {planetData.stability}% <span className="stability-hint">(production x{((planetData.stability ?? 100) / 100).toFixed(2)})</span></h3>
+              <div className="stability-sources">
+                {planetData.stabilitySources.map(s => (
+                  <div key={s.source} className="stability-source">
+                    <span>{s.label}</span>
+                    <span className={s.value > 0 ? 'positive' : s.value < 0 ? 'negative' : ''}>
+                      {s.value > 0 ? '+' : ''}{s.value}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Grid */}
           <div className="planet-grid-container">
-            <div className="planet-grid">
+            <div className={`planet-grid ${dragging ? 'dragging' : ''}`} style={{ gridTemplateColumns: `repeat(${gridSize}, 50px)`, gridTemplateRows: `repeat(${gridSize}, 50px)` }}>
               {gridCells}
               {buildingElements}
             </div>
           </div>
 
+          {/* Grid Expansion */}
+          {isOwner && planetData?.gridExpansion && (
+            <div className="grid-expansion">
+              <span>Grid {gridSize}x{gridSize} · drag buildings to move them</span>
+              <button
+                disabled={!resources || resources.carbon < planetData.gridExpansion.carbon || resources.titanium < planetData.gridExpansion.titanium}
+                onClick={handleExpandGrid}
+                title={`Requires player level ${planetData.gridExpansion.playerLevel}`}
+              >
+                Expand ({planetData.gridExpansion.carbon}C {planetData.gridExpansion.titanium}Ti)
+              </button>
+            </div>
+          )}
+
+          {/* Construction Queue */}
+          {isOwner && constructionQueue.length > 0 && (
+            <div className="planet-section">
+              <h3>Construction ({activeOrders}/{planetData?.construction?.slots ?? 1} slots)</h3>
+              {planetData?.construction?.nextSlotCost != null && (
+                <button className="buy-slot-btn" onClick={() => handleBuySlot(planetData.construction!.nextSlotCost!)}>
+                  Buy slot ({planetData.construction.nextSlotCost} DM)
+                </button>
+              )}
+              <div className="recruitment-queue">
+                {constructionQueue.map((order, i) => (
+                  <div key={order.buildingId} className="queue-item">
+                    <span>{labelOf(order.type)} Lvl {order.level}</span>
+                    <span className="queue-controls">
+                      <span style={{ color: order.finishTime ? '#ff9800' : '#888' }}>{orderStatus(order)}</span>
+                      {order.finishTime && (
+                        <button title="Finish now with Dark Matter" onClick={() => handleSpeedup('construction', order.finishTime!, order.buildingId)}>
+                          {darkMatterSpeedupCost(order.finishTime)} DM
+                        </button>
+                      )}
+                      {!order.finishTime && (
+                        <>
+                          <button disabled={i <= activeOrders} onClick={() => handleMoveOrder(order, i - 1)}>▲</button>
+                          <button disabled={i === constructionQueue.length - 1} onClick={() => handleMoveOrder(order, i + 1)}>▼</button>
+                        </>
+                      )}
+                      <button onClick={() => handleCancelOrder(order)}>✕</button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Build Dock */}
           {isOwner && (
             <div className="build-dock">
-              {['carbon_processor', 'titanium_extractor', 'hydroponics', 'academy', 'tavern', 'defense_workshop', 'siege_workshop', 'monument'].map(type => {
-                const cost = BUILDING_COSTS[type];
-                const canAfford = resources && resources.carbon >= cost.c && resources.titanium >= cost.t;
+              {Object.values(catalog).filter(def => def.buildable).map(def => {
+                const cost = def.levels[0];
+                const atLimit = !!def.limit && buildings.filter(b => b.type === def.type).length >= def.limit;
+                const available = canAfford(cost) && !atLimit;
                 return (
                   <div
-                    key={type}
-                    className={`build-dock-item ${buildMode === type ? 'active' : ''}`}
-                    onClick={() => canAfford && setBuildMode(buildMode === type ? null : type)}
-                    style={{ opacity: canAfford ? 1 : 0.5 }}
+                    key={def.type}
+                    className={`build-dock-item ${buildMode === def.type ? 'active' : ''}`}
+                    onClick={() => available && setBuildMode(buildMode === def.type ? null : def.type)}
+                    style={{ opacity: available ? 1 : 0.5 }}
+                    title={`Requires player level ${cost.playerLevel}, build time ${formatBuildTime(cost.time)}`}
                   >
-                    <span>{BUILDING_LABELS[type]}</span>
-                    <span>{cost.c}C {cost.t}Ti</span>
+                    <span>{def.name}</span>
+                    <span>{atLimit ? 'Limit reached' : formatCost(cost)}</span>
                   </div>
                 );
               })}
@@ -299,16 +458,35 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
           {showUpgradeMenu && (
             <div className="building-modal-overlay" onClick={() => setShowUpgradeMenu(null)}>
               <div className="building-modal" onClick={e => e.stopPropagation()}>
-                <h3>{BUILDING_LABELS[showUpgradeMenu.building.type]} (Lvl {showUpgradeMenu.building.level})</h3>
-                <button className="upgrade-btn" onClick={async () => {
-                  try {
-                    await api.build(planet.id, showUpgradeMenu.building.type, showUpgradeMenu.building.x, showUpgradeMenu.building.y);
-                    setShowUpgradeMenu(null);
-                    loadPlanetData();
-                  } catch (e: any) { alert(e.message); }
-                }}>
-                  Upgrade ({(100 * Math.pow(1.5, showUpgradeMenu.building.level)).toFixed(0)} Res)
-                </button>
+                <h3>{labelOf(showUpgradeMenu.building.type)} (Lvl {showUpgradeMenu.building.level})</h3>
+                {(() => {
+                  const next = catalog[showUpgradeMenu.building.type]?.levels[showUpgradeMenu.building.level];
+                  if (!next) return <div className="upgrade-info">Max level reached</div>;
+                  return (
+                    <>
+                      <div className="upgrade-info">
+                        Requires player level {next.playerLevel}
+                        {next.hubLevel > 0 && `, Colony Hub level ${next.hubLevel}`}
+                        {' · '}{formatBuildTime(next.time)}
+                      </div>
+                      <button className="upgrade-btn" disabled={!canAfford(next)} onClick={async () => {
+                        try {
+                          await api.build(planet.id, showUpgradeMenu.building.type, showUpgradeMenu.building.x, showUpgradeMenu.building.y);
+                          setShowUpgradeMenu(null);
+                          loadPlanetData();
+                        } catch (e: any) { alert(e.message); }
+                      }}>
+                        Upgrade ({formatCost(next)})
+                      </button>
+                    </>
+                  );
+                })()}
+                {catalog[showUpgradeMenu.building.type]?.buildable && !catalog[showUpgradeMenu.building.type]?.permanent
+                  && showUpgradeMenu.building.status === 'active' && (
+                  <button className="demolish-btn" onClick={() => handleDemolish(showUpgradeMenu.building)}>
+                    Demolish
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -327,6 +505,11 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
                   </button>
                 </>
               )}
+              {buildings.some(b => b.type === 'tavern' && b.status === 'active') && (
+                <button className="recruit-btn" style={{ background: '#7b1fa2' }} onClick={() => setShowSpyConsole(!showSpyConsole)}>
+                  Intelligence Hub
+                </button>
+              )}
               {buildings.some(b => b.type === 'defense_workshop' && b.status === 'active') && (
                 <button className="recruit-btn" style={{ background: '#00bcd4' }} onClick={() => setShowWorkshop('defense_workshop')}>
                   Systems Workshop
@@ -337,6 +520,11 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
                   Munitions Factory
                 </button>
               )}
+              {buildings.some(b => b.type === 'research_tower' && (b.status === 'active' || b.status === 'upgrading')) && (
+                <button className="recruit-btn" style={{ background: '#6b4fa0' }} onClick={() => setShowResearch(true)}>
+                  Research Tower
+                </button>
+              )}
             </div>
 
             {showRecruitConsole && (
@@ -349,7 +537,7 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
                       onClick={() => setRecruitSelection(id)}
                     >
                       <h4>{u.label}</h4>
-                      <div className="unit-cost">{u.c}C {u.t}Ti</div>
+                      <div className="unit-cost">{u.credits} Credits</div>
                       <div>{u.time}s</div>
                     </div>
                   ))}
@@ -387,12 +575,37 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
                         </div>
                       );
                     })}
+                    {recruitmentFinish && (
+                      <button className="buy-slot-btn" onClick={() => handleSpeedup('recruitment', recruitmentFinish)}>
+                        Finish all now ({darkMatterSpeedupCost(recruitmentFinish)} DM)
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
             )}
           </div>
 
+          {showSpyConsole && (
+            <div className="planet-section">
+              <div className="recruitment-console">
+                <h4>Agents: {planetData?.spies?.count || 0} / {planetData?.spies?.capacity || 0}</h4>
+                <div className="recruit-actions">
+                  <input
+                    type="number"
+                    className="recruit-input"
+                    value={spyTrainCount}
+                    onChange={e => setSpyTrainCount(parseInt(e.target.value))}
+                    min="1"
+                  />
+                  <button className="recruit-btn-action" onClick={handleTrainSpies}>
+                    TRAIN AGENTS
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Modals */}
           {showDefensePanel && planetData && (
             <DefensePanel planet={planetData} onClose={() => setShowDefensePanel(false)} />
@@ -407,6 +620,14 @@ export default function PlanetInterior({ planet, onClose }: PlanetInteriorProps)
             />
           )}
 
+          {showResearch && planetData && (
+            <ResearchPanel
+              planet={planetData}
+              onClose={() => setShowResearch(false)}
+              onUpdate={loadPlanetData}
+            />
+          )}
+
         </div>
       </div>
     </div>
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { api, subscribeRealtime, type Planet, type ResearchOverview, type Technology } from '../lib/api';
+import './WorkshopPanel.css'; // Shared overlay, panel and card styles
+import './ResearchPanel.css';
+
+interface ResearchPanelProps {
+    planet: Planet; // Pays for the research started here
+    onClose: () => void;
+    onUpdate: () => void;
+}
+
+const BRANCHES: { id: Technology['branch']; label: string }[] = [
+    { id: 'military', label: 'Military' },
+    { id: 'economy', label: 'Economy' },
+];
+
+function formatDuration(secs: number): string {
+    const h = Math.floor(secs / 3600);
+    const m = Math.floor((secs % 3600) / 60);
+    const s = secs % 60;
+    return h > 0 ? `${h}h ${m}m` : `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+export default function ResearchPanel({ planet, onClose, onUpdate }: ResearchPanelProps) {
+    const [overview, setOverview] = useState<ResearchOverview | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [now, setNow] = useState(() => Date.now());
+
+    const loadResearch = () => {
+        api.getResearch().then(setOverview).catch(console.error);
+    };
+
+    useEffect(() => {
+        loadResearch();
+        return subscribeRealtime(event => {
+            if (event.type === 'research_complete') loadResearch();
+        });
+    }, []);
+
+    // Countdown for the project under way
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const handleStart = async (tech: Technology) => {
+        setLoading(true);
+        try {
+            await api.startResearch(planet.id, tech.id);
+            loadResearch();
+            onUpdate();
+        } catch (e) {
+            alert((e as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!confirm('Cancel the current research? Half of its cost is refunded.')) return;
+        setLoading(true);
+        try {
+            await api.cancelResearch();
+            loadResearch();
+            onUpdate();
+        } catch (e) {
+            alert((e as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const active = overview?.active || null;
+    const activeTech = active && overview?.technologies.find(t => t.id === active.techId);
+    const secondsLeft = active ? Math.max(0, Math.ceil((new Date(active.finishTime).getTime() - now) / 1000)) : 0;
+
+    return (
+        <div className="workshop-overlay">
+            <div className="workshop-panel research-panel">
+                <div className="workshop-header">
+                    <h2>Research Tower</h2>
+                    <button className="close-btn" onClick={onClose}>×</button>
+                </div>
+
+                <div className="workshop-content">
+                    {!overview ? (
+                        <div className="empty-queue">Loading...</div>
+                    ) : (
+                        <>
+                            <div className="research-status">
+                                <span>Tower level {overview.towerLevel}</span>
+                                {overview.researchSpeed > 0 && <span>Research speed +{overview.researchSpeed}%</span>}
+                            </div>
+
+                            {active && (
+                                <div className="research-active">
+                                    <span>{activeTech?.name || active.techId} {active.level}</span>
+                                    <span className="processing">{secondsLeft > 0 ? formatDuration(secondsLeft) : 'Complete'}</span>
+                                    <button disabled={loading} onClick={handleCancel}>Cancel</button>
+                                </div>
+                            )}
+
+                            {BRANCHES.map(branch => (
+                                <div key={branch.id} className="research-branch">
+                                    <h3>{branch.label}</h3>
+                                    <div className="tools-list">
+                                        {overview.technologies.filter(t => t.branch === branch.id).map(tech => (
+                                            <div key={tech.id} className={`tool-card tech-card ${tech.locked ? 'locked' : ''}`}>
+                                                <h4>{tech.name} <small>{tech.level}/{tech.maxLevel}</small></h4>
+                                                <p className="tool-desc">{tech.description}</p>
+                                                {tech.next && (
+                                                    <div className="tool-cost">
+                                                        <span>
+                                                            {tech.next.carbon}C {tech.next.titanium}Ti{tech.next.credits > 0 && ` ${tech.next.credits}Cr`}
+                                                        </span>
+                                                        <span>⏱ {formatDuration(tech.next.time)}</span>
+                                                    </div>
+                                                )}
+                                                {tech.locked ? (
+                                                    <p className="tech-locked">{tech.locked}</p>
+                                                ) : (
+                                                    <button
+                                                        className="research-btn"
+                                                        disabled={loading || !!active}
+                                                        onClick={() => handleStart(tech)}
+                                                    >
+                                                        Research
+                                                    </button>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
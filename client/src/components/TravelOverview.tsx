@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { api, type Fleet } from '../lib/api';
+import { api, subscribeRealtime, type AttackSlots, type Fleet, type StationedTroops } from '../lib/api';
 import './TravelOverview.css';
 
 interface TravelOverviewProps {
@@ -8,13 +8,23 @@ interface TravelOverviewProps {
 
 export default function TravelOverview({ onClose }: TravelOverviewProps) {
     const [fleets, setFleets] = useState<Fleet[]>([]);
+    const [abroad, setAbroad] = useState<StationedTroops[]>([]);
+    const [hosted, setHosted] = useState<StationedTroops[]>([]);
+    const [attackSlots, setAttackSlots] = useState<AttackSlots | null>(null);
     const [loading, setLoading] = useState(true);
     const [now, setNow] = useState(new Date());
 
     const fetchFleets = async () => {
         try {
-            const data = await api.getFleets();
+            const [data, stationed, slots] = await Promise.all([
+                api.getFleets(),
+                api.getStationedTroops(),
+                api.getAttackSlots(),
+            ]);
             setFleets(data.fleets);
+            setAttackSlots(slots);
+            setAbroad(stationed.abroad);
+            setHosted(stationed.hosted);
         } catch (e) {
             console.error(e);
         } finally {
@@ -24,16 +34,35 @@ export default function TravelOverview({ onClose }: TravelOverviewProps) {
 
     useEffect(() => {
         fetchFleets();
-        const interval = setInterval(() => {
-            setNow(new Date());
-            // Optionally re-fetch periodically?
-            // For now, rely on initial fetch + local timer, but refreshing list every 5s is good practice
-            // to catch new fleets or status changes.
-            if (new Date().getSeconds() % 5 === 0) fetchFleets();
-        }, 1000);
-        return () => clearInterval(interval);
+        // Refetch on fleet pushes; the ticker only drives the countdowns
+        const unsubscribe = subscribeRealtime(event => {
+            if (event.type !== 'construction_finished' && event.type !== 'building_demolished' && event.type !== 'queue_completed') fetchFleets();
+        });
+        const interval = setInterval(() => setNow(new Date()), 1000);
+        return () => {
+            clearInterval(interval);
+            unsubscribe();
+        };
     }, []);
 
+    const handleRecall = async (id: string) => {
+        try {
+            await api.recallTroops(id);
+            fetchFleets();
+        } catch (e) {
+            alert((e as Error).message);
+        }
+    };
+
+    const handleFleetRecall = async (id: string) => {
+        try {
+            await api.recallFleet(id);
+            fetchFleets();
+        } catch (e) {
+            alert((e as Error).message);
+        }
+    };
+
     const formatDuration = (ms: number) => {
         if (ms <= 0) return 'Arriving...';
         const totalSecs = Math.floor(ms / 1000);
@@ -54,6 +83,12 @@ export default function TravelOverview({ onClose }: TravelOverviewProps) {
                 <div className="content">
                     <div className="summary-bar">
                         <span>Active Movements: {fleets.length}</span>
+                        {attackSlots && (
+                            <span>
+                                Attack Slots: {attackSlots.attacksUsed}/{attackSlots.attackSlots}
+                                {' · '}Admiral Slots: {attackSlots.admiralsUsed}/{attackSlots.admiralSlots}
+                            </span>
+                        )}
                     </div>
 
                     <div className="fleets-list">
@@ -65,6 +100,11 @@ export default function TravelOverview({ onClose }: TravelOverviewProps) {
 
                             // If timeleft < 0 and status is 'enroute', it's processing
 
+                            // Recalling turns around now: the way back takes as long as the way so far
+                            const canRecall = fleet.status === 'enroute' && !!fleet.recallableUntil
+                                && now.getTime() < new Date(fleet.recallableUntil).getTime();
+                            const recallEta = now.getTime() - new Date(fleet.departAt).getTime();
+
                             return (
                                 <div key={fleet.id} className={`fleet-row ${fleet.type}`}>
                                     <div className="fleet-info">
@@ -84,11 +124,74 @@ export default function TravelOverview({ onClose }: TravelOverviewProps) {
                                     <div className="fleet-timer">
                                         <span className="time">{formatDuration(timeLeft)}</span>
                                         <span className="status">{fleet.status}</span>
+                                        {canRecall && (
+                                            <button
+                                                className="recall-btn"
+                                                title="Units return home; tools are refunded immediately"
+                                                onClick={() => handleFleetRecall(fleet.id)}
+                                            >
+                                                Recall (back in {formatDuration(recallEta)})
+                                            </button>
+                                        )}
                                     </div>
                                 </div>
                             );
                         })}
                     </div>
+
+                    {(abroad.length > 0 || hosted.length > 0) && (
+                        <>
+                            <div className="summary-bar stationed-bar">
+                                <span>Stationed Reinforcements: {abroad.length + hosted.length}</span>
+                            </div>
+
+                            <div className="fleets-list">
+                                {abroad.map(st => (
+                                    <div key={st.id} className="fleet-row support">
+                                        <div className="fleet-info">
+                                            <span className="type">ABROAD</span>
+                                            <div className="details">
+                                                At: <b>{st.hostPlanet.name}</b> <br />
+                                                Home: <b>{st.originPlanet.name}</b>
+                                            </div>
+                                        </div>
+
+                                        <div className="fleet-units">
+                                            {Object.entries(st.units).map(([u, c]) => (
+                                                <span key={u} className="unit-badge">{c} {u}</span>
+                                            ))}
+                                        </div>
+
+                                        <div className="fleet-timer">
+                                            <button className="recall-btn" onClick={() => handleRecall(st.id)}>Recall</button>
+                                        </div>
+                                    </div>
+                                ))}
+
+                                {hosted.map(st => (
+                                    <div key={st.id} className="fleet-row support">
+                                        <div className="fleet-info">
+                                            <span className="type">ALLIED</span>
+                                            <div className="details">
+                                                From: <b>{st.owner.username}</b> <br />
+                                                At: <b>{st.hostPlanet.name}</b>
+                                            </div>
+                                        </div>
+
+                                        <div className="fleet-units">
+                                            {Object.entries(st.units).map(([u, c]) => (
+                                                <span key={u} className="unit-badge">{c} {u}</span>
+                                            ))}
+                                        </div>
+
+                                        <div className="fleet-timer">
+                                            <span className="status">stationed</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
                 </div>
             </div>
         </div>
@@ -1,6 +1,6 @@
 
 import { useState } from 'react';
-import { api, type Planet } from '../lib/api';
+import { api, darkMatterSpeedupCost, type Planet } from '../lib/api';
 import './WorkshopPanel.css';
 
 interface WorkshopPanelProps {
@@ -14,12 +14,14 @@ const TOOLS: Record<string, any> = {
     'defense_workshop': [
         { id: 'auto_turret', label: 'Auto-Turret', c: 40, t: 40, time: 30, desc: '+Shield Generator Power' },
         { id: 'blast_door', label: 'Blast Door', c: 280, t: 120, time: 60, desc: '+Starport Integrity' },
-        { id: 'targeting_array', label: 'Targeting Array', c: 525, t: 225, time: 60, desc: '+Ranged Unit Power' }
+        { id: 'targeting_array', label: 'Targeting Array', c: 525, t: 225, time: 60, desc: '+Ranged Unit Power' },
+        { id: 'shield_amplifier', label: 'Shield Amplifier', c: 900, t: 600, time: 90, desc: '++Shield Generator Power', research: 'Hardened Shields' }
     ],
     'siege_workshop': [
         { id: 'signal_jammer', label: 'Signal Jammer', c: 28, t: 12, time: 30, desc: '-Shield Generator Power' },
         { id: 'breach_cutter', label: 'Breach Cutter', c: 56, t: 24, time: 60, desc: '-Starport Integrity' },
-        { id: 'holo_decoy', label: 'Holo-Decoy', c: 105, t: 45, time: 60, desc: '-Enemy Ranged Power' }
+        { id: 'holo_decoy', label: 'Holo-Decoy', c: 105, t: 45, time: 60, desc: '-Enemy Ranged Power' },
+        { id: 'plasma_breacher', label: 'Plasma Breacher', c: 220, t: 160, time: 90, desc: '--Starport Integrity', research: 'Siege Engineering' }
     ]
 };
 
@@ -43,6 +45,20 @@ export default function WorkshopPanel({ planet, type, onClose, onUpdate }: Works
         }
     };
 
+    // Finish the whole queue with Dark Matter, priced by the last batch
+    const handleFinishNow = async (lastFinish: string) => {
+        if (!confirm(`Finish all production now for ${darkMatterSpeedupCost(lastFinish)} Dark Matter?`)) return;
+        setLoading(true);
+        try {
+            await api.speedup(planet.id, 'manufacturing');
+            onUpdate();
+        } catch (e) {
+            alert((e as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
     // Filter queue for relevant tools? Or just show all?
     // Usually a planet has one global queue or separate queues?
     // Our backend stored it in `manufacturingQueue` globally on planet.
@@ -67,6 +83,7 @@ export default function WorkshopPanel({ planet, type, onClose, onUpdate }: Works
                             >
                                 <h4>{t.label}</h4>
                                 <p className="tool-desc">{t.desc}</p>
+                                {t.research && <p className="tool-research">Research: {t.research}</p>}
                                 <div className="tool-cost">
                                     <span>{t.c > 0 && `${t.c}C`} {t.t > 0 && `${t.t}Ti`}</span>
                                     <span>⏱ {t.time}s</span>
@@ -115,6 +132,15 @@ export default function WorkshopPanel({ planet, type, onClose, onUpdate }: Works
                                 </div>
                             );
                         })}
+                        {queue.length > 0 && (
+                            <button
+                                className="finish-now-btn"
+                                disabled={loading}
+                                onClick={() => handleFinishNow(queue[queue.length - 1].finishTime)}
+                            >
+                                Finish all now ({darkMatterSpeedupCost(queue[queue.length - 1].finishTime)} DM)
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import * as PIXI from 'pixi.js';
-import { api, type Planet, type Fleet } from '../lib/api';
+import { api, subscribeRealtime, type Planet, type Fleet, type RealtimeEventType } from '../lib/api';
 
 interface WorldMapProps {
   mapImageUrl: string;
@@ -10,6 +10,12 @@ interface WorldMapProps {
   currentUserId?: string;
 }
 
+// Push events that change the fleet list
+const FLEET_EVENTS: RealtimeEventType[] = ['connected', 'fleet_dispatched', 'fleet_arrived', 'fleet_returned', 'fleet_recalled', 'incoming_attack', 'battle_report'];
+
+// Own fleets plus hostile attacks heading for my planets
+type MapFleet = Fleet & { hostile?: boolean };
+
 // Tile configuration
 const TILE_SIZE = 1024; // Size of each tile in world units
 const RENDER_PADDING = 1;
@@ -26,7 +32,7 @@ export default function WorldMap({ mapImageUrl, onPlanetClick, sourcePlanetId, o
   // Storage for fleet animation objects [fleetId -> { sprite, graphics }]
   const fleetObjectsRef = useRef<Map<string, { sprite: PIXI.Sprite, graphics: PIXI.Graphics, label: PIXI.Text }>>(new Map());
   // We keep the latest fleets data in a ref to access it inside the render loop without dependency issues
-  const latestFleetsRef = useRef<Fleet[]>([]);
+  const latestFleetsRef = useRef<MapFleet[]>([]);
 
   const [planets, setPlanets] = useState<Planet[]>([]);
   const [loading, setLoading] = useState(true);
@@ -36,20 +42,32 @@ export default function WorldMap({ mapImageUrl, onPlanetClick, sourcePlanetId, o
   const cameraRef = useRef({ x: 0, y: 0, scale: 1 });
   const lastRenderedTilesRef = useRef<Set<string>>(new Set());
 
-  // Fleet Polling
+  // Fleet updates: refetch whenever the server pushes a fleet event
   useEffect(() => {
     const fetchFleets = async () => {
       try {
-        const data = await api.getFleets();
-        latestFleetsRef.current = data.fleets;
+        const [data, incoming] = await Promise.all([api.getFleets(), api.getIncomingAttacks()]);
+        const hostile: MapFleet[] = incoming.attacks.map(a => ({
+          id: a.id,
+          type: 'attack',
+          fromPlanet: a.fromPlanet,
+          toPlanet: a.toPlanet,
+          units: a.intel.units || {},
+          departAt: a.departAt,
+          arriveAt: a.arriveAt,
+          status: 'enroute',
+          hostile: true,
+        }));
+        latestFleetsRef.current = [...data.fleets, ...hostile];
       } catch (err) {
         console.error('Failed to fetch fleets', err);
       }
     };
 
     fetchFleets();
-    const interval = setInterval(fetchFleets, 2000); // Poll every 2s
-    return () => clearInterval(interval);
+    return subscribeRealtime(event => {
+      if (FLEET_EVENTS.includes(event.type)) fetchFleets();
+    });
   }, []);
 
   useEffect(() => {
@@ -196,10 +214,15 @@ export default function WorldMap({ mapImageUrl, onPlanetClick, sourcePlanetId, o
 
           const castleTexture = await PIXI.Assets.load('/assets/castles/castlesprite.png');
 
+          // Federation of the current player (for ally highlighting)
+          const myFederationId = currentUserId
+            ? pData.planets.find(p => p.ownerId === currentUserId)?.federationId
+            : null;
+
           pData.planets.forEach(p => {
             const s = new PIXI.Sprite(castleTexture);
             s.anchor.set(0.5);
-            s.scale.set(0.15);
+            s.scale.set(p.planetType === 'moon' ? 0.09 : 0.15); // Moon Colonies are smaller outposts
             s.x = p.x;
             s.y = p.y;
             s.eventMode = 'static';
@@ -207,14 +230,31 @@ export default function WorldMap({ mapImageUrl, onPlanetClick, sourcePlanetId, o
             s.on('pointerdown', () => onPlanetClick?.(p));
 
             // Highlighting
-            if (p.isNpc) {
+            if (p.isNpc && p.planetType === 'moon') {
+              s.tint = 0xaaaaaa; // Grey for neutral Moon Colonies
+            } else if (p.isNpc) {
               s.tint = 0xff4444; // Red for Enemies
             } else if (sourcePlanetId === p.id) {
               s.tint = 0x00ff00; // distinct tint for selected source
+            } else if (myFederationId && p.federationId === myFederationId && p.ownerId !== currentUserId) {
+              s.tint = 0x3399ff; // Blue for Federation allies
             }
 
             planetLayer.addChild(s);
             planetSpritesRef.current.set(p.id, s);
+
+            // Federation tag under the planet
+            if (p.federationTag) {
+              const tag = new PIXI.Text({
+                text: `[${p.federationTag}]`, style: {
+                  fontFamily: 'Arial', fontSize: 11, fill: p.federationId === myFederationId ? 0x66bbff : 0xcccccc, stroke: { color: 0x000000, width: 2 }
+                }
+              });
+              tag.anchor.set(0.5, -2.2);
+              tag.x = p.x;
+              tag.y = p.y;
+              planetLayer.addChild(tag);
+            }
           });
           setLoading(false);
         } catch (e) {
@@ -300,16 +340,17 @@ export default function WorldMap({ mapImageUrl, onPlanetClick, sourcePlanetId, o
             // Color coding
             let color = 0xffff00; // Attack (Yellow)
             if (fleet.type === 'support') color = 0x00ff00; // Support (Green)
-            // If we knew "my id", we could color red for incoming attacks. 
-            // TODO: Add logic to check if target is me and type is attack.
+            if (fleet.type === 'trade') color = 0x33aaff; // Trade (Blue)
+            if (fleet.hostile) color = 0xff3333; // Incoming attack (Red)
 
             objects.graphics.moveTo(startX, startY);
             objects.graphics.lineTo(endX, endY);
-            objects.graphics.stroke({ width: 2, color, alpha: 0.5 });
+            objects.graphics.stroke({ width: fleet.hostile ? 3 : 2, color, alpha: fleet.hostile ? 0.8 : 0.5 });
+            if (fleet.hostile) objects.sprite.tint = color;
 
             // Label
             const timeRemaining = Math.max(0, Math.ceil((end - now) / 1000));
-            objects.label.text = `${timeRemaining}s`;
+            objects.label.text = fleet.hostile ? `⚠ ${timeRemaining}s` : `${timeRemaining}s`;
             objects.label.x = currentX;
             objects.label.y = currentY;
           });
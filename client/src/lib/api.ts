@@ -1,5 +1,55 @@
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
+// Building catalog (served by the server, which enforces the same rules)
+export interface BuildingEffects {
+  carbon?: number;
+  titanium?: number;
+  food?: number;
+  population?: number;
+  storage?: number;
+  stability?: number;
+  researchSpeed?: number; // % faster research (Research Tower)
+}
+
+export interface BuildingLevel {
+  playerLevel: number;
+  hubLevel: number;
+  carbon: number;
+  titanium: number;
+  credits: number;
+  time: number; // Seconds
+  effects?: BuildingEffects;
+}
+
+export interface BuildingDefinition {
+  type: string;
+  name: string;
+  category: 'core' | 'production' | 'civil' | 'military' | 'decoration';
+  size: number;
+  limit?: number;
+  buildable: boolean;
+  permanent?: boolean; // Cannot be demolished once built
+  maxLevel: number;
+  levels: BuildingLevel[]; // Index = level - 1
+}
+
+// One contribution to a planet's stability (Public Order); 100 in total is neutral
+// Paid construction/upgrade order; the first `slots` orders are under way (finishTime set)
+export interface ConstructionOrder {
+  buildingId: string;
+  type: string;
+  level: number;
+  cost: { carbon: number; titanium: number; credits: number };
+  duration: number;
+  finishTime: string | null;
+}
+
+export interface StabilitySource {
+  source: 'base' | 'decorations' | 'housing' | 'military' | 'overcrowding' | 'defeats';
+  label: string;
+  value: number;
+}
+
 export interface Planet {
   id: string;
   x: number;
@@ -7,17 +57,30 @@ export interface Planet {
   name: string;
   ownerId: string;
   ownerName: string;
+  federationId?: string | null;
+  federationTag?: string | null;
+  planetType?: 'colony' | 'moon';
+  gridSize?: number;
+  gridExpansion?: { expansion: number; playerLevel: number; carbon: number; titanium: number } | null; // Next one, null when maxed
   units?: Record<string, number>;
   resources?: { carbon: number; titanium: number; food: number; credits: number };
+  population?: number;
+  stability?: number;
+  stabilitySources?: StabilitySource[];
   production?: { carbon: number; titanium: number; food: number };
+  productionRates?: { carbon: number; titanium: number; food: number; credits: number }; // Net per hour
+  storage?: { capacity: number; protected: number }; // Per resource (carbon, titanium, food, credits)
   buildings?: { id: string; type: string; level: number; x: number; y: number; status: string }[];
-  construction?: { isBuilding: boolean; activeBuildId: string | null; buildFinishTime: string | null };
+  construction?: { slots: number; nextSlotCost: number | null; queue: ConstructionOrder[] }; // nextSlotCost in Dark Matter, null when maxed
   recruitmentQueue?: any[];
   manufacturingQueue?: any[];
   tools?: { toolType: string; count: number }[];
   defense?: { defensiveGrid: number; perimeterField: number; starport: number };
+  spies?: { count: number; capacity: number };
   isNpc?: boolean;
   npcLevel?: number;
+  npcVariant?: number; // Layout variation at this level (e.g. 10.3)
+  npcAttacks?: { defeats: number; toBeat: number } | null; // Pirate bases relocate and level up once beaten toBeat times
   createdAt: string;
 }
 
@@ -26,23 +89,340 @@ export interface WorldPlanetsResponse {
   count: number;
 }
 
+export interface TradeCargo {
+  carbon: number;
+  titanium: number;
+  food: number;
+  credits: number;
+}
+
 export interface Fleet {
   id: string;
-  type: 'attack' | 'support' | 'scout';
+  type: 'attack' | 'support' | 'scout' | 'trade';
   fromPlanet: { id: string; x: number; y: number; name: string };
   toPlanet: { id: string; x: number; y: number; name: string };
   units: Record<string, number>;
+  cargo?: TradeCargo | null;
   departAt: string;
   arriveAt: string;
   status: string;
   distance?: number;
   travelTimeSeconds?: number;
+  recallableUntil?: string | null; // Point of no return for en-route fleets
+}
+
+export interface EspionageReportSummary {
+  id: string;
+  fleetId: string;
+  isAttacker: boolean;
+  success: boolean;
+  attackerPlanet: { id: string; name: string; x: number; y: number };
+  targetPlanet: { id: string; name: string; x: number; y: number };
+  spiesSent: number;
+  spiesLost: number;
+  createdAt: string;
+}
+
+export interface IntelLane {
+  units: Record<string, number>;
+  tools: { type: string; count: number }[];
+}
+
+export interface IntelSnapshot {
+  lanes: { front: IntelLane; left: IntelLane; right: IntelLane };
+  units: Record<string, number>;
+  tools: Record<string, number>;
+  resources: { carbon: number; titanium: number; food: number; credits: number };
+  defense: { defensiveGrid: number; perimeterField: number; starport: number };
+}
+
+export interface EspionageReport extends EspionageReportSummary {
+  successChance: number | null;
+  intel: IntelSnapshot | null;
+}
+
+export interface DeliveryReceipt {
+  id: string;
+  fleetId: string;
+  isSender: boolean;
+  fromPlanet: { id: string; name: string; x: number; y: number };
+  toPlanet: { id: string; name: string; x: number; y: number };
+  cargo: TradeCargo;
+  delivered: TradeCargo;
+  createdAt: string;
+}
+
+export interface LevelUpReport {
+  id: string;
+  level: number;
+  unlocks: string[]; // e.g. "Storehouse 2", "Sentinel", "Grid expansion 4"
+  darkMatter: number;
+  createdAt: string;
+}
+
+// Research Tower technology; effects are percentages per level
+export interface Technology {
+  id: string;
+  name: string;
+  branch: 'military' | 'economy';
+  description: string;
+  maxLevel: number;
+  towerLevel: number;
+  requires?: Record<string, number>;
+  level: number;
+  next: { carbon: number; titanium: number; credits: number; time: number } | null; // null at max level
+  locked: string | null; // Why the next level cannot be researched yet
+}
+
+export interface ActiveResearch {
+  techId: string;
+  level: number;
+  planetId: string;
+  cost: { carbon: number; titanium: number; credits: number };
+  finishTime: string;
+}
+
+export interface ResearchOverview {
+  towerLevel: number;
+  researchSpeed: number;
+  active: ActiveResearch | null;
+  technologies: Technology[];
+}
+
+export interface InvasionStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  level: number;
+  points: number;
+  defenses: number;
+  wavesFaced: number;
+}
+
+export interface InvasionEventSummary {
+  id: string;
+  status: 'scheduled' | 'active' | 'ended';
+  startsAt: string;
+  endsAt: string;
+  wavesLaunched: number;
+  myScore: { points: number; defenses: number; wavesFaced: number; rank: number | null };
+  leaderboard: InvasionStanding[];
+}
+
+export interface InvasionOverview {
+  event: InvasionEventSummary | null; // Running or next event
+  previous: InvasionEventSummary | null; // Last finished event
+}
+
+export type FederationRank = 'leader' | 'officer' | 'member';
+
+export interface FederationSummary {
+  id: string;
+  name: string;
+  tag: string;
+  description?: string | null;
+  memberCount?: number;
+}
+
+export interface FederationMember {
+  userId: string;
+  username: string;
+  level: number;
+  rank: FederationRank;
+  joinedAt: string;
+}
+
+export interface FederationInvite {
+  id: string;
+  federation: { id: string; name: string; tag: string };
+  createdAt: string;
+}
+
+export interface FederationRequest {
+  id: string;
+  type: 'invite' | 'application';
+  user: { id: string; username: string };
+  createdAt: string;
+}
+
+export interface MyFederationResponse {
+  federation: FederationSummary | null;
+  myRank?: FederationRank;
+  members?: FederationMember[];
+  requests?: FederationRequest[];
+  invites: FederationInvite[];
+}
+
+export interface FederationIncomingAttack {
+  id: string;
+  attacker: { id: string; username: string };
+  fromPlanet: { id: string; x: number; y: number; name: string };
+  toPlanet: { id: string; x: number; y: number; name: string; ownerId: string; ownerName: string };
+  departAt: string;
+  arriveAt: string;
+}
+
+export type GearSlot = 'helmet' | 'armor' | 'weapon' | 'insignia';
+export type GearStats = Partial<Record<'attack' | 'defense' | 'frontAttack' | 'flankAttack' | 'frontDefense' | 'flankDefense', number>>;
+
+export interface GearPiece {
+  id: string;
+  slot: GearSlot;
+  rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+  name: string;
+  stats: GearStats;
+  sourceLevel?: number;
+}
+
+export interface AdmiralResponse {
+  attackBonus: number;
+  defenseBonus: number;
+  laneBonuses: Record<'left' | 'front' | 'right', { attack: number; defense: number }>;
+  slots: GearSlot[];
+  equipped: Partial<Record<GearSlot, GearPiece>>;
+  inventory: GearPiece[];
+}
+
+const GEAR_STAT_LABELS: Record<string, string> = {
+  attack: 'ATK',
+  defense: 'DEF',
+  frontAttack: 'Starport ATK',
+  flankAttack: 'Flank ATK',
+  frontDefense: 'Starport DEF',
+  flankDefense: 'Flank DEF',
+};
+
+// "+5% ATK, +3% Flank DEF"
+// --- Travel time preview (mirrors fleetService on the server exactly) ---
+
+const BASE_FLEET_SPEED = 50; // pixels per second
+const MIN_TRAVEL_TIME = 5; // minimum seconds
+const HANGAR_BAY_SPEED_PER_LEVEL = 10; // % per level
+
+export const UNIT_SPEEDS: Record<string, number> = {
+  marine: 50,
+  ranger: 50,
+  sentinel: 35,
+  interceptor: 90,
+  spy: 80,
+};
+
+// Seconds a fleet of these units needs from one planet to another (slowest unit + origin Hangar Bays)
+export function estimateTravelTime(from: Planet, to: Planet, units: Record<string, number>): number {
+  const distance = Math.sqrt(Math.pow(to.x - from.x, 2) + Math.pow(to.y - from.y, 2));
+
+  const speeds = Object.entries(units)
+    .filter(([, count]) => count > 0)
+    .map(([unitType]) => UNIT_SPEEDS[unitType] ?? BASE_FLEET_SPEED);
+  const speed = speeds.length > 0 ? Math.min(...speeds) : BASE_FLEET_SPEED;
+
+  const hangarLevels = (from.buildings || [])
+    .filter(b => b.type === 'hangar_bay' && (b.status === 'active' || b.status === 'upgrading'))
+    .reduce((sum, b) => sum + b.level, 0);
+  const speedBonusPct = hangarLevels * HANGAR_BAY_SPEED_PER_LEVEL;
+
+  const timeInSeconds = distance / (speed * (1 + speedBonusPct / 100));
+  return Math.max(MIN_TRAVEL_TIME, Math.ceil(timeInSeconds));
+}
+
+export function formatTravelTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+// Dark Matter price of finishing a timer now (mirrors the server: 1 per started minute left)
+export function darkMatterSpeedupCost(finishTime: string): number {
+  const secondsLeft = (new Date(finishTime).getTime() - Date.now()) / 1000;
+  return Math.max(1, Math.ceil(secondsLeft / 60));
+}
+
+export function formatGearStats(stats: GearStats): string {
+  return Object.entries(stats)
+    .map(([stat, value]) => `+${value}% ${GEAR_STAT_LABELS[stat] || stat}`)
+    .join(', ');
+}
+
+export interface SimulatedSector {
+  winner: 'attacker' | 'defender';
+  initialAttackerUnits: Record<string, number>;
+  initialDefenderUnits: Record<string, number>;
+  attackerLosses: Record<string, number>;
+  defenderLosses: Record<string, number>;
+  wavesFought: number;
+}
+
+export interface CombatSimulation {
+  winner: 'attacker' | 'defender';
+  sectors: { left: SimulatedSector; center: SimulatedSector; right: SimulatedSector };
+  surface: {
+    winner: 'attacker' | 'defender';
+    attackerBonus: number;
+    defenderBonus: number;
+    initialDefenderUnits: Record<string, number>;
+    attackerLosses: Record<string, number>;
+    defenderLosses: Record<string, number>;
+  } | null;
+  attackerTotalLosses: Record<string, number>;
+  defenderTotalLosses: Record<string, number>;
+  expectedLoot: { carbon: number; titanium: number; food: number; credits: number };
+  dropChances: { gear: number; darkMatter: number } | null; // Pirate base victories: odds of each drop (0-1)
+  admiralLed: boolean; // Whether the Admiral's bonuses were applied (it has a free slot)
+  source: 'intel' | 'supplied';
+  intelReport: { id: string; createdAt: string } | null;
 }
 
 export interface FleetsResponse {
   fleets: Fleet[];
 }
 
+// Hostile attack heading for one of my planets. Detail depends on the target's Intelligence Hub level.
+export interface IncomingAttack {
+  id: string;
+  attacker: { id: string; username: string };
+  fromPlanet: { id: string; x: number; y: number; name: string };
+  toPlanet: { id: string; x: number; y: number; name: string };
+  departAt: string;
+  arriveAt: string;
+  hubLevel: number;
+  intel: {
+    visibility: 'estimate' | 'exact';
+    estimatedSize?: { min: number; max: number };
+    units?: Record<string, number>;
+  };
+}
+
+// Naval Academy slots: concurrent attacks, and how many of them the Admiral can lead
+export interface AttackSlots {
+  academyLevel: number;
+  attackSlots: number;
+  attacksUsed: number;
+  admiralSlots: number;
+  admiralsUsed: number;
+}
+
+export interface StationedTroops {
+  id: string;
+  owner: { id: string; username: string };
+  hostPlanet: { id: string; x: number; y: number; name: string };
+  originPlanet: { id: string; x: number; y: number; name: string };
+  units: Record<string, number>;
+  stationedAt: string;
+}
+
+export interface StationedTroopsResponse {
+  abroad: StationedTroops[];
+  hosted: StationedTroops[];
+}
+
+export interface StationedLoss {
+  stationedTroopId: string;
+  ownerId: string;
+  ownerName: string;
+  units: Record<string, number>;
+  losses: Record<string, number>;
+}
+
 let authToken: string | null = null;
 
 export const setAuthToken = (token: string) => {
@@ -78,6 +458,89 @@ export const getCurrentUser = (): { userId: string; username: string } | null =>
   }
 };
 
+// --- Real-time push channel ---
+
+export type RealtimeEventType =
+  | 'connected' // Client-side: (re)connected, refetch anything that may have been missed
+  | 'fleet_dispatched'
+  | 'fleet_arrived'
+  | 'fleet_returned'
+  | 'fleet_recalled'
+  | 'incoming_attack'
+  | 'battle_report'
+  | 'spies_captured'
+  | 'construction_finished'
+  | 'building_demolished'
+  | 'level_up'
+  | 'dark_matter_changed'
+  | 'research_complete'
+  | 'invasion_points'
+  | 'queue_completed';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: Record<string, unknown>;
+}
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+const REALTIME_RECONNECT_DELAY = 3000;
+const realtimeListeners = new Set<RealtimeListener>();
+let realtimeSocket: WebSocket | null = null;
+let realtimeReconnect: ReturnType<typeof setTimeout> | null = null;
+
+const getRealtimeUrl = () => {
+  const url = new URL(API_BASE_URL, window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/ws`;
+  url.searchParams.set('token', getAuthToken() || '');
+  return url.toString();
+};
+
+const emitRealtime = (event: RealtimeEvent) => {
+  realtimeListeners.forEach(listener => listener(event));
+};
+
+const connectRealtime = () => {
+  if (realtimeSocket || realtimeListeners.size === 0 || !getAuthToken()) return;
+
+  const ws = new WebSocket(getRealtimeUrl());
+  realtimeSocket = ws;
+
+  ws.onopen = () => emitRealtime({ type: 'connected', data: {} });
+  ws.onmessage = (message) => {
+    try {
+      emitRealtime(JSON.parse(message.data));
+    } catch (e) {
+      console.error('Invalid realtime message', e);
+    }
+  };
+  ws.onclose = () => {
+    if (realtimeSocket === ws) realtimeSocket = null;
+    // Keep reconnecting while anyone is listening
+    if (realtimeListeners.size > 0 && !realtimeReconnect) {
+      realtimeReconnect = setTimeout(() => {
+        realtimeReconnect = null;
+        connectRealtime();
+      }, REALTIME_RECONNECT_DELAY);
+    }
+  };
+};
+
+// Subscribe to server push events (fleets, attacks, reports, queues). Returns the unsubscribe function.
+export const subscribeRealtime = (listener: RealtimeListener) => {
+  realtimeListeners.add(listener);
+  connectRealtime();
+
+  return () => {
+    realtimeListeners.delete(listener);
+    if (realtimeListeners.size === 0 && realtimeSocket) {
+      realtimeSocket.close();
+      realtimeSocket = null;
+    }
+  };
+};
+
 export const api = {
   async getPlanets(): Promise<WorldPlanetsResponse> {
     const response = await fetch(`${API_BASE_URL}/world/planets`);
@@ -105,6 +568,89 @@ export const api = {
     return response.json();
   },
 
+  async getEspionageReports(): Promise<{ reports: EspionageReportSummary[] }> {
+    const response = await fetch(`${API_BASE_URL}/reports/espionage`, {
+      method: 'GET',
+      headers: getHeaders(true),
+    });
+    if (!response.ok) throw new Error('Failed to fetch espionage reports');
+    return response.json();
+  },
+
+  async getEspionageReport(id: string): Promise<EspionageReport> {
+    const response = await fetch(`${API_BASE_URL}/reports/espionage/${id}`, {
+      method: 'GET',
+      headers: getHeaders(true),
+    });
+    if (!response.ok) throw new Error('Failed to fetch espionage report');
+    return response.json();
+  },
+
+  async getDeliveryReceipts(): Promise<{ receipts: DeliveryReceipt[] }> {
+    const response = await fetch(`${API_BASE_URL}/reports/deliveries`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch delivery receipts');
+    }
+    return response.json();
+  },
+
+  async getLevelUpReports(): Promise<{ reports: LevelUpReport[] }> {
+    const response = await fetch(`${API_BASE_URL}/reports/level-ups`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch level-up reports');
+    }
+    return response.json();
+  },
+
+  async getResearch(): Promise<ResearchOverview> {
+    const response = await fetch(`${API_BASE_URL}/research`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch research');
+    }
+    return response.json();
+  },
+
+  async getInvasion(): Promise<InvasionOverview> {
+    const response = await fetch(`${API_BASE_URL}/invasion`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch invasion');
+    }
+    return response.json();
+  },
+
+  async startResearch(planetId: string, techId: string): Promise<{ active: ActiveResearch }> {
+    const response = await fetch(`${API_BASE_URL}/research/start`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId, techId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Research failed');
+    }
+    return response.json();
+  },
+
+  async cancelResearch(): Promise<{ techId: string; level: number; refund: { carbon: number; titanium: number; credits: number } }> {
+    const response = await fetch(`${API_BASE_URL}/research/cancel`, {
+      method: 'POST',
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Cancel failed');
+    }
+    return response.json();
+  },
+
   async getPlanet(id: string): Promise<Planet> {
     const response = await fetch(`${API_BASE_URL}/world/planet/${id}`);
     if (!response.ok) {
@@ -113,6 +659,14 @@ export const api = {
     return response.json();
   },
 
+  async getBuildingCatalog(): Promise<{ buildings: BuildingDefinition[] }> {
+    const response = await fetch(`${API_BASE_URL}/world/buildings`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch building catalog');
+    }
+    return response.json();
+  },
+
   async register(username: string, email: string, password: string) {
     const response = await fetch(`${API_BASE_URL}/auth/register`, {
       method: 'POST',
@@ -150,14 +704,16 @@ export const api = {
   async createFleet(
     fromPlanetId: string,
     toPlanetId: string,
-    type: 'attack' | 'support' | 'scout',
+    type: 'attack' | 'support' | 'scout' | 'trade',
     units: Record<string, number>,
-    laneAssignments?: any
+    laneAssignments?: any,
+    spies?: number,
+    cargo?: Partial<TradeCargo>
   ): Promise<{ message: string; fleet: Fleet }> {
     const response = await fetch(`${API_BASE_URL}/actions/fleet`, {
       method: 'POST',
       headers: getHeaders(true),
-      body: JSON.stringify({ fromPlanetId, toPlanetId, type, units, laneAssignments }),
+      body: JSON.stringify({ fromPlanetId, toPlanetId, type, units, laneAssignments, spies, cargo }),
     });
     if (!response.ok) {
       const error = await response.json();
@@ -192,6 +748,97 @@ export const api = {
     return response.json();
   },
 
+  async moveBuilding(planetId: string, buildingId: string, x: number, y: number) {
+    const response = await fetch(`${API_BASE_URL}/actions/buildings/move`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId, buildingId, x, y }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Move failed');
+    }
+    return response.json();
+  },
+
+  async demolishBuilding(planetId: string, buildingId: string) {
+    const response = await fetch(`${API_BASE_URL}/actions/buildings/demolish`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId, buildingId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Demolition failed');
+    }
+    return response.json();
+  },
+
+  async expandGrid(planetId: string): Promise<{ gridSize: number }> {
+    const response = await fetch(`${API_BASE_URL}/actions/expand-grid`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Expansion failed');
+    }
+    return response.json();
+  },
+
+  async cancelConstruction(planetId: string, buildingId: string): Promise<{ queue: ConstructionOrder[]; refund: { carbon: number; titanium: number; credits: number } }> {
+    const response = await fetch(`${API_BASE_URL}/actions/construction/cancel`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId, buildingId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Cancel failed');
+    }
+    return response.json();
+  },
+
+  async speedup(planetId: string, target: 'construction' | 'recruitment' | 'manufacturing', buildingId?: string): Promise<{ cost: number; balance: number }> {
+    const response = await fetch(`${API_BASE_URL}/dark-matter/speedup`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId, target, buildingId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Speedup failed');
+    }
+    return response.json();
+  },
+
+  async buyBuildSlot(planetId: string): Promise<{ cost: number; balance: number; buildSlots: number }> {
+    const response = await fetch(`${API_BASE_URL}/dark-matter/build-slot`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Purchase failed');
+    }
+    return response.json();
+  },
+
+  async reorderConstruction(planetId: string, buildingId: string, position: number): Promise<{ queue: ConstructionOrder[] }> {
+    const response = await fetch(`${API_BASE_URL}/actions/construction/reorder`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId, buildingId, position }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Reorder failed');
+    }
+    return response.json();
+  },
+
   async recruit(planetId: string, unitType: string, count: number) {
     const response = await fetch(`${API_BASE_URL}/actions/recruit`, {
       method: 'POST',
@@ -205,6 +852,19 @@ export const api = {
     return response.json();
   },
 
+  async trainSpies(planetId: string, count: number) {
+    const response = await fetch(`${API_BASE_URL}/actions/spies`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ planetId, count }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Agent training failed');
+    }
+    return response.json();
+  },
+
   async manufacture(planetId: string, toolType: string, count: number) {
     const response = await fetch(`${API_BASE_URL}/actions/manufacture`, {
       method: 'POST',
@@ -228,6 +888,60 @@ export const api = {
     return response.json();
   },
 
+  async recallFleet(fleetId: string): Promise<{ message: string; fleet: Fleet }> {
+    const response = await fetch(`${API_BASE_URL}/actions/fleets/${fleetId}/recall`, {
+      method: 'POST',
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Recall failed');
+    }
+    return response.json();
+  },
+
+  async getAttackSlots(): Promise<AttackSlots> {
+    const response = await fetch(`${API_BASE_URL}/actions/attack-slots`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch attack slots');
+    }
+    return response.json();
+  },
+
+  async getIncomingAttacks(): Promise<{ attacks: IncomingAttack[] }> {
+    const response = await fetch(`${API_BASE_URL}/actions/fleets/incoming`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch incoming attacks');
+    }
+    return response.json();
+  },
+
+  async getStationedTroops(): Promise<StationedTroopsResponse> {
+    const response = await fetch(`${API_BASE_URL}/actions/stationed`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch stationed troops');
+    }
+    return response.json();
+  },
+
+  async recallTroops(stationedId: string): Promise<{ message: string; fleet: Fleet }> {
+    const response = await fetch(`${API_BASE_URL}/actions/stationed/${stationedId}/recall`, {
+      method: 'POST',
+      headers: getHeaders(true),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Recall failed');
+    }
+    return response.json();
+  },
+
   async getDefenseProfile(planetId: string) {
     const response = await fetch(`${API_BASE_URL}/defense/planets/${planetId}/defense-profile`, {
       headers: getHeaders(true),
@@ -236,7 +950,7 @@ export const api = {
     return response.json();
   },
 
-  async updateDefenseLayout(planetId: string, layout: { front: any, left: any, right: any }) {
+  async updateDefenseLayout(planetId: string, layout: { front: any, left: any, right: any, courtyard?: Record<string, number> }) {
     const response = await fetch(`${API_BASE_URL}/defense/planets/${planetId}/defense-layout`, {
       method: 'POST',
       headers: getHeaders(true),
@@ -248,6 +962,113 @@ export const api = {
     }
     return response.json();
   },
+  async getFederations(): Promise<{ federations: FederationSummary[] }> {
+    const response = await fetch(`${API_BASE_URL}/federations`, {
+      headers: getHeaders(),
+    });
+    if (!response.ok) throw new Error('Failed to fetch federations');
+    return response.json();
+  },
+
+  async getMyFederation(): Promise<MyFederationResponse> {
+    const response = await fetch(`${API_BASE_URL}/federations/me`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) throw new Error('Failed to fetch federation');
+    return response.json();
+  },
+
+  async getFederationIncoming(): Promise<{ attacks: FederationIncomingAttack[] }> {
+    const response = await fetch(`${API_BASE_URL}/federations/me/incoming`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) throw new Error('Failed to fetch federation alerts');
+    return response.json();
+  },
+
+  async federationAction(path: string, body?: Record<string, unknown>) {
+    const response = await fetch(`${API_BASE_URL}/federations${path}`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify(body || {}),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Federation action failed');
+    }
+    return response.json();
+  },
+
+  async createFederation(name: string, tag: string, description?: string) {
+    return api.federationAction('', { name, tag, description });
+  },
+
+  async inviteToFederation(federationId: string, username: string) {
+    return api.federationAction(`/${federationId}/invite`, { username });
+  },
+
+  async applyToFederation(federationId: string) {
+    return api.federationAction(`/${federationId}/apply`);
+  },
+
+  async respondToFederationRequest(requestId: string, decision: 'accept' | 'decline') {
+    return api.federationAction(`/requests/${requestId}/${decision}`);
+  },
+
+  async kickFromFederation(federationId: string, userId: string) {
+    return api.federationAction(`/${federationId}/kick`, { userId });
+  },
+
+  async setFederationRank(federationId: string, userId: string, rank: FederationRank) {
+    return api.federationAction(`/${federationId}/promote`, { userId, rank });
+  },
+
+  async leaveFederation() {
+    return api.federationAction('/leave');
+  },
+
+  async simulateAttack(targetPlanetId: string, lanes: Record<string, unknown>, defense?: Record<string, unknown>): Promise<CombatSimulation> {
+    const response = await fetch(`${API_BASE_URL}/combat/simulate`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify({ targetPlanetId, lanes, defense }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Simulation failed');
+    }
+    return response.json();
+  },
+
+  async getAdmiral(): Promise<AdmiralResponse> {
+    const response = await fetch(`${API_BASE_URL}/admiral`, {
+      headers: getHeaders(true),
+    });
+    if (!response.ok) throw new Error('Failed to fetch admiral');
+    return response.json();
+  },
+
+  async admiralAction(path: string, body: Record<string, unknown>): Promise<AdmiralResponse> {
+    const response = await fetch(`${API_BASE_URL}/admiral${path}`, {
+      method: 'POST',
+      headers: getHeaders(true),
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Admiral action failed');
+    }
+    return response.json();
+  },
+
+  async equipGear(gearId: string) {
+    return api.admiralAction('/equip', { gearId });
+  },
+
+  async unequipGear(slot: GearSlot) {
+    return api.admiralAction('/unequip', { slot });
+  },
+
   async getMe() {
     const response = await fetch(`${API_BASE_URL}/auth/me`, {
       method: 'GET',
@@ -11,6 +11,7 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:3000',
         changeOrigin: true,
+        ws: true, // Realtime push channel (/api/ws)
         rewrite: (path) => path.replace(/^\/api/, ''),
       },
     },
@@ -6,7 +6,14 @@ import worldRoutes from './routes/world';
 import actionsRoutes from './routes/actions';
 import defenseRoutes from './routes/defense';
 import reportsRoutes from './routes/reports';
+import federationRoutes from './routes/federations';
+import admiralRoutes from './routes/admiral';
+import combatRoutes from './routes/combat';
+import darkMatterRoutes from './routes/darkMatter';
+import researchRoutes from './routes/research';
+import invasionRoutes from './routes/invasion';
 import { startTimerWorker } from './services/timerWorker';
+import { attachRealtimeServer } from './services/realtimeService';
 
 dotenv.config();
 
@@ -27,8 +34,14 @@ app.use('/world', worldRoutes);
 app.use('/actions', actionsRoutes);
 app.use('/defense', defenseRoutes);
 app.use('/reports', reportsRoutes);
+app.use('/federations', federationRoutes);
+app.use('/admiral', admiralRoutes);
+app.use('/combat', combatRoutes);
+app.use('/dark-matter', darkMatterRoutes);
+app.use('/research', researchRoutes);
+app.use('/invasion', invasionRoutes);
 
-app.listen(PORT, '0.0.0.0', () => {
+const server = app.listen(PORT, '0.0.0.0', () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`🌐 External access: http://0.0.0.0:${PORT}`);
@@ -37,3 +50,6 @@ app.listen(PORT, '0.0.0.0', () => {
   startTimerWorker();
 });
 
+// WebSocket push channel (fleets, attacks, reports, queues)
+attachRealtimeServer(server);
+
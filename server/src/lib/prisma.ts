@@ -1,9 +1,68 @@
-import { PrismaClient } from '@prisma/client';
+import { AsyncLocalStorage } from 'async_hooks';
+import { PrismaClient, Prisma } from '@prisma/client';
 
-const prisma = new PrismaClient({
+const baseClient = new PrismaClient({
   log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
 });
 
-export default prisma;
+// Interactive transaction bound to the current async call chain (see runInTransaction)
+interface TxContext {
+  tx: Prisma.TransactionClient;
+  afterCommit: (() => void)[];
+}
+const txStorage = new AsyncLocalStorage<TxContext>();
+
+/**
+ * Run fn inside a single database transaction. Every `prisma` call made while it runs,
+ * including calls inside other services, joins that transaction, so either all of the
+ * writes commit or none do. Nested calls reuse the outer transaction.
+ */
+export async function runInTransaction<T>(fn: () => Promise<T>, timeoutMs = 15000): Promise<T> {
+  if (txStorage.getStore()) return fn();
+
+  const afterCommit: (() => void)[] = [];
+  const result = await baseClient.$transaction(
+    tx => txStorage.run({ tx, afterCommit }, fn),
+    { timeout: timeoutMs, maxWait: 5000 }
+  );
+  afterCommit.forEach(cb => cb());
+  return result;
+}
+
+/**
+ * Run cb once the current transaction commits (right away outside of one).
+ * Callbacks of a rolled-back transaction are dropped.
+ */
+export function onCommit(cb: () => void) {
+  const ctx = txStorage.getStore();
+  if (ctx) ctx.afterCommit.push(cb);
+  else cb();
+}
 
+// Nested $transaction while a transaction is active: callbacks get the active client,
+// batches run in order on it
+async function nestedTransaction(tx: Prisma.TransactionClient, arg: unknown) {
+  if (typeof arg === 'function') return arg(tx);
+  const results: unknown[] = [];
+  for (const op of arg as Promise<unknown>[]) {
+    results.push(await op);
+  }
+  return results;
+}
 
+const prisma = new Proxy(baseClient, {
+  get(target, prop) {
+    const tx = txStorage.getStore()?.tx;
+    if (tx) {
+      if (prop === '$transaction') return (arg: unknown) => nestedTransaction(tx, arg);
+      if (prop in tx) {
+        const value = Reflect.get(tx, prop);
+        return typeof value === 'function' ? value.bind(tx) : value;
+      }
+    }
+    const value = Reflect.get(target, prop);
+    return typeof value === 'function' ? value.bind(target) : value;
+  },
+});
+
+export default prisma;
@@ -1,24 +1,54 @@
 import { Router, Request, Response } from 'express';
-import prisma from '../lib/prisma';
+import prisma, { runInTransaction } from '../lib/prisma';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import {
   calculateDistance,
   calculateTravelTime,
+  getFleetSpeed,
+  getHangarSpeedBonus,
   validatePlanetOwnership,
   validateUnitsAvailable,
   deductUnits,
+  validateSpiesAvailable,
+  deductSpies,
+  recallFleet,
+  getRecallDeadline,
 } from '../services/fleetService';
-import { placeBuilding, recruitUnit, spawnPlanet } from '../services/planetService';
+import {
+  placeBuilding,
+  moveBuilding,
+  demolishBuilding,
+  expandGrid,
+  recruitUnit,
+  spawnPlanet,
+} from '../services/planetService';
+import { trainSpies, getIncomingAttacks } from '../services/espionageService';
+import { recallStationedTroops, canSupportPlanet } from '../services/supportService';
+import { scheduleJob } from '../services/jobScheduler';
+import { pushToUser, pushToUsers } from '../services/realtimeService';
+import { normalizeCargo, loadTradeCargo, canTradeWith } from '../services/tradeService';
+import { areFederationMates } from '../services/federationService';
+import { getAttackSlots } from '../services/admiralService';
+import { cancelConstruction, reorderConstruction } from '../services/constructionService';
 
 const router = Router();
 
 interface FleetBody {
   fromPlanetId: string;
   toPlanetId: string;
-  type: 'attack' | 'support' | 'scout';
+  type: 'attack' | 'support' | 'scout' | 'trade';
   units: {
     [unitType: string]: number;
   };
+  // For scouts: number of agents sent from the Intelligence Hub
+  spies?: number;
+  // For trade: resources to deliver (limited by unit capacity)
+  cargo?: {
+    carbon?: number;
+    titanium?: number;
+    food?: number;
+    credits?: number;
+  };
   // For attacks: lane assignments (3 lanes)
   laneAssignments?: {
     front?: { [unitType: string]: number };
@@ -37,10 +67,11 @@ interface FleetBody {
 router.post('/fleet', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId!;
-    const { fromPlanetId, toPlanetId, type, units }: FleetBody = req.body;
+    const { fromPlanetId, toPlanetId, type, spies }: FleetBody = req.body;
+    let { units }: FleetBody = req.body;
 
     // Validation
-    if (!fromPlanetId || !toPlanetId || !type || !units) {
+    if (!fromPlanetId || !toPlanetId || !type || (!units && type !== 'scout')) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
@@ -48,10 +79,18 @@ router.post('/fleet', authenticateToken, async (req: AuthRequest, res: Response)
       return res.status(400).json({ error: 'Cannot send fleet to the same planet' });
     }
 
-    if (!['attack', 'support', 'scout'].includes(type)) {
+    if (!['attack', 'support', 'scout', 'trade'].includes(type)) {
       return res.status(400).json({ error: 'Invalid fleet type' });
     }
 
+    // Scout missions carry agents instead of troops
+    if (type === 'scout') {
+      if (spies === undefined || !Number.isInteger(spies) || spies <= 0) {
+        return res.status(400).json({ error: 'Must send at least one spy' });
+      }
+      units = { spy: spies };
+    }
+
     // Validate at least one unit
     const totalUnits = Object.values(units).reduce((sum, count) => sum + count, 0);
     if (totalUnits === 0) {
@@ -64,10 +103,17 @@ router.post('/fleet', authenticateToken, async (req: AuthRequest, res: Response)
       return res.status(403).json({ error: 'You do not own this planet' });
     }
 
-    // Validate units are available
-    const unitsAvailable = await validateUnitsAvailable(fromPlanetId, units);
-    if (!unitsAvailable) {
-      return res.status(400).json({ error: 'Insufficient units at planet' });
+    // Validate units (or agents) are available
+    if (type === 'scout') {
+      const spiesAvailable = await validateSpiesAvailable(fromPlanetId, spies!);
+      if (!spiesAvailable) {
+        return res.status(400).json({ error: 'Insufficient spies at planet' });
+      }
+    } else {
+      const unitsAvailable = await validateUnitsAvailable(fromPlanetId, units);
+      if (!unitsAvailable) {
+        return res.status(400).json({ error: 'Insufficient units at planet' });
+      }
     }
 
     // --- TOOL VALIDATION (Attack Only) ---
@@ -108,6 +154,7 @@ router.post('/fleet', authenticateToken, async (req: AuthRequest, res: Response)
     // Get planet positions
     const fromPlanet = await prisma.planet.findUnique({
       where: { id: fromPlanetId },
+      include: { buildings: true },
     });
     const toPlanet = await prisma.planet.findUnique({
       where: { id: toPlanetId },
@@ -117,45 +164,118 @@ router.post('/fleet', authenticateToken, async (req: AuthRequest, res: Response)
       return res.status(404).json({ error: 'Planet not found' });
     }
 
+    if (type === 'attack' && await areFederationMates(userId, toPlanet.ownerId)) {
+      return res.status(400).json({ error: 'Cannot attack a federation member' });
+    }
+
+    if (type === 'support' && toPlanet.isNpc) {
+      return res.status(400).json({ error: 'Cannot station troops at a pirate base' });
+    }
+
+    if (type === 'support' && !await canSupportPlanet(userId, toPlanet.ownerId)) {
+      return res.status(400).json({ error: 'Can only support your own planets or federation members' });
+    }
+
+    if (type === 'trade' && toPlanet.isNpc) {
+      return res.status(400).json({ error: 'Cannot trade with a pirate base' });
+    }
+
+    if (type === 'trade' && !await canTradeWith(userId, toPlanet.ownerId)) {
+      return res.status(400).json({ error: 'Can only trade with your own planets or federation members' });
+    }
+
+    const cargo = type === 'trade' ? normalizeCargo(req.body.cargo) : null;
+
     // Calculate distance and travel time
     const distance = calculateDistance(fromPlanet.x, fromPlanet.y, toPlanet.x, toPlanet.y);
-    const travelTimeSeconds = calculateTravelTime(distance);
+    const travelTimeSeconds = calculateTravelTime(distance, getFleetSpeed(units), getHangarSpeedBonus(fromPlanet.buildings));
     const departAt = new Date();
     const arriveAt = new Date(departAt.getTime() + travelTimeSeconds * 1000);
 
-    // Deduct units from origin planet
-    await deductUnits(fromPlanetId, units);
+    // Deductions and the fleet are written together, so a failure leaves the origin planet untouched
+    let fleet;
+    try {
+      fleet = await runInTransaction(async () => {
+        // Naval Academy limits concurrent attacks; the Admiral leads as many as it has slots for.
+        // The player row is locked so simultaneous launches count each other.
+        let admiralLed = false;
+        if (type === 'attack') {
+          await prisma.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+          const slots = await getAttackSlots(userId);
+          if (slots.attacksUsed >= slots.attackSlots) {
+            throw new Error(`All attack slots in use (${slots.attacksUsed}/${slots.attackSlots}). Upgrade the Naval Academy for more.`);
+          }
+          admiralLed = slots.admiralsUsed < slots.admiralSlots;
+        }
 
-    // Deduct tools from origin planet
-    if (Object.keys(allTools).length > 0) {
-      await import('../services/fleetService').then(m => m.deductTools(fromPlanetId, allTools));
+        // Load trade goods (deducted from origin at departure)
+        if (cargo) {
+          await loadTradeCargo(fromPlanetId, units, cargo);
+        }
+
+        // Deduct units (or agents) from origin planet
+        if (type === 'scout') {
+          await deductSpies(fromPlanetId, spies!);
+        } else {
+          await deductUnits(fromPlanetId, units);
+        }
+
+        // Deduct tools from origin planet
+        if (Object.keys(allTools).length > 0) {
+          await import('../services/fleetService').then(m => m.deductTools(fromPlanetId, allTools));
+        }
+
+        // Create fleet
+        const created = await prisma.fleet.create({
+          data: {
+            ownerId: userId,
+            fromPlanetId,
+            toPlanetId,
+            type,
+            unitsJson: JSON.stringify(units),
+            laneAssignmentsJson: type === 'attack' && req.body.laneAssignments
+              ? JSON.stringify(req.body.laneAssignments)
+              : null,
+            toolsJson: Object.keys(allTools).length > 0 ? JSON.stringify(allTools) : null,
+            cargoJson: cargo ? JSON.stringify(cargo) : null,
+            admiralLed,
+            departAt,
+            arriveAt,
+            status: 'enroute',
+          },
+          include: {
+            fromPlanet: {
+              select: { id: true, x: true, y: true, name: true },
+            },
+            toPlanet: {
+              select: { id: true, x: true, y: true, name: true },
+            },
+          },
+        });
+        await scheduleJob('fleet_arrival', created.id, arriveAt);
+        return created;
+      });
+    } catch (err) {
+      // Launch checks (attack slots, trade cargo) are client errors
+      if (err instanceof Error) {
+        if (err.message.includes('attack slots')) return res.status(400).json({ error: err.message });
+        if (err.message.includes('Insufficient')) return res.status(400).json({ error: err.message });
+        if (err.message.includes('required')) return res.status(400).json({ error: err.message });
+        if (err.message.includes('capacity')) return res.status(400).json({ error: err.message });
+      }
+      throw err;
     }
 
-    // Create fleet
-    const fleet = await prisma.fleet.create({
-      data: {
-        ownerId: userId,
-        fromPlanetId,
-        toPlanetId,
-        type,
-        unitsJson: JSON.stringify(units),
-        laneAssignmentsJson: type === 'attack' && req.body.laneAssignments
-          ? JSON.stringify(req.body.laneAssignments)
-          : null,
-        toolsJson: Object.keys(allTools).length > 0 ? JSON.stringify(allTools) : null,
-        departAt,
-        arriveAt,
-        status: 'enroute',
-      },
-      include: {
-        fromPlanet: {
-          select: { id: true, x: true, y: true, name: true },
-        },
-        toPlanet: {
-          select: { id: true, x: true, y: true, name: true },
-        },
-      },
-    });
+    // Support and trade are announced to the receiving player; scouts arrive unannounced
+    const fleetEvent = { fleetId: fleet.id, type, fromPlanetId, toPlanetId, arriveAt };
+    pushToUsers([userId, ...(type === 'support' || type === 'trade' ? [toPlanet.ownerId] : [])], 'fleet_dispatched', fleetEvent);
+    if (type === 'attack') {
+      pushToUser(toPlanet.ownerId, 'incoming_attack', {
+        ...fleetEvent,
+        fromPlanet: fleet.fromPlanet,
+        toPlanet: fleet.toPlanet,
+      });
+    }
 
     res.status(201).json({
       message: 'Fleet dispatched successfully',
@@ -169,6 +289,7 @@ router.post('/fleet', authenticateToken, async (req: AuthRequest, res: Response)
           ? JSON.parse(fleet.laneAssignmentsJson)
           : null,
         tools: fleet.toolsJson ? JSON.parse(fleet.toolsJson) : null,
+        cargo: fleet.cargoJson ? JSON.parse(fleet.cargoJson) : null,
         departAt: fleet.departAt,
         arriveAt: fleet.arriveAt,
         status: fleet.status,
@@ -211,9 +332,11 @@ router.get('/fleets', authenticateToken, async (req: AuthRequest, res: Response)
       fromPlanet: fleet.fromPlanet,
       toPlanet: fleet.toPlanet,
       units: JSON.parse(fleet.unitsJson),
+      cargo: fleet.cargoJson ? JSON.parse(fleet.cargoJson) : null,
       departAt: fleet.departAt,
       arriveAt: fleet.arriveAt,
       status: fleet.status,
+      recallableUntil: fleet.status === 'enroute' ? getRecallDeadline(fleet.departAt, fleet.arriveAt) : null,
     }));
 
     res.json({ fleets: result });
@@ -223,6 +346,135 @@ router.get('/fleets', authenticateToken, async (req: AuthRequest, res: Response)
   }
 });
 
+// Recall an en-route fleet (before its point of no return)
+router.post('/fleets/:id/recall', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+
+    try {
+      const fleet = await recallFleet(userId, id);
+      res.json({
+        message: 'Fleet recalled',
+        fleet: {
+          id: fleet.id,
+          type: fleet.type,
+          units: JSON.parse(fleet.unitsJson),
+          departAt: fleet.departAt,
+          arriveAt: fleet.arriveAt,
+          status: fleet.status,
+        },
+      });
+    } catch (err) {
+      if (err instanceof Error) {
+        if (err.message.includes('not found')) return res.status(404).json({ error: err.message });
+        if (err.message.includes('Not your')) return res.status(403).json({ error: err.message });
+        if (err.message.includes('recalled') || err.message.includes('point of no return')) {
+          return res.status(400).json({ error: err.message });
+        }
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error('Fleet recall error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get hostile attack fleets heading for my planets (detail depends on Intelligence Hub level)
+router.get('/fleets/incoming', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const attacks = await getIncomingAttacks(req.userId!);
+    res.json({ attacks });
+  } catch (error) {
+    console.error('Error fetching incoming attacks:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get Naval Academy attack and Admiral slot usage
+router.get('/attack-slots', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const slots = await getAttackSlots(req.userId!);
+    res.json(slots);
+  } catch (error) {
+    console.error('Error fetching attack slots:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get reinforcements: my troops stationed abroad and allied troops stationed at my planets
+router.get('/stationed', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const stationed = await prisma.stationedTroop.findMany({
+      where: {
+        OR: [
+          { ownerId: userId },
+          { hostPlanet: { ownerId: userId } },
+        ],
+      },
+      include: {
+        owner: { select: { id: true, username: true } },
+        hostPlanet: { select: { id: true, x: true, y: true, name: true } },
+        originPlanet: { select: { id: true, x: true, y: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const toView = (st: typeof stationed[number]) => ({
+      id: st.id,
+      owner: st.owner,
+      hostPlanet: st.hostPlanet,
+      originPlanet: st.originPlanet,
+      units: JSON.parse(st.unitsJson),
+      stationedAt: st.createdAt,
+    });
+
+    res.json({
+      abroad: stationed.filter(st => st.ownerId === userId).map(toView),
+      hosted: stationed.filter(st => st.ownerId !== userId).map(toView),
+    });
+  } catch (error) {
+    console.error('Error fetching stationed troops:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recall stationed troops back to their origin planet
+router.post('/stationed/:id/recall', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+
+    try {
+      const { fleet, travelTimeSeconds } = await recallStationedTroops(userId, id);
+      res.json({
+        message: 'Troops recalled',
+        fleet: {
+          id: fleet.id,
+          type: fleet.type,
+          units: JSON.parse(fleet.unitsJson),
+          departAt: fleet.departAt,
+          arriveAt: fleet.arriveAt,
+          status: fleet.status,
+          travelTimeSeconds,
+        },
+      });
+    } catch (err) {
+      if (err instanceof Error) {
+        if (err.message.includes('not found')) return res.status(404).json({ error: err.message });
+        if (err.message.includes('Not your')) return res.status(403).json({ error: err.message });
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error('Recall error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Place/Upgrade Building
 router.post('/build', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -250,7 +502,134 @@ router.post('/build', authenticateToken, async (req: AuthRequest, res: Response)
   } catch (err: any) {
     console.error('Build error:', err);
     const msg = err.message || 'Internal Error';
-    const status = msg.includes('Insufficient') || msg.includes('occupied') || msg.includes('bounds') ? 400 : 500;
+    const status = msg.includes('Insufficient') || msg.includes('occupied') || msg.includes('bounds')
+      || msg.includes('Only ') || msg.includes('max level') || msg.includes('requires')
+      || msg.includes('Unknown building') || msg.includes('cannot be built') || msg.includes('queue') ? 400 : 500;
+    res.status(status).json({ error: msg });
+  }
+});
+
+// Cancel a construction order (partial refund once it is under way)
+router.post('/construction/cancel', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId, buildingId } = req.body;
+
+    if (!planetId || !buildingId) {
+      return res.status(400).json({ error: 'Missing parameters (planetId, buildingId)' });
+    }
+
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    const result = await cancelConstruction(planetId, buildingId);
+    res.json({ message: 'Construction cancelled', ...result });
+  } catch (err: any) {
+    console.error('Cancel construction error:', err);
+    const msg = err.message || 'Internal Error';
+    res.status(msg.includes('not found') ? 404 : 500).json({ error: msg });
+  }
+});
+
+// Move a building to a free spot on the grid
+router.post('/buildings/move', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId, buildingId, x, y } = req.body;
+
+    if (!planetId || !buildingId || typeof x !== 'number' || typeof y !== 'number') {
+      return res.status(400).json({ error: 'Missing parameters (planetId, buildingId, x, y)' });
+    }
+
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    const building = await moveBuilding(planetId, buildingId, x, y);
+    res.json({ message: 'Building moved', building });
+  } catch (err: any) {
+    console.error('Move building error:', err);
+    const msg = err.message || 'Internal Error';
+    const status = msg.includes('not found') ? 404 : msg.includes('occupied') || msg.includes('bounds') ? 400 : 500;
+    res.status(status).json({ error: msg });
+  }
+});
+
+// Demolish a building (part of what it cost comes back once it is gone)
+router.post('/buildings/demolish', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId, buildingId } = req.body;
+
+    if (!planetId || !buildingId) {
+      return res.status(400).json({ error: 'Missing parameters (planetId, buildingId)' });
+    }
+
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    const building = await demolishBuilding(planetId, buildingId);
+    res.json({ message: 'Demolition started', building });
+  } catch (err: any) {
+    console.error('Demolish error:', err);
+    const msg = err.message || 'Internal Error';
+    const status = msg.includes('not found') ? 404
+      : msg.includes('cannot be demolished') || msg.includes('Only finished') || msg.includes('queue') ? 400 : 500;
+    res.status(status).json({ error: msg });
+  }
+});
+
+// Expand the planet grid by one row and column
+router.post('/expand-grid', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId } = req.body;
+
+    if (!planetId) {
+      return res.status(400).json({ error: 'Missing parameters (planetId)' });
+    }
+
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    const planet = await expandGrid(planetId);
+    res.json({ message: 'Grid expanded', gridSize: planet.gridSize });
+  } catch (err: any) {
+    console.error('Expand grid error:', err);
+    const msg = err.message || 'Internal Error';
+    const status = msg.includes('Insufficient') || msg.includes('requires') || msg.includes('expanded') ? 400 : 500;
+    res.status(status).json({ error: msg });
+  }
+});
+
+// Move a waiting construction order within the queue
+router.post('/construction/reorder', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId, buildingId, position } = req.body;
+
+    if (!planetId || !buildingId || typeof position !== 'number') {
+      return res.status(400).json({ error: 'Missing parameters (planetId, buildingId, position)' });
+    }
+
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    const result = await reorderConstruction(planetId, buildingId, position);
+    res.json(result);
+  } catch (err: any) {
+    console.error('Reorder construction error:', err);
+    const msg = err.message || 'Internal Error';
+    const status = msg.includes('not found') ? 404 : msg.includes('Only waiting') ? 400 : 500;
     res.status(status).json({ error: msg });
   }
 });
@@ -285,6 +664,7 @@ router.post('/recruit', authenticateToken, async (req: AuthRequest, res: Respons
       if (err instanceof Error) {
         if (err.message.includes('Insufficient')) return res.status(400).json({ error: err.message });
         if (err.message.includes('required')) return res.status(400).json({ error: err.message });
+        if (err.message.includes('requires player level')) return res.status(400).json({ error: err.message });
       }
       throw err;
     }
@@ -295,6 +675,46 @@ router.post('/recruit', authenticateToken, async (req: AuthRequest, res: Respons
   }
 });
 
+// Train spies at the Intelligence Hub
+router.post('/spies', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId, count } = req.body;
+
+    if (!planetId || count === undefined) {
+      return res.status(400).json({ error: 'Missing parameters' });
+    }
+    if (!Number.isInteger(count) || count <= 0) {
+      return res.status(400).json({ error: 'Must train a whole number of spies, at least one' });
+    }
+
+    // Validate ownership
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    try {
+      const result = await trainSpies(planetId, count);
+      res.json({
+        message: 'Agent training started',
+        ...result,
+      });
+    } catch (err) {
+      if (err instanceof Error) {
+        if (err.message.includes('Insufficient')) return res.status(400).json({ error: err.message });
+        if (err.message.includes('required')) return res.status(400).json({ error: err.message });
+        if (err.message.includes('capacity')) return res.status(400).json({ error: err.message });
+      }
+      throw err;
+    }
+
+  } catch (error) {
+    console.error('Spy training error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Spawn a new planet (Regional Selection)
 router.post('/spawn', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -350,6 +770,7 @@ router.post('/manufacture', authenticateToken, async (req: AuthRequest, res: Res
         if (err.message.includes('Insufficient')) return res.status(400).json({ error: err.message });
         if (err.message.includes('required')) return res.status(400).json({ error: err.message });
         if (err.message.includes('Invalid tool')) return res.status(400).json({ error: err.message });
+        if (err.message.includes('Requires research')) return res.status(400).json({ error: err.message });
       }
       throw err;
     }
@@ -0,0 +1,88 @@
+import { Router, Response } from 'express';
+import prisma from '../lib/prisma';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import {
+  getOrCreateAdmiral,
+  parseEquippedGear,
+  getLaneBonuses,
+  equipGear,
+  unequipGear,
+  GEAR_SLOTS,
+} from '../services/admiralService';
+
+const router = Router();
+
+// Serialize an Admiral with its equipped gear, inventory and per-lane bonuses
+async function serializeAdmiral(admiral: { id: string; gearJson: string; attackBonus: number; defenseBonus: number }) {
+  const inventory = await prisma.gearPiece.findMany({
+    where: { admiralId: admiral.id },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return {
+    attackBonus: admiral.attackBonus,
+    defenseBonus: admiral.defenseBonus,
+    laneBonuses: getLaneBonuses(admiral),
+    slots: GEAR_SLOTS,
+    equipped: parseEquippedGear(admiral.gearJson),
+    inventory: inventory.map(g => ({
+      id: g.id,
+      slot: g.slot,
+      rarity: g.rarity,
+      name: g.name,
+      stats: JSON.parse(g.statsJson),
+      sourceLevel: g.sourceLevel,
+    })),
+  };
+}
+
+// Get my Admiral (equipped gear + inventory)
+router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const admiral = await getOrCreateAdmiral(req.userId!);
+    res.json(await serializeAdmiral(admiral));
+  } catch (error) {
+    console.error('Error fetching admiral:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Equip a gear piece from the inventory
+router.post('/equip', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { gearId } = req.body;
+    if (!gearId) {
+      return res.status(400).json({ error: 'Missing parameters (gearId)' });
+    }
+
+    const admiral = await equipGear(req.userId!, gearId);
+    res.json({ message: 'Gear equipped', ...(await serializeAdmiral(admiral)) });
+  } catch (err) {
+    if (err instanceof Error && err.message.includes('not found')) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error('Equip gear error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Unequip the piece in a slot
+router.post('/unequip', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { slot } = req.body;
+    if (!slot) {
+      return res.status(400).json({ error: 'Missing parameters (slot)' });
+    }
+
+    const admiral = await unequipGear(req.userId!, slot);
+    res.json({ message: 'Gear unequipped', ...(await serializeAdmiral(admiral)) });
+  } catch (err) {
+    if (err instanceof Error && (err.message.includes('Invalid') || err.message.includes('Nothing'))) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error('Unequip gear error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
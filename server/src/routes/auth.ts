@@ -130,6 +130,7 @@ router.post('/login', async (req: Request, res: Response) => {
         email: user.email,
         xp: user.xp,
         level: user.level,
+        darkMatter: user.darkMatter,
       },
     });
   } catch (error) {
@@ -160,6 +161,7 @@ router.get('/me', authenticateToken, async (req: Request, res: Response) => {
       email: user.email,
       xp: user.xp,
       level: user.level,
+      darkMatter: user.darkMatter,
     });
   } catch (error) {
     console.error('Get Me error:', error);
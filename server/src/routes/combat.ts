@@ -0,0 +1,132 @@
+import { Router, Response } from 'express';
+import prisma from '../lib/prisma';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import {
+  simulateBattle,
+  normalizeAttackWaves,
+  normalizeDefenderLane,
+  isValidAttackLane,
+  getSurfaceDefenders,
+} from '../services/combatService';
+import { getLaneBonuses, getGearDropChance, getAttackSlots } from '../services/admiralService';
+import { getResearchBonuses } from '../services/researchService';
+import { getPirateCastellan } from '../services/pveService';
+import { getPirateDarkMatterChance } from '../services/darkMatterService';
+
+const router = Router();
+
+// Simulate an attack without touching the database.
+// Defense comes from the request body (intel-snapshot format) or the caller's latest successful intel on the target.
+router.post('/simulate', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { targetPlanetId, lanes, defense } = req.body;
+
+    if (!lanes || typeof lanes !== 'object') {
+      return res.status(400).json({ error: 'Missing parameters (lanes)' });
+    }
+    if (![lanes.left, lanes.front, lanes.right].every(isValidAttackLane)) {
+      return res.status(400).json({ error: 'Invalid lane assignments' });
+    }
+
+    let snapshot = defense;
+    let intelReport: { id: string; createdAt: Date } | null = null;
+
+    if (!snapshot) {
+      if (!targetPlanetId) {
+        return res.status(400).json({ error: 'Provide a defense or a targetPlanetId with intel' });
+      }
+
+      const report = await prisma.espionageReport.findFirst({
+        where: { attackerId: userId, targetPlanetId, success: true, intelJson: { not: null } },
+        orderBy: { createdAt: 'desc' }
+      });
+      if (!report) {
+        return res.status(404).json({ error: 'No intel on this target. Send spies first or supply a defense.' });
+      }
+
+      snapshot = JSON.parse(report.intelJson!);
+      intelReport = { id: report.id, createdAt: report.createdAt };
+    }
+
+    const defLanes = {
+      left: normalizeDefenderLane(snapshot.lanes?.left),
+      front: normalizeDefenderLane(snapshot.lanes?.front),
+      right: normalizeDefenderLane(snapshot.lanes?.right),
+    };
+    const courtyard = snapshot.courtyard || {};
+
+    // Older intel predates storage protection
+    const protectedStorage = snapshot.protectedStorage || 0;
+
+    // Attacker gear and research are known; the defender's Admiral and research are not visible to spies.
+    // As on a real launch, the attacker's Admiral only leads if one of its slots is free.
+    // A pirate base's castellan follows from its level.
+    const slots = await getAttackSlots(userId);
+    const admiral = slots.admiralsUsed < slots.admiralSlots
+      ? await prisma.admiral.findUnique({ where: { userId } })
+      : null;
+    const research = await getResearchBonuses(userId);
+    const target = targetPlanetId
+      ? await prisma.planet.findUnique({ where: { id: targetPlanetId }, select: { isNpc: true, npcLevel: true, planetType: true } })
+      : null;
+    const castellan = target?.isNpc ? getPirateCastellan(target.npcLevel) : null;
+
+    const outcome = simulateBattle({
+      waves: {
+        left: normalizeAttackWaves(lanes.left),
+        front: normalizeAttackWaves(lanes.front),
+        right: normalizeAttackWaves(lanes.right),
+      },
+      lanes: defLanes,
+      surfaceDefenders: getSurfaceDefenders(
+        snapshot.units || {},
+        [defLanes.left.units, defLanes.front.units, defLanes.right.units],
+        courtyard
+      ),
+      buildings: {
+        shield: snapshot.defense?.defensiveGrid || 0,
+        starport: snapshot.defense?.starport || 0,
+        perimeter: snapshot.defense?.perimeterField || 0,
+      },
+      admirals: {
+        attacker: getLaneBonuses(admiral),
+        defender: castellan ? castellan.lanes : getLaneBonuses(null),
+        surface: { attack: admiral?.attackBonus || 0, defense: 0 },
+      },
+      research: {
+        attacker: research,
+        defender: castellan ? castellan.boosts : { meleeAtk: 0, rangedAtk: 0, meleeDef: 0, rangedDef: 0 },
+      },
+      resources: {
+        carbon: Math.max(0, (snapshot.resources?.carbon || 0) - protectedStorage),
+        titanium: Math.max(0, (snapshot.resources?.titanium || 0) - protectedStorage),
+        food: Math.max(0, (snapshot.resources?.food || 0) - protectedStorage),
+        credits: Math.max(0, (snapshot.resources?.credits || 0) - protectedStorage),
+      },
+    });
+
+    // Drops are rolled only on a real victory; report their odds instead
+    const pirateVictory = outcome.winner === 'attacker' && target?.isNpc && target.planetType !== 'moon';
+
+    res.json({
+      winner: outcome.winner,
+      sectors: outcome.sectorResults,
+      surface: outcome.surfaceResult,
+      attackerTotalLosses: outcome.attackerTotalLosses,
+      defenderTotalLosses: outcome.defenderTotalLosses,
+      expectedLoot: outcome.loot || { carbon: 0, titanium: 0, food: 0, credits: 0 },
+      dropChances: pirateVictory
+        ? { gear: getGearDropChance(target!.npcLevel), darkMatter: getPirateDarkMatterChance(target!.npcLevel) }
+        : null,
+      admiralLed: !!admiral,
+      source: intelReport ? 'intel' : 'supplied',
+      intelReport,
+    });
+  } catch (error) {
+    console.error('Combat simulation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router, Response } from 'express';
+import prisma from '../lib/prisma';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { validatePlanetOwnership } from '../services/fleetService';
+import { finishConstructionNow, finishQueueNow, buyBuildSlot } from '../services/darkMatterService';
+
+const router = Router();
+
+// Errors players can cause (everything else is a 500)
+const isPlayerError = (msg: string) =>
+  msg.includes('Insufficient') || msg.includes('not found') || msg.includes('Only orders')
+  || msg.includes('Nothing in') || msg.includes('No more');
+
+// Get my balance and recent ledger entries
+router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { darkMatter: true } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const entries = await prisma.darkMatterEntry.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    res.json({
+      balance: user.darkMatter,
+      ledger: entries.map(e => ({
+        id: e.id,
+        amount: e.amount,
+        balance: e.balance,
+        reason: e.reason,
+        refId: e.refId,
+        createdAt: e.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching Dark Matter:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Finish a timer instantly: a construction order, or a whole recruitment/manufacturing queue
+router.post('/speedup', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId, target, buildingId } = req.body;
+
+    if (!planetId || !['construction', 'recruitment', 'manufacturing'].includes(target)) {
+      return res.status(400).json({ error: 'Missing parameters (planetId, target)' });
+    }
+    if (target === 'construction' && !buildingId) {
+      return res.status(400).json({ error: 'Missing parameters (buildingId)' });
+    }
+
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    const result = target === 'construction'
+      ? await finishConstructionNow(userId, planetId, buildingId)
+      : await finishQueueNow(userId, planetId, target);
+
+    res.json({ message: 'Timer finished', ...result });
+  } catch (err: any) {
+    console.error('Dark Matter speedup error:', err);
+    const msg = err.message || 'Internal Error';
+    res.status(isPlayerError(msg) ? 400 : 500).json({ error: msg });
+  }
+});
+
+// Buy an extra construction slot for a planet
+router.post('/build-slot', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId } = req.body;
+
+    if (!planetId) {
+      return res.status(400).json({ error: 'Missing parameters (planetId)' });
+    }
+
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    const result = await buyBuildSlot(userId, planetId);
+    res.json({ message: 'Build slot purchased', ...result });
+  } catch (err: any) {
+    console.error('Build slot purchase error:', err);
+    const msg = err.message || 'Internal Error';
+    res.status(isPlayerError(msg) ? 400 : 500).json({ error: msg });
+  }
+});
+
+export default router;
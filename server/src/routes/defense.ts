@@ -1,13 +1,14 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getLaneBonuses } from '../services/admiralService';
 
 const router = Router();
 
 // Get defense profile for a planet (computed defense values)
 router.get('/planets/:id/defense-profile', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
-    const { id } = req.params;
+    const id = req.params.id as string;
     const planet = await prisma.planet.findUnique({
       where: { id },
       include: {
@@ -33,6 +34,9 @@ router.get('/planets/:id/defense-profile', authenticateToken, async (req: AuthRe
     const rightDefense = defenseLayout
       ? JSON.parse(defenseLayout.rightLaneJson)
       : {};
+    const courtyardDefense = defenseLayout
+      ? JSON.parse(defenseLayout.courtyardJson)
+      : {};
 
     const admiralBonus = planet.owner.admiral?.defenseBonus || 0;
 
@@ -42,11 +46,13 @@ router.get('/planets/:id/defense-profile', authenticateToken, async (req: AuthRe
       perimeterFieldLevel: planet.perimeterFieldLevel,
       starportLevel: planet.starportLevel,
       admiralDefenseBonus: admiralBonus,
+      admiralLaneBonuses: getLaneBonuses(planet.owner.admiral),
       laneDefenses: {
         front: frontDefense,
         left: leftDefense,
         right: rightDefense,
       },
+      courtyard: courtyardDefense,
     });
   } catch (error) {
     console.error('Error fetching defense profile:', error);
@@ -59,7 +65,7 @@ router.post('/planets/:id/defense-layout', authenticateToken, async (req: AuthRe
   try {
     const userId = req.userId!;
     const { id } = req.params;
-    const { front, left, right } = req.body;
+    const { front, left, right, courtyard } = req.body;
 
     // Validate ownership
     const planet = await prisma.planet.findUnique({
@@ -94,6 +100,13 @@ router.post('/planets/:id/defense-layout', authenticateToken, async (req: AuthRe
     const leftLane = normalizeLane(left);
     const rightLane = normalizeLane(right);
 
+    // Courtyard holds units only (optional; unassigned garrison defends it anyway)
+    const courtyardUnits: { [unitType: string]: number } = {};
+    for (const [unitType, count] of Object.entries(courtyard || {})) {
+      const n = Math.floor(Number(count));
+      if (n > 0) courtyardUnits[unitType] = n;
+    }
+
     // 1. Validate Units Available
     const planetUnits = await prisma.planetUnit.findMany({
       where: { planetId: id },
@@ -105,7 +118,7 @@ router.post('/planets/:id/defense-layout', authenticateToken, async (req: AuthRe
     });
 
     const allAssignedUnits: { [unitType: string]: number } = {};
-    for (const lane of [frontLane, leftLane, rightLane]) {
+    for (const lane of [frontLane, leftLane, rightLane, { units: courtyardUnits }]) {
       for (const [unitType, count] of Object.entries(lane.units as { [key: string]: number })) {
         allAssignedUnits[unitType] = (allAssignedUnits[unitType] || 0) + (count as number);
       }
@@ -186,12 +199,14 @@ router.post('/planets/:id/defense-layout', authenticateToken, async (req: AuthRe
         frontLaneJson: JSON.stringify(frontLane),
         leftLaneJson: JSON.stringify(leftLane),
         rightLaneJson: JSON.stringify(rightLane),
+        courtyardJson: JSON.stringify(courtyardUnits),
       },
       create: {
         planetId: id,
         frontLaneJson: JSON.stringify(frontLane),
         leftLaneJson: JSON.stringify(leftLane),
         rightLaneJson: JSON.stringify(rightLane),
+        courtyardJson: JSON.stringify(courtyardUnits),
       },
     });
 
@@ -201,6 +216,7 @@ router.post('/planets/:id/defense-layout', authenticateToken, async (req: AuthRe
         front: JSON.parse(defenseLayout.frontLaneJson),
         left: JSON.parse(defenseLayout.leftLaneJson),
         right: JSON.parse(defenseLayout.rightLaneJson),
+        courtyard: JSON.parse(defenseLayout.courtyardJson),
       },
       // Return max slots for UI convenience
       maxSlots
@@ -0,0 +1,262 @@
+import { Router, Response } from 'express';
+import prisma from '../lib/prisma';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import {
+  getMembership,
+  createFederation,
+  invitePlayer,
+  applyToFederation,
+  respondToRequest,
+  kickMember,
+  setMemberRank,
+  leaveFederation,
+  getFederationIncomingAttacks,
+} from '../services/federationService';
+
+const router = Router();
+
+// Map service errors to HTTP status codes
+function sendFederationError(res: Response, err: unknown, context: string) {
+  if (err instanceof Error) {
+    const msg = err.message;
+    if (msg.includes('not found')) return res.status(404).json({ error: msg });
+    if (msg.includes('required') || msg.includes('Not a member') || msg.includes('Not your') || msg.includes('equal or higher')) {
+      return res.status(403).json({ error: msg });
+    }
+    if (msg.includes('Invalid') || msg.includes('Already') || msg.includes('already') || msg.includes('taken') ||
+      msg.includes('Transfer') || msg.includes('Cannot') || msg.includes('Use leave') || msg.includes('Not in')) {
+      return res.status(400).json({ error: msg });
+    }
+  }
+  console.error(`${context} error:`, err);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+// List all federations
+router.get('/', async (req, res: Response) => {
+  try {
+    const federations = await prisma.federation.findMany({
+      include: { _count: { select: { members: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      federations: federations.map(f => ({
+        id: f.id,
+        name: f.name,
+        tag: f.tag,
+        description: f.description,
+        memberCount: f._count.members,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching federations:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// My federation, its members and pending requests (plus invitations addressed to me)
+router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const membership = await getMembership(userId);
+
+    const myInvites = await prisma.federationRequest.findMany({
+      where: { userId, type: 'invite' },
+      include: { federation: { select: { id: true, name: true, tag: true } } },
+    });
+
+    if (!membership) {
+      return res.json({
+        federation: null,
+        invites: myInvites.map(r => ({ id: r.id, federation: r.federation, createdAt: r.createdAt })),
+      });
+    }
+
+    const members = await prisma.federationMember.findMany({
+      where: { federationId: membership.federationId },
+      include: { user: { select: { id: true, username: true, level: true } } },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    // Only officers and the leader manage pending requests
+    const canManage = membership.rank !== 'member';
+    const pending = canManage
+      ? await prisma.federationRequest.findMany({
+        where: { federationId: membership.federationId },
+        include: { user: { select: { id: true, username: true } } },
+      })
+      : [];
+
+    res.json({
+      federation: {
+        id: membership.federation.id,
+        name: membership.federation.name,
+        tag: membership.federation.tag,
+        description: membership.federation.description,
+      },
+      myRank: membership.rank,
+      members: members.map(m => ({
+        userId: m.user.id,
+        username: m.user.username,
+        level: m.user.level,
+        rank: m.rank,
+        joinedAt: m.joinedAt,
+      })),
+      requests: pending.map(r => ({ id: r.id, type: r.type, user: r.user, createdAt: r.createdAt })),
+      invites: myInvites.map(r => ({ id: r.id, federation: r.federation, createdAt: r.createdAt })),
+    });
+  } catch (error) {
+    console.error('Error fetching federation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Incoming attacks on any member of my federation
+router.get('/me/incoming', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const membership = await getMembership(userId);
+    if (!membership) {
+      return res.status(400).json({ error: 'Not in a federation' });
+    }
+
+    const fleets = await getFederationIncomingAttacks(membership.federationId);
+
+    res.json({
+      attacks: fleets.map(f => ({
+        id: f.id,
+        attacker: f.owner,
+        fromPlanet: f.fromPlanet,
+        toPlanet: {
+          id: f.toPlanet.id,
+          x: f.toPlanet.x,
+          y: f.toPlanet.y,
+          name: f.toPlanet.name,
+          ownerId: f.toPlanet.ownerId,
+          ownerName: f.toPlanet.owner.username,
+        },
+        departAt: f.departAt,
+        arriveAt: f.arriveAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching federation incoming attacks:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Found a federation
+router.post('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { name, tag, description } = req.body;
+
+    if (!name || !tag) {
+      return res.status(400).json({ error: 'Missing parameters (name, tag)' });
+    }
+
+    const federation = await createFederation(userId, name, tag, description);
+    res.status(201).json({ message: 'Federation founded', federation });
+  } catch (err) {
+    sendFederationError(res, err, 'Federation creation');
+  }
+});
+
+// Invite a player (officer+)
+router.post('/:id/invite', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const federationId = req.params.id as string;
+    const { username } = req.body;
+
+    if (!username) {
+      return res.status(400).json({ error: 'Missing parameters (username)' });
+    }
+
+    await invitePlayer(userId, federationId, username);
+    res.json({ message: 'Invitation sent' });
+  } catch (err) {
+    sendFederationError(res, err, 'Federation invite');
+  }
+});
+
+// Apply to join
+router.post('/:id/apply', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const federationId = req.params.id as string;
+
+    await applyToFederation(userId, federationId);
+    res.json({ message: 'Application sent' });
+  } catch (err) {
+    sendFederationError(res, err, 'Federation application');
+  }
+});
+
+// Accept / decline an invitation or application
+router.post('/requests/:requestId/:decision', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const requestId = req.params.requestId as string;
+    const decision = req.params.decision as string;
+
+    if (decision !== 'accept' && decision !== 'decline') {
+      return res.status(400).json({ error: 'Invalid decision' });
+    }
+
+    await respondToRequest(userId, requestId, decision === 'accept');
+    res.json({ message: decision === 'accept' ? 'Request accepted' : 'Request declined' });
+  } catch (err) {
+    sendFederationError(res, err, 'Federation request');
+  }
+});
+
+// Kick a member (officer+)
+router.post('/:id/kick', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const federationId = req.params.id as string;
+    const { userId: targetUserId } = req.body;
+
+    if (!targetUserId) {
+      return res.status(400).json({ error: 'Missing parameters (userId)' });
+    }
+
+    await kickMember(userId, federationId, targetUserId);
+    res.json({ message: 'Member removed' });
+  } catch (err) {
+    sendFederationError(res, err, 'Federation kick');
+  }
+});
+
+// Change a member's rank (leader only)
+router.post('/:id/promote', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const federationId = req.params.id as string;
+    const { userId: targetUserId, rank } = req.body;
+
+    if (!targetUserId || !rank) {
+      return res.status(400).json({ error: 'Missing parameters (userId, rank)' });
+    }
+
+    await setMemberRank(userId, federationId, targetUserId, rank);
+    res.json({ message: 'Rank updated' });
+  } catch (err) {
+    sendFederationError(res, err, 'Federation promote');
+  }
+});
+
+// Leave my federation
+router.post('/leave', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const result = await leaveFederation(userId);
+    res.json({ message: result.disbanded ? 'Federation disbanded' : 'Left federation', ...result });
+  } catch (err) {
+    sendFederationError(res, err, 'Federation leave');
+  }
+});
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getInvasionOverview, getInvasionLeaderboard } from '../services/invasionService';
+
+const router = Router();
+
+// Current (or next) invasion event with my score and the leaderboard, plus the last finished one
+router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const overview = await getInvasionOverview(req.userId!);
+    res.json(overview);
+  } catch (error) {
+    console.error('Error fetching invasion:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Leaderboard of any event
+router.get('/:eventId/leaderboard', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const leaderboard = await getInvasionLeaderboard(req.params.eventId as string);
+    res.json({ leaderboard });
+  } catch (error) {
+    console.error('Error fetching invasion leaderboard:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -4,6 +4,17 @@ import { authenticateToken, AuthRequest } from '../middleware/auth';
 
 const router = Router();
 
+// Sum an ally's losses across all their contingents in a battle
+function sumStationedLosses(stationedLosses: { ownerId: string; losses: Record<string, number> }[], userId: string) {
+  const total: Record<string, number> = {};
+  stationedLosses
+    .filter(s => s.ownerId === userId)
+    .forEach(s => {
+      for (const [u, n] of Object.entries(s.losses)) total[u] = (total[u] || 0) + n;
+    });
+  return total;
+}
+
 // Get all battle reports for the authenticated user
 router.get('/battles', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -14,6 +25,7 @@ router.get('/battles', authenticateToken, async (req: AuthRequest, res: Response
         OR: [
           { attackerId: userId },
           { defenderId: userId },
+          { supporterIds: { has: userId } },
         ],
       },
       include: {
@@ -36,21 +48,25 @@ router.get('/battles', authenticateToken, async (req: AuthRequest, res: Response
 
     const result = reports.map((report) => {
       const isAttacker = report.attackerId === userId;
+      const isSupporter = !isAttacker && report.defenderId !== userId;
       const laneResults = JSON.parse(report.laneResultsJson);
       const attackerLosses = JSON.parse(report.attackerTotalLossesJson);
       const defenderLosses = JSON.parse(report.defenderTotalLossesJson);
+      const stationedLosses = report.stationedLossesJson ? JSON.parse(report.stationedLossesJson) : [];
 
       return {
         id: report.id,
         fleetId: report.fleetId,
         isAttacker,
+        isSupporter,
         winner: report.winner,
         attackerPlanet: report.fleet.fromPlanet,
         defenderPlanet: report.fleet.toPlanet,
         laneResults,
         attackerLosses,
         defenderLosses,
-        myLosses: isAttacker ? attackerLosses : defenderLosses,
+        stationedLosses,
+        myLosses: isAttacker ? attackerLosses : isSupporter ? sumStationedLosses(stationedLosses, userId) : defenderLosses,
         enemyLosses: isAttacker ? defenderLosses : attackerLosses,
         createdAt: report.createdAt,
       };
@@ -89,28 +105,32 @@ router.get('/battles/:id', authenticateToken, async (req: AuthRequest, res: Resp
       return res.status(404).json({ error: 'Battle report not found' });
     }
 
-    // Check if user is involved in this battle
-    if (report.attackerId !== userId && report.defenderId !== userId) {
+    // Check if user is involved in this battle (allies with stationed troops included)
+    if (report.attackerId !== userId && report.defenderId !== userId && !report.supporterIds.includes(userId)) {
       return res.status(403).json({ error: 'You are not involved in this battle' });
     }
 
     const isAttacker = report.attackerId === userId;
+    const isSupporter = !isAttacker && report.defenderId !== userId;
     const laneResults = JSON.parse(report.laneResultsJson);
     const attackerLosses = JSON.parse(report.attackerTotalLossesJson);
     const defenderLosses = JSON.parse(report.defenderTotalLossesJson);
+    const stationedLosses = report.stationedLossesJson ? JSON.parse(report.stationedLossesJson) : [];
     const loot = report.resourcesJson ? JSON.parse(report.resourcesJson) : null;
 
     res.json({
       id: report.id,
       fleetId: report.fleetId,
       isAttacker,
+      isSupporter,
       winner: report.winner,
       attackerPlanet: report.fleet.fromPlanet,
       defenderPlanet: report.fleet.toPlanet,
       laneResults,
       attackerLosses,
       defenderLosses,
-      myLosses: isAttacker ? attackerLosses : defenderLosses,
+      stationedLosses,
+      myLosses: isAttacker ? attackerLosses : isSupporter ? sumStationedLosses(stationedLosses, userId) : defenderLosses,
       enemyLosses: isAttacker ? defenderLosses : attackerLosses,
       loot: isAttacker ? loot : null,
       resourcesStolen: loot,
@@ -123,5 +143,166 @@ router.get('/battles/:id', authenticateToken, async (req: AuthRequest, res: Resp
   }
 });
 
+// Get espionage reports: own missions, plus failed missions against the user's planets (alerts)
+router.get('/espionage', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const reports = await prisma.espionageReport.findMany({
+      where: {
+        OR: [
+          { attackerId: userId },
+          { defenderId: userId, success: false },
+        ],
+      },
+      include: {
+        attackerPlanet: {
+          select: { id: true, name: true, x: true, y: true },
+        },
+        targetPlanet: {
+          select: { id: true, name: true, x: true, y: true },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: 50,
+    });
+
+    const result = reports.map((report) => ({
+      id: report.id,
+      fleetId: report.fleetId,
+      isAttacker: report.attackerId === userId,
+      success: report.success,
+      attackerPlanet: report.attackerPlanet,
+      targetPlanet: report.targetPlanet,
+      spiesSent: report.spiesSent,
+      spiesLost: report.spiesLost,
+      createdAt: report.createdAt,
+    }));
+
+    res.json({ reports: result });
+  } catch (error) {
+    console.error('Error fetching espionage reports:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a specific espionage report
+router.get('/espionage/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+
+    const report = await prisma.espionageReport.findUnique({
+      where: { id },
+      include: {
+        attackerPlanet: {
+          select: { id: true, name: true, x: true, y: true },
+        },
+        targetPlanet: {
+          select: { id: true, name: true, x: true, y: true },
+        },
+      },
+    });
+
+    if (!report) {
+      return res.status(404).json({ error: 'Espionage report not found' });
+    }
+
+    const isAttacker = report.attackerId === userId;
+    // Defenders only learn about missions they caught
+    if (!isAttacker && !(report.defenderId === userId && !report.success)) {
+      return res.status(403).json({ error: 'You are not involved in this mission' });
+    }
+
+    res.json({
+      id: report.id,
+      fleetId: report.fleetId,
+      isAttacker,
+      success: report.success,
+      successChance: isAttacker ? report.successChance : null,
+      attackerPlanet: report.attackerPlanet,
+      targetPlanet: report.targetPlanet,
+      spiesSent: report.spiesSent,
+      spiesLost: report.spiesLost,
+      intel: isAttacker && report.intelJson ? JSON.parse(report.intelJson) : null,
+      createdAt: report.createdAt,
+    });
+  } catch (error) {
+    console.error('Error fetching espionage report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get trade delivery receipts (shipments sent or received)
+router.get('/deliveries', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const receipts = await prisma.deliveryReceipt.findMany({
+      where: {
+        OR: [
+          { senderId: userId },
+          { recipientId: userId },
+        ],
+      },
+      include: {
+        fromPlanet: {
+          select: { id: true, name: true, x: true, y: true },
+        },
+        toPlanet: {
+          select: { id: true, name: true, x: true, y: true },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: 50,
+    });
+
+    const result = receipts.map((receipt) => ({
+      id: receipt.id,
+      fleetId: receipt.fleetId,
+      isSender: receipt.senderId === userId,
+      fromPlanet: receipt.fromPlanet,
+      toPlanet: receipt.toPlanet,
+      cargo: JSON.parse(receipt.cargoJson),
+      delivered: JSON.parse(receipt.deliveredJson),
+      createdAt: receipt.createdAt,
+    }));
+
+    res.json({ receipts: result });
+  } catch (error) {
+    console.error('Error fetching delivery receipts:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get level-up reports (what each new player level unlocked)
+router.get('/level-ups', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const reports = await prisma.levelUpReport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    res.json({
+      reports: reports.map(report => ({
+        id: report.id,
+        level: report.level,
+        unlocks: JSON.parse(report.unlocksJson),
+        createdAt: report.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching level-up reports:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
 
@@ -0,0 +1,60 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { validatePlanetOwnership } from '../services/fleetService';
+import { getResearchOverview, startResearch, cancelResearch } from '../services/researchService';
+
+const router = Router();
+
+// Errors players can cause (everything else is a 500)
+const isPlayerError = (msg: string) =>
+  msg.includes('Unknown technology') || msg.includes('requires') || msg.includes('required')
+  || msg.includes('max level') || msg.includes('in progress') || msg.includes('Insufficient') || msg.includes('not found');
+
+// Tech tree with my levels, next costs and the project under way
+router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const overview = await getResearchOverview(req.userId!);
+    res.json(overview);
+  } catch (error) {
+    console.error('Error fetching research:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Start the next level of a technology, paid by one of my planets
+router.post('/start', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { planetId, techId } = req.body;
+
+    if (!planetId || !techId) {
+      return res.status(400).json({ error: 'Missing parameters (planetId, techId)' });
+    }
+
+    const ownsPlanet = await validatePlanetOwnership(userId, planetId);
+    if (!ownsPlanet) {
+      return res.status(403).json({ error: 'You do not own this planet' });
+    }
+
+    const active = await startResearch(userId, planetId, techId);
+    res.json({ message: 'Research started', active });
+  } catch (err: any) {
+    console.error('Research start error:', err);
+    const msg = err.message || 'Internal Error';
+    res.status(isPlayerError(msg) ? 400 : 500).json({ error: msg });
+  }
+});
+
+// Abandon the project under way (part of the cost is refunded)
+router.post('/cancel', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await cancelResearch(req.userId!);
+    res.json({ message: 'Research cancelled', ...result });
+  } catch (err: any) {
+    console.error('Research cancel error:', err);
+    const msg = err.message || 'Internal Error';
+    res.status(msg.includes('No research') ? 400 : 500).json({ error: msg });
+  }
+});
+
+export default router;
@@ -1,6 +1,11 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma';
-import { syncPlanetResources } from '../services/planetService';
+import { syncPlanetResources, getNextGridExpansion } from '../services/planetService';
+import { calculateSpyCapacity } from '../services/espionageService';
+import { listBuildingCatalog, sumBuildingEffect } from '../services/buildingCatalog';
+import { parseConstructionQueue } from '../services/constructionService';
+import { getNextBuildSlotCost } from '../services/darkMatterService';
+import { getPirateTier } from '../services/pveService';
 
 const router = Router();
 
@@ -13,6 +18,9 @@ router.get('/planets', async (req: Request, res: Response) => {
           select: {
             id: true,
             username: true,
+            federationMembership: {
+              select: { federation: { select: { id: true, tag: true } } },
+            },
           },
         },
       },
@@ -28,8 +36,16 @@ router.get('/planets', async (req: Request, res: Response) => {
       name: planet.name,
       ownerId: planet.ownerId,
       ownerName: planet.owner.username,
+      federationId: planet.owner.federationMembership?.federation.id || null,
+      federationTag: planet.owner.federationMembership?.federation.tag || null,
+      planetType: planet.planetType,
       isNpc: planet.isNpc,
       npcLevel: planet.npcLevel,
+      npcVariant: planet.npcVariant,
+      // Pirate bases: victories so far toward relocating and levelling up
+      npcAttacks: planet.isNpc && planet.planetType !== 'moon'
+        ? { defeats: planet.npcDefeats, toBeat: getPirateTier(planet.npcLevel).attacksToBeat }
+        : null,
       createdAt: planet.createdAt,
     }));
 
@@ -43,6 +59,11 @@ router.get('/planets', async (req: Request, res: Response) => {
   }
 });
 
+// Building catalog: sizes, per-level costs, build times, prerequisites, limits and effects
+router.get('/buildings', (req: Request, res: Response) => {
+  res.json({ buildings: listBuildingCatalog() });
+});
+
 // Get planet details including units (requires auth for owned planets)
 router.get('/planet/:id', async (req: Request, res: Response) => {
   try {
@@ -68,21 +89,12 @@ router.get('/planet/:id', async (req: Request, res: Response) => {
       return acc;
     }, {} as Record<string, number>);
 
-    // Aggregated Production Levels for UI summary
+    // Hourly production of the planet's buildings (catalog values) for UI summary
     const production = {
-      carbon: 0,
-      titanium: 0,
-      food: 0
+      carbon: sumBuildingEffect(syncedPlanet.buildings, 'carbon'),
+      titanium: sumBuildingEffect(syncedPlanet.buildings, 'titanium'),
+      food: sumBuildingEffect(syncedPlanet.buildings, 'food')
     };
-    if ((syncedPlanet as any).buildings) {
-      (syncedPlanet as any).buildings.forEach((b: any) => {
-        if (b.status === 'active' || b.status === 'upgrading') {
-          if (b.type === 'carbon_processor') production.carbon += b.level;
-          if (b.type === 'titanium_extractor') production.titanium += b.level;
-          if (b.type === 'hydroponics') production.food += b.level;
-        }
-      });
-    }
 
     res.json({
       id: syncedPlanet.id,
@@ -91,6 +103,14 @@ router.get('/planet/:id', async (req: Request, res: Response) => {
       name: syncedPlanet.name,
       ownerId: syncedPlanet.ownerId,
       ownerName: owner?.username || 'Unknown',
+      planetType: syncedPlanet.planetType,
+      isNpc: syncedPlanet.isNpc,
+      npcLevel: syncedPlanet.npcLevel,
+      npcVariant: syncedPlanet.npcVariant,
+      // Pirate bases: victories so far toward relocating and levelling up
+      npcAttacks: syncedPlanet.isNpc && syncedPlanet.planetType !== 'moon'
+        ? { defeats: syncedPlanet.npcDefeats, toBeat: getPirateTier(syncedPlanet.npcLevel).attacksToBeat }
+        : null,
       units,
       resources: {
         carbon: syncedPlanet.carbon,
@@ -98,19 +118,29 @@ router.get('/planet/:id', async (req: Request, res: Response) => {
         food: syncedPlanet.food,
         credits: syncedPlanet.credits,
       },
+      population: syncedPlanet.population,
+      stability: syncedPlanet.stability,
+      stabilitySources: syncedPlanet.stabilitySources,
       production,
+      productionRates: syncedPlanet.productionRates,
+      storage: syncedPlanet.storage,
       buildings: (syncedPlanet as any).buildings || [],
       gridSize: syncedPlanet.gridSize,
+      gridExpansion: getNextGridExpansion(syncedPlanet),
       construction: {
-        isBuilding: syncedPlanet.isBuilding,
-        activeBuildId: syncedPlanet.activeBuildId,
-        buildFinishTime: syncedPlanet.buildFinishTime,
+        slots: syncedPlanet.buildSlots,
+        nextSlotCost: getNextBuildSlotCost(syncedPlanet.buildSlots), // Dark Matter, null when maxed
+        queue: parseConstructionQueue(syncedPlanet.constructionQueue),
       },
       defense: {
         defensiveGrid: syncedPlanet.defensiveGridLevel,
         perimeterField: syncedPlanet.perimeterFieldLevel,
         starport: syncedPlanet.starportLevel,
       },
+      spies: {
+        count: syncedPlanet.spyCount,
+        capacity: calculateSpyCapacity(syncedPlanet.buildings),
+      },
       recruitmentQueue: syncedPlanet.recruitmentQueue ? JSON.parse(syncedPlanet.recruitmentQueue as any) : [],
       manufacturingQueue: syncedPlanet.manufacturingQueue ? JSON.parse(syncedPlanet.manufacturingQueue as any) : [],
       tools: (syncedPlanet as any).tools || [],
@@ -0,0 +1,279 @@
+import prisma from '../lib/prisma';
+
+// Admiral gear (GGE Commander equipment)
+export const GEAR_SLOTS = ['helmet', 'armor', 'weapon', 'insignia'] as const;
+export type GearSlot = typeof GEAR_SLOTS[number];
+
+// Stat keys (percentages). Plain attack/defense apply to every lane, front/flank ones to a subset.
+export type GearStat = 'attack' | 'defense' | 'frontAttack' | 'flankAttack' | 'frontDefense' | 'flankDefense';
+export type GearStats = Partial<Record<GearStat, number>>;
+
+export interface EquippedGear {
+  id: string;
+  slot: GearSlot;
+  rarity: string;
+  name: string;
+  stats: GearStats;
+  sourceLevel?: number;
+}
+
+export type LaneBonuses = Record<'left' | 'front' | 'right', { attack: number; defense: number }>;
+
+// Rarity table: drop weight, number of stat rolls and roll range (%)
+const RARITIES: { key: string; label: string; weight: number; rolls: number; min: number; max: number }[] = [
+  { key: 'common', label: 'Common', weight: 60, rolls: 1, min: 1, max: 3 },
+  { key: 'uncommon', label: 'Uncommon', weight: 25, rolls: 1, min: 2, max: 5 },
+  { key: 'rare', label: 'Rare', weight: 10, rolls: 2, min: 3, max: 6 },
+  { key: 'epic', label: 'Epic', weight: 4, rolls: 2, min: 5, max: 9 },
+  { key: 'legendary', label: 'Legendary', weight: 1, rolls: 3, min: 8, max: 12 },
+];
+
+// Which stats each slot can roll
+const SLOT_STAT_POOLS: Record<GearSlot, GearStat[]> = {
+  helmet: ['attack', 'defense', 'frontDefense', 'flankDefense'],
+  armor: ['defense', 'frontDefense', 'flankDefense'],
+  weapon: ['attack', 'frontAttack', 'flankAttack'],
+  insignia: ['attack', 'defense', 'frontAttack', 'flankAttack'],
+};
+
+const SLOT_NAMES: Record<GearSlot, string> = {
+  helmet: 'Command Visor',
+  armor: 'Carapace Armor',
+  weapon: 'Plasma Saber',
+  insignia: 'Fleet Insignia',
+};
+
+// Naval Academy (Encampment): concurrent attacks and attacks the Admiral can lead, per level.
+// Both follow the commanders of encampment.md (3/6/9/12). Without an academy players still get the
+// first level's 3 attacks, so established players are not cut back, but the Admiral leads only one.
+export const NAVAL_ACADEMY_MAX_LEVEL = 4;
+const NAVAL_ACADEMY_SLOTS: Record<number, { attacks: number; admirals: number }> = {
+  0: { attacks: 3, admirals: 1 }, // No academy
+  1: { attacks: 3, admirals: 3 },
+  2: { attacks: 6, admirals: 6 },
+  3: { attacks: 9, admirals: 9 },
+  4: { attacks: 12, admirals: 12 },
+};
+
+// Drop chance: 25% at level 1, +5% per pirate base level (max 90%)
+const BASE_DROP_CHANCE = 0.25;
+const DROP_CHANCE_PER_LEVEL = 0.05;
+const MAX_DROP_CHANCE = 0.9;
+
+/**
+ * Load the player's Admiral, creating it on first use
+ */
+export async function getOrCreateAdmiral(userId: string) {
+  const existing = await prisma.admiral.findUnique({ where: { userId } });
+  if (existing) return existing;
+  return prisma.admiral.create({ data: { userId } });
+}
+
+export function parseEquippedGear(gearJson: string | null | undefined): Partial<Record<GearSlot, EquippedGear>> {
+  try {
+    return JSON.parse(gearJson || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Chance that beating a pirate base of the given level drops a gear piece
+ */
+export function getGearDropChance(npcLevel: number): number {
+  const level = Math.max(1, npcLevel);
+  return Math.min(MAX_DROP_CHANCE, BASE_DROP_CHANCE + (level - 1) * DROP_CHANCE_PER_LEVEL);
+}
+
+/**
+ * Roll a random gear piece for a pirate base of the given level (null = no drop).
+ * Higher levels drop more often and shift the odds towards rarer pieces.
+ * Pass a seeded rng to reproduce a roll.
+ */
+export function rollGearDrop(
+  npcLevel: number,
+  rng: () => number = Math.random
+): { slot: GearSlot; rarity: string; name: string; stats: GearStats } | null {
+  const level = Math.max(1, npcLevel);
+  if (rng() >= getGearDropChance(level)) return null;
+
+  // Each tier above common gains +25% weight per base level
+  const weights = RARITIES.map((r, i) => r.weight * (1 + i * (level - 1) * 0.25));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  let pick = rng() * totalWeight;
+  let rarityIndex = 0;
+  while (rarityIndex < RARITIES.length - 1 && pick >= weights[rarityIndex]) {
+    pick -= weights[rarityIndex];
+    rarityIndex++;
+  }
+  const rarity = RARITIES[rarityIndex];
+
+  const slot = GEAR_SLOTS[Math.floor(rng() * GEAR_SLOTS.length)];
+  const pool = [...SLOT_STAT_POOLS[slot]];
+  const stats: GearStats = {};
+
+  for (let i = 0; i < rarity.rolls && pool.length > 0; i++) {
+    const stat = pool.splice(Math.floor(rng() * pool.length), 1)[0];
+    // +1% per 5 base levels on top of the rarity range
+    stats[stat] = rarity.min + Math.floor(rng() * (rarity.max - rarity.min + 1)) + Math.floor(level / 5);
+  }
+
+  return { slot, rarity: rarity.key, name: `${rarity.label} ${SLOT_NAMES[slot]}`, stats };
+}
+
+/**
+ * Roll and store a drop for the victor of a pirate base battle
+ */
+export async function awardGearDrop(userId: string, npcLevel: number, rng: () => number = Math.random): Promise<EquippedGear | null> {
+  const drop = rollGearDrop(npcLevel, rng);
+  if (!drop) return null;
+
+  const admiral = await getOrCreateAdmiral(userId);
+  const piece = await prisma.gearPiece.create({
+    data: {
+      admiralId: admiral.id,
+      slot: drop.slot,
+      rarity: drop.rarity,
+      name: drop.name,
+      statsJson: JSON.stringify(drop.stats),
+      sourceLevel: npcLevel,
+    }
+  });
+
+  return { id: piece.id, ...drop, sourceLevel: npcLevel };
+}
+
+/**
+ * Cached Admiral bonuses: the lane-independent attack/defense totals of all equipped pieces
+ */
+export function computeAdmiralBonuses(equipped: Partial<Record<GearSlot, EquippedGear>>) {
+  let attackBonus = 0;
+  let defenseBonus = 0;
+  for (const piece of Object.values(equipped)) {
+    if (!piece) continue;
+    attackBonus += piece.stats.attack || 0;
+    defenseBonus += piece.stats.defense || 0;
+  }
+  return { attackBonus, defenseBonus };
+}
+
+/**
+ * Per-lane attack/defense percentages for an Admiral (all zero without one)
+ */
+export function getLaneBonuses(admiral: { gearJson: string } | null | undefined): LaneBonuses {
+  const bonuses: LaneBonuses = {
+    left: { attack: 0, defense: 0 },
+    front: { attack: 0, defense: 0 },
+    right: { attack: 0, defense: 0 },
+  };
+  if (!admiral) return bonuses;
+
+  for (const piece of Object.values(parseEquippedGear(admiral.gearJson))) {
+    if (!piece) continue;
+    const s = piece.stats;
+    for (const lane of ['left', 'front', 'right'] as const) {
+      const isFront = lane === 'front';
+      bonuses[lane].attack += (s.attack || 0) + ((isFront ? s.frontAttack : s.flankAttack) || 0);
+      bonuses[lane].defense += (s.defense || 0) + ((isFront ? s.frontDefense : s.flankDefense) || 0);
+    }
+  }
+  return bonuses;
+}
+
+// Inventory row for a piece taken off the Admiral
+function toInventoryRow(admiralId: string, piece: EquippedGear) {
+  return {
+    id: piece.id,
+    admiralId,
+    slot: piece.slot,
+    rarity: piece.rarity,
+    name: piece.name,
+    statsJson: JSON.stringify(piece.stats),
+    sourceLevel: piece.sourceLevel || 1,
+  };
+}
+
+/**
+ * Equip a piece from the inventory. Whatever occupied the slot goes back to the inventory.
+ */
+export async function equipGear(userId: string, gearId: string) {
+  const admiral = await getOrCreateAdmiral(userId);
+  const piece = await prisma.gearPiece.findUnique({ where: { id: gearId } });
+  if (!piece || piece.admiralId !== admiral.id) throw new Error('Gear not found');
+
+  const equipped = parseEquippedGear(admiral.gearJson);
+  const slot = piece.slot as GearSlot;
+  const previous = equipped[slot];
+
+  equipped[slot] = {
+    id: piece.id,
+    slot,
+    rarity: piece.rarity,
+    name: piece.name,
+    stats: JSON.parse(piece.statsJson),
+    sourceLevel: piece.sourceLevel,
+  };
+
+  const [, , updated] = await prisma.$transaction([
+    prisma.gearPiece.delete({ where: { id: piece.id } }),
+    prisma.gearPiece.createMany({ data: previous ? [toInventoryRow(admiral.id, previous)] : [] }),
+    prisma.admiral.update({
+      where: { id: admiral.id },
+      data: { gearJson: JSON.stringify(equipped), ...computeAdmiralBonuses(equipped) }
+    }),
+  ]);
+  return updated;
+}
+
+/**
+ * Move the piece in a slot back to the inventory
+ */
+export async function unequipGear(userId: string, slot: string) {
+  if (!GEAR_SLOTS.includes(slot as GearSlot)) throw new Error('Invalid slot');
+
+  const admiral = await getOrCreateAdmiral(userId);
+  const equipped = parseEquippedGear(admiral.gearJson);
+  const piece = equipped[slot as GearSlot];
+  if (!piece) throw new Error('Nothing equipped in that slot');
+
+  delete equipped[slot as GearSlot];
+
+  const [, updated] = await prisma.$transaction([
+    prisma.gearPiece.create({ data: toInventoryRow(admiral.id, piece) }),
+    prisma.admiral.update({
+      where: { id: admiral.id },
+      data: { gearJson: JSON.stringify(equipped), ...computeAdmiralBonuses(equipped) }
+    }),
+  ]);
+  return updated;
+}
+
+/**
+ * Attack and Admiral slots from the player's best Naval Academy, and how many are in use.
+ * An attack occupies its slot until the fleet is back home.
+ */
+export async function getAttackSlots(userId: string) {
+  const academies = await prisma.building.findMany({
+    where: {
+      type: 'naval_academy',
+      status: { in: ['active', 'upgrading'] },
+      planet: { ownerId: userId },
+    },
+    select: { level: true },
+  });
+  const academyLevel = Math.min(NAVAL_ACADEMY_MAX_LEVEL, Math.max(0, ...academies.map(a => a.level)));
+  const slots = NAVAL_ACADEMY_SLOTS[academyLevel];
+
+  const activeAttacks = await prisma.fleet.findMany({
+    where: { ownerId: userId, type: 'attack', status: { in: ['enroute', 'returning'] } },
+    select: { admiralLed: true },
+  });
+
+  return {
+    academyLevel,
+    attackSlots: slots.attacks,
+    attacksUsed: activeAttacks.length,
+    admiralSlots: slots.admirals,
+    admiralsUsed: activeAttacks.filter(f => f.admiralLed).length,
+  };
+}
@@ -0,0 +1,375 @@
+// Building catalog: the single source of building rules (footprint, levels, costs, build times,
+// prerequisites, per-planet limits and effects). Seeded from "Mechanics Documetation/Buildings";
+// Wood maps to Carbon, Stone to Titanium and Rubies to Credits.
+
+export type BuildingCategory = 'core' | 'production' | 'civil' | 'military' | 'decoration';
+
+// Effects of a building at a given level (absolute values, not increments)
+export interface BuildingEffects {
+  carbon?: number;     // Production per hour
+  titanium?: number;   // Production per hour
+  food?: number;       // Production per hour
+  population?: number; // Citizens housed
+  storage?: number;    // Storage per resource
+  stability?: number;  // Public Order
+  researchSpeed?: number; // % faster research
+}
+
+export interface BuildingLevel {
+  playerLevel: number; // Required player level
+  hubLevel: number;    // Required Colony Hub level
+  carbon: number;
+  titanium: number;
+  credits: number;
+  time: number;        // Build time in seconds
+  effects?: BuildingEffects;
+}
+
+export interface BuildingDefinition {
+  type: string;
+  name: string;
+  category: BuildingCategory;
+  size: number;       // Footprint in tiles per side
+  limit?: number;     // Maximum per planet
+  buildable: boolean; // Can be placed from the build dock
+  permanent?: boolean; // Cannot be demolished once built
+  levels: BuildingLevel[]; // Index = level - 1
+}
+
+export const BUILDING_CATALOG: Record<string, BuildingDefinition> = {
+  // Keep. Required by higher building levels
+  colony_hub: {
+    type: 'colony_hub',
+    name: 'Colony Hub',
+    category: 'core',
+    size: 4,
+    limit: 1,
+    buildable: false,
+    levels: [
+      { playerLevel: 1, hubLevel: 0, carbon: 0, titanium: 0, credits: 0, time: 0 },
+      { playerLevel: 11, hubLevel: 0, carbon: 2000, titanium: 2000, credits: 0, time: 1800 },
+      { playerLevel: 24, hubLevel: 0, carbon: 12000, titanium: 12000, credits: 0, time: 7200 },
+      { playerLevel: 52, hubLevel: 0, carbon: 60000, titanium: 60000, credits: 0, time: 21600 },
+    ],
+  },
+  // Woodcutter.md
+  carbon_processor: {
+    type: 'carbon_processor',
+    name: 'Carbon Processor',
+    category: 'production',
+    size: 2,
+    buildable: true,
+    levels: [
+      { playerLevel: 1, hubLevel: 1, carbon: 13, titanium: 0, credits: 0, time: 2, effects: { carbon: 8 } },
+      { playerLevel: 1, hubLevel: 1, carbon: 50, titanium: 20, credits: 0, time: 30, effects: { carbon: 13 } },
+      { playerLevel: 8, hubLevel: 1, carbon: 142, titanium: 76, credits: 0, time: 300, effects: { carbon: 18 } },
+      { playerLevel: 12, hubLevel: 2, carbon: 441, titanium: 441, credits: 0, time: 900, effects: { carbon: 23 } },
+      { playerLevel: 16, hubLevel: 2, carbon: 736, titanium: 900, credits: 0, time: 1800, effects: { carbon: 28 } },
+      { playerLevel: 20, hubLevel: 2, carbon: 1031, titanium: 1547, credits: 0, time: 2700, effects: { carbon: 34 } },
+      { playerLevel: 24, hubLevel: 2, carbon: 1467, titanium: 2725, credits: 0, time: 3600, effects: { carbon: 41 } },
+      { playerLevel: 29, hubLevel: 3, carbon: 1818, titanium: 4243, credits: 0, time: 5400, effects: { carbon: 48 } },
+      { playerLevel: 33, hubLevel: 3, carbon: 2483, titanium: 5795, credits: 0, time: 7200, effects: { carbon: 56 } },
+      { playerLevel: 37, hubLevel: 3, carbon: 11760, titanium: 14880, credits: 0, time: 10800, effects: { carbon: 63 } },
+      { playerLevel: 43, hubLevel: 3, carbon: 49880, titanium: 56120, credits: 0, time: 14400, effects: { carbon: 72 } },
+    ],
+  },
+  // Stone_Quarry.md
+  titanium_extractor: {
+    type: 'titanium_extractor',
+    name: 'Titanium Extractor',
+    category: 'production',
+    size: 2,
+    buildable: true,
+    levels: [
+      { playerLevel: 2, hubLevel: 1, carbon: 14, titanium: 0, credits: 0, time: 5, effects: { titanium: 8 } },
+      { playerLevel: 2, hubLevel: 1, carbon: 20, titanium: 10, credits: 0, time: 6, effects: { titanium: 13 } },
+      { playerLevel: 9, hubLevel: 1, carbon: 236, titanium: 79, credits: 0, time: 390, effects: { titanium: 18 } },
+      { playerLevel: 13, hubLevel: 2, carbon: 799, titanium: 342, credits: 0, time: 900, effects: { titanium: 23 } },
+      { playerLevel: 17, hubLevel: 2, carbon: 1262, titanium: 680, credits: 0, time: 1800, effects: { titanium: 28 } },
+      { playerLevel: 21, hubLevel: 2, carbon: 1920, titanium: 1280, credits: 0, time: 2700, effects: { titanium: 34 } },
+      { playerLevel: 26, hubLevel: 2, carbon: 2767, titanium: 2264, credits: 0, time: 3600, effects: { titanium: 41 } },
+      { playerLevel: 30, hubLevel: 3, carbon: 3743, titanium: 3062, credits: 0, time: 5400, effects: { titanium: 48 } },
+      { playerLevel: 34, hubLevel: 3, carbon: 5298, titanium: 4335, credits: 0, time: 7200, effects: { titanium: 56 } },
+      { playerLevel: 38, hubLevel: 3, carbon: 14715, titanium: 11145, credits: 0, time: 10800, effects: { titanium: 63 } },
+      { playerLevel: 44, hubLevel: 3, carbon: 56110, titanium: 49920, credits: 0, time: 14400, effects: { titanium: 72 } },
+    ],
+  },
+  // Hydroponics--Farmhouse.md
+  hydroponics: {
+    type: 'hydroponics',
+    name: 'Hydroponics',
+    category: 'production',
+    size: 2,
+    buildable: true,
+    levels: [
+      { playerLevel: 2, hubLevel: 1, carbon: 30, titanium: 0, credits: 0, time: 5, effects: { food: 16 } },
+      { playerLevel: 2, hubLevel: 1, carbon: 107, titanium: 19, credits: 0, time: 6, effects: { food: 24 } },
+      { playerLevel: 9, hubLevel: 1, carbon: 236, titanium: 79, credits: 0, time: 390, effects: { food: 32 } },
+      { playerLevel: 14, hubLevel: 2, carbon: 791, titanium: 426, credits: 0, time: 900, effects: { food: 40 } },
+      { playerLevel: 18, hubLevel: 2, carbon: 1256, titanium: 838, credits: 0, time: 1800, effects: { food: 48 } },
+      { playerLevel: 22, hubLevel: 2, carbon: 1949, titanium: 1595, credits: 0, time: 2700, effects: { food: 56 } },
+      { playerLevel: 27, hubLevel: 2, carbon: 2630, titanium: 2630, credits: 0, time: 3600, effects: { food: 64 } },
+      { playerLevel: 31, hubLevel: 3, carbon: 3295, titanium: 4028, credits: 0, time: 5400, effects: { food: 72 } },
+      { playerLevel: 35, hubLevel: 3, carbon: 3977, titanium: 5965, credits: 0, time: 7200, effects: { food: 80 } },
+      { playerLevel: 40, hubLevel: 3, carbon: 5379, titanium: 9990, credits: 0, time: 10800, effects: { food: 88 } },
+    ],
+  },
+  // Dwelling.md: population (tax) at the cost of stability
+  dwelling: {
+    type: 'dwelling',
+    name: 'Dwelling',
+    category: 'civil',
+    size: 2,
+    buildable: true,
+    levels: [
+      { playerLevel: 3, hubLevel: 1, carbon: 20, titanium: 10, credits: 0, time: 10, effects: { population: 10, stability: -10 } },
+      { playerLevel: 8, hubLevel: 1, carbon: 79, titanium: 47, credits: 0, time: 100, effects: { population: 15, stability: -15 } },
+      { playerLevel: 10, hubLevel: 1, carbon: 277, titanium: 166, credits: 0, time: 900, effects: { population: 20, stability: -20 } },
+      { playerLevel: 14, hubLevel: 2, carbon: 707, titanium: 636, credits: 0, time: 1800, effects: { population: 25, stability: -25 } },
+      { playerLevel: 19, hubLevel: 2, carbon: 1107, titanium: 1144, credits: 0, time: 2700, effects: { population: 30, stability: -30 } },
+      { playerLevel: 23, hubLevel: 2, carbon: 1708, titanium: 1995, credits: 0, time: 3600, effects: { population: 35, stability: -35 } },
+      { playerLevel: 28, hubLevel: 2, carbon: 2353, titanium: 3143, credits: 0, time: 5400, effects: { population: 40, stability: -40 } },
+      { playerLevel: 32, hubLevel: 3, carbon: 3066, titanium: 4509, credits: 0, time: 7200, effects: { population: 45, stability: -45 } },
+      { playerLevel: 36, hubLevel: 3, carbon: 3936, titanium: 6317, credits: 0, time: 10800, effects: { population: 50, stability: -50 } },
+      { playerLevel: 41, hubLevel: 3, carbon: 6949, titanium: 12321, credits: 0, time: 14400, effects: { population: 60, stability: -60 } },
+      { playerLevel: 46, hubLevel: 3, carbon: 25279, titanium: 36841, credits: 0, time: 21600, effects: { population: 75, stability: -75 } },
+      { playerLevel: 51, hubLevel: 3, carbon: 54910, titanium: 65840, credits: 0, time: 28800, effects: { population: 85, stability: -85 } },
+    ],
+  },
+  // Town_House.md: paid in credits instead of rubies
+  town_house: {
+    type: 'town_house',
+    name: 'Town House',
+    category: 'civil',
+    size: 2,
+    buildable: true,
+    levels: [
+      { playerLevel: 11, hubLevel: 1, carbon: 0, titanium: 0, credits: 260, time: 10, effects: { population: 20, stability: -10 } },
+      { playerLevel: 11, hubLevel: 1, carbon: 0, titanium: 0, credits: 310, time: 100, effects: { population: 27, stability: -15 } },
+      { playerLevel: 11, hubLevel: 1, carbon: 0, titanium: 0, credits: 480, time: 900, effects: { population: 33, stability: -20 } },
+      { playerLevel: 15, hubLevel: 2, carbon: 0, titanium: 0, credits: 1050, time: 1800, effects: { population: 40, stability: -25 } },
+      { playerLevel: 19, hubLevel: 2, carbon: 0, titanium: 0, credits: 1610, time: 2700, effects: { population: 46, stability: -30 } },
+      { playerLevel: 23, hubLevel: 2, carbon: 0, titanium: 0, credits: 2490, time: 3600, effects: { population: 53, stability: -35 } },
+      { playerLevel: 28, hubLevel: 2, carbon: 0, titanium: 0, credits: 3580, time: 5400, effects: { population: 59, stability: -40 } },
+      { playerLevel: 32, hubLevel: 3, carbon: 0, titanium: 0, credits: 4860, time: 7200, effects: { population: 66, stability: -45 } },
+      { playerLevel: 36, hubLevel: 3, carbon: 0, titanium: 0, credits: 6500, time: 10800, effects: { population: 72, stability: -50 } },
+      { playerLevel: 41, hubLevel: 3, carbon: 0, titanium: 0, credits: 8450, time: 14400, effects: { population: 85, stability: -60 } },
+      { playerLevel: 46, hubLevel: 3, carbon: 0, titanium: 0, credits: 8900, time: 21600, effects: { population: 102, stability: -75 } },
+      { playerLevel: 51, hubLevel: 3, carbon: 0, titanium: 0, credits: 14300, time: 28800, effects: { population: 115, stability: -85 } },
+    ],
+  },
+  // Storehouse.md (levels 8-9 need tokens and are not available)
+  storehouse: {
+    type: 'storehouse',
+    name: 'Storehouse',
+    category: 'civil',
+    size: 2,
+    limit: 1,
+    buildable: true,
+    levels: [
+      { playerLevel: 3, hubLevel: 1, carbon: 79, titanium: 42, credits: 0, time: 20, effects: { storage: 1700 } },
+      { playerLevel: 10, hubLevel: 1, carbon: 454, titanium: 332, credits: 0, time: 300, effects: { storage: 6000 } },
+      { playerLevel: 18, hubLevel: 1, carbon: 1396, titanium: 1396, credits: 0, time: 1200, effects: { storage: 12500 } },
+      { playerLevel: 27, hubLevel: 2, carbon: 3046, titanium: 3967, credits: 0, time: 2700, effects: { storage: 23000 } },
+      { playerLevel: 33, hubLevel: 2, carbon: 4408, titanium: 6630, credits: 0, time: 5400, effects: { storage: 40000 } },
+      { playerLevel: 39, hubLevel: 2, carbon: 5521, titanium: 9418, credits: 0, time: 10800, effects: { storage: 60000 } },
+      { playerLevel: 45, hubLevel: 2, carbon: 11354, titanium: 15387, credits: 0, time: 21600, effects: { storage: 80000 } },
+    ],
+  },
+  // barracks.md: unit recruitment, 5% faster per level
+  academy: {
+    type: 'academy',
+    name: 'Training Depot',
+    category: 'military',
+    size: 3,
+    buildable: true,
+    levels: [
+      { playerLevel: 2, hubLevel: 1, carbon: 100, titanium: 100, credits: 0, time: 30, effects: { stability: -5 } },
+      { playerLevel: 8, hubLevel: 1, carbon: 300, titanium: 250, credits: 0, time: 300, effects: { stability: -10 } },
+      { playerLevel: 14, hubLevel: 1, carbon: 800, titanium: 700, credits: 0, time: 900, effects: { stability: -15 } },
+      { playerLevel: 20, hubLevel: 2, carbon: 2000, titanium: 1800, credits: 0, time: 1800, effects: { stability: -20 } },
+      { playerLevel: 26, hubLevel: 2, carbon: 4000, titanium: 3800, credits: 0, time: 3600, effects: { stability: -25 } },
+      { playerLevel: 30, hubLevel: 2, carbon: 7000, titanium: 7000, credits: 0, time: 5400, effects: { stability: -30 } },
+      { playerLevel: 30, hubLevel: 2, carbon: 11000, titanium: 11000, credits: 0, time: 7200, effects: { stability: -35 } },
+      { playerLevel: 30, hubLevel: 3, carbon: 16000, titanium: 16000, credits: 0, time: 10800, effects: { stability: -40 } },
+      { playerLevel: 30, hubLevel: 3, carbon: 23000, titanium: 23000, credits: 0, time: 14400, effects: { stability: -45 } },
+      { playerLevel: 30, hubLevel: 3, carbon: 32000, titanium: 32000, credits: 0, time: 21600, effects: { stability: -50 } },
+    ],
+  },
+  // encampment.md: attack and Admiral slots
+  naval_academy: {
+    type: 'naval_academy',
+    name: 'Naval Academy',
+    category: 'military',
+    size: 3,
+    limit: 1,
+    buildable: true,
+    levels: [
+      { playerLevel: 2, hubLevel: 1, carbon: 158, titanium: 83, credits: 0, time: 18, effects: { stability: -5 } },
+      { playerLevel: 15, hubLevel: 1, carbon: 1885, titanium: 1695, credits: 0, time: 1800, effects: { stability: -10 } },
+      { playerLevel: 29, hubLevel: 1, carbon: 6821, titanium: 9343, credits: 0, time: 7200, effects: { stability: -15 } },
+      { playerLevel: 42, hubLevel: 2, carbon: 55005, titanium: 51740, credits: 0, time: 21600, effects: { stability: -20 } },
+    ],
+  },
+  // tavern.md: agents and counter-intelligence
+  tavern: {
+    type: 'tavern',
+    name: 'Intelligence Hub',
+    category: 'military',
+    size: 2,
+    buildable: true,
+    levels: [
+      { playerLevel: 7, hubLevel: 1, carbon: 145, titanium: 95, credits: 0, time: 240 },
+      { playerLevel: 20, hubLevel: 1, carbon: 2494, titanium: 2662, credits: 0, time: 1800 },
+      { playerLevel: 30, hubLevel: 1, carbon: 5663, titanium: 7947, credits: 0, time: 7200 },
+      { playerLevel: 65, hubLevel: 2, carbon: 74980, titanium: 79880, credits: 0, time: 28800 },
+    ],
+  },
+  // defense_workshop.md
+  defense_workshop: {
+    type: 'defense_workshop',
+    name: 'Systems Workshop',
+    category: 'military',
+    size: 2,
+    limit: 1,
+    buildable: true,
+    levels: [
+      { playerLevel: 5, hubLevel: 1, carbon: 61, titanium: 30, credits: 0, time: 30, effects: { stability: -5 } },
+      { playerLevel: 16, hubLevel: 1, carbon: 1693, titanium: 1580, credits: 0, time: 1800, effects: { stability: -10 } },
+      { playerLevel: 38, hubLevel: 1, carbon: 8146, titanium: 13623, credits: 0, time: 7200, effects: { stability: -15 } },
+    ],
+  },
+  // siege_workshop.md
+  siege_workshop: {
+    type: 'siege_workshop',
+    name: 'Munitions Factory',
+    category: 'military',
+    size: 2,
+    limit: 1,
+    buildable: true,
+    levels: [
+      { playerLevel: 4, hubLevel: 1, carbon: 118, titanium: 63, credits: 0, time: 20, effects: { stability: -5 } },
+      { playerLevel: 17, hubLevel: 1, carbon: 1975, titanium: 1908, credits: 0, time: 1800, effects: { stability: -10 } },
+      { playerLevel: 38, hubLevel: 1, carbon: 8146, titanium: 13623, credits: 0, time: 7200, effects: { stability: -15 } },
+    ],
+  },
+  // stables.md: +10% fleet speed per level
+  hangar_bay: {
+    type: 'hangar_bay',
+    name: 'Hangar Bay',
+    category: 'military',
+    size: 2,
+    buildable: true,
+    levels: [
+      { playerLevel: 7, hubLevel: 1, carbon: 300, titanium: 300, credits: 0, time: 300, effects: { stability: -5 } },
+      { playerLevel: 14, hubLevel: 1, carbon: 1200, titanium: 1000, credits: 0, time: 1800, effects: { stability: -10 } },
+      { playerLevel: 22, hubLevel: 1, carbon: 4000, titanium: 3500, credits: 0, time: 5400, effects: { stability: -15 } },
+      { playerLevel: 30, hubLevel: 2, carbon: 10000, titanium: 9000, credits: 0, time: 14400, effects: { stability: -20 } },
+      { playerLevel: 40, hubLevel: 2, carbon: 25000, titanium: 22000, credits: 0, time: 28800, effects: { stability: -25 } },
+    ],
+  },
+  // research_tower.md: technologies for every planet of its owner
+  research_tower: {
+    type: 'research_tower',
+    name: 'Research Tower',
+    category: 'military',
+    size: 3,
+    limit: 1,
+    buildable: true,
+    permanent: true,
+    levels: [
+      { playerLevel: 6, hubLevel: 1, carbon: 40, titanium: 30, credits: 0, time: 60, effects: { stability: -5 } },
+      { playerLevel: 30, hubLevel: 2, carbon: 13803, titanium: 23546, credits: 0, time: 14400, effects: { stability: -10 } },
+      { playerLevel: 45, hubLevel: 3, carbon: 37584, titanium: 49736, credits: 0, time: 28800, effects: { stability: -15, researchSpeed: 20 } },
+      { playerLevel: 70, hubLevel: 3, carbon: 74281, titanium: 80534, credits: 0, time: 43200, effects: { stability: -20, researchSpeed: 40 } },
+    ],
+  },
+  // Glory_Memorial.md: decoration
+  monument: {
+    type: 'monument',
+    name: 'Holo-Monument',
+    category: 'decoration',
+    size: 1,
+    buildable: true,
+    levels: [
+      { playerLevel: 2, hubLevel: 1, carbon: 500, titanium: 0, credits: 0, time: 60, effects: { stability: 20 } },
+      { playerLevel: 8, hubLevel: 1, carbon: 1500, titanium: 500, credits: 0, time: 600, effects: { stability: 40 } },
+      { playerLevel: 16, hubLevel: 1, carbon: 4000, titanium: 2000, credits: 0, time: 1800, effects: { stability: 60 } },
+      { playerLevel: 24, hubLevel: 2, carbon: 9000, titanium: 5000, credits: 0, time: 3600, effects: { stability: 80 } },
+      { playerLevel: 32, hubLevel: 2, carbon: 18000, titanium: 10000, credits: 0, time: 7200, effects: { stability: 100 } },
+    ],
+  },
+};
+
+const DEFAULT_SIZE = 2;
+
+export function getBuildingDefinition(type: string): BuildingDefinition | undefined {
+  return BUILDING_CATALOG[type];
+}
+
+export function getBuildingSize(type: string): number {
+  return BUILDING_CATALOG[type]?.size || DEFAULT_SIZE;
+}
+
+export function getMaxLevel(type: string): number {
+  return BUILDING_CATALOG[type]?.levels.length || 0;
+}
+
+/**
+ * Catalog entry for one level of a building (undefined past the max level)
+ */
+export function getBuildingLevel(type: string, level: number): BuildingLevel | undefined {
+  return BUILDING_CATALOG[type]?.levels[level - 1];
+}
+
+/**
+ * Effects of a placed building; buildings under construction have none yet
+ */
+export function getBuildingEffects(building: { type: string; level: number; status: string }): BuildingEffects {
+  if (building.level < 1 || (building.status !== 'active' && building.status !== 'upgrading')) return {};
+  const levels = BUILDING_CATALOG[building.type]?.levels;
+  if (!levels) return {};
+  return levels[Math.min(building.level, levels.length) - 1].effects || {};
+}
+
+/**
+ * Total of one effect over a planet's buildings
+ */
+export function sumBuildingEffect(
+  buildings: { type: string; level: number; status: string }[],
+  effect: keyof BuildingEffects
+): number {
+  return buildings.reduce((sum, b) => sum + (getBuildingEffects(b)[effect] || 0), 0);
+}
+
+/**
+ * Throws if the player or planet does not meet the prerequisites for a building level
+ */
+export function checkBuildingRequirements(
+  type: string,
+  level: number,
+  playerLevel: number,
+  buildings: { type: string; level: number; status: string }[]
+) {
+  const def = BUILDING_CATALOG[type];
+  const row = getBuildingLevel(type, level);
+  if (!def || !row) throw new Error(`${def?.name || type} is at max level`);
+
+  if (playerLevel < row.playerLevel) {
+    throw new Error(`${def.name} level ${level} requires player level ${row.playerLevel}`);
+  }
+
+  const hubLevel = buildings
+    .filter(b => b.type === 'colony_hub' && (b.status === 'active' || b.status === 'upgrading'))
+    .reduce((max, b) => Math.max(max, b.level), 0);
+  if (hubLevel < row.hubLevel) {
+    throw new Error(`${def.name} level ${level} requires Colony Hub level ${row.hubLevel}`);
+  }
+}
+
+/**
+ * Catalog as served to clients
+ */
+export function listBuildingCatalog() {
+  return Object.values(BUILDING_CATALOG).map(def => ({ ...def, maxLevel: def.levels.length }));
+}
@@ -1,4 +1,11 @@
 import prisma from '../lib/prisma';
+import { getStationedContingents, splitLaneLosses, applyStationedLosses, StationedLossReport } from './supportService';
+import { conquerMoonColony } from './outpostService';
+import { getLaneBonuses, awardGearDrop, LaneBonuses, EquippedGear } from './admiralService';
+import { awardPirateDarkMatter } from './darkMatterService';
+import { getResearchBonuses } from './researchService';
+import { calculateProtectedStorage } from './planetService';
+import { getPirateCastellan } from './pveService';
 
 // --- CONSTANTS & STATS ---
 
@@ -14,17 +21,26 @@ const UNIT_STATS: Record<string, { meleeAtk: number; rangedAtk: number; meleeDef
   interceptor: { meleeAtk: 16, rangedAtk: 0, meleeDef: 8, rangedDef: 8, capacity: 15 },
 };
 
-// Helper: Calculate total loot based on capacity and planet resources
-function calculateLoot(survivingUnits: FlankUnits, planetResources: { carbon: number; titanium: number; food: number }) {
+// Helper: Total resources a group of units can carry (loot or trade cargo)
+export function calculateCarryCapacity(units: FlankUnits): number {
   let totalCapacity = 0;
-  for (const [u, count] of Object.entries(survivingUnits)) {
+  for (const [u, count] of Object.entries(units)) {
     const caps = UNIT_STATS[u]?.capacity || 0;
     totalCapacity += caps * count;
   }
+  return totalCapacity;
+}
+
+// Resources that can be plundered (and carried home as loot)
+type LootResources = { carbon: number; titanium: number; food: number; credits: number };
+
+// Helper: Calculate total loot based on capacity and planet resources
+function calculateLoot(survivingUnits: FlankUnits, planetResources: LootResources) {
+  const totalCapacity = calculateCarryCapacity(survivingUnits);
 
   const available = { ...planetResources };
-  const totalAvailable = available.carbon + available.titanium + available.food;
-  const loot = { carbon: 0, titanium: 0, food: 0 };
+  const totalAvailable = available.carbon + available.titanium + available.food + available.credits;
+  const loot = { carbon: 0, titanium: 0, food: 0, credits: 0 };
 
   if (totalAvailable === 0 || totalCapacity === 0) return loot;
 
@@ -36,6 +52,7 @@ function calculateLoot(survivingUnits: FlankUnits, planetResources: { carbon: nu
   loot.carbon = Math.floor(available.carbon * ratio);
   loot.titanium = Math.floor(available.titanium * ratio);
   loot.food = Math.floor(available.food * ratio);
+  loot.credits = Math.floor(available.credits * ratio);
 
   return loot;
 }
@@ -56,11 +73,16 @@ interface FlankUnits {
   [unitType: string]: number;
 }
 
-interface Wave {
+export interface Wave {
   units: FlankUnits;
   tools: Record<string, number>;
 }
 
+export interface DefenderLane {
+  units: FlankUnits;
+  tools: { type: string; count: number }[];
+}
+
 interface WaveResult {
   waveIndex: number;
   attackerUnits: FlankUnits;
@@ -81,11 +103,44 @@ interface SectorResult {
   attackerToolsByWave: Record<string, number>[];
   waveResults: WaveResult[]; // NEW: Detailed breakdown per wave
   defenderTools: Record<string, number>;
+  admiralBonus: StrengthBonus; // Attacker attack % / defender defense % applied in this sector
   attackerLosses: FlankUnits;
   defenderLosses: FlankUnits;
   wavesFought: number;
 }
 
+interface SurfaceResult {
+  winner: 'attacker' | 'defender';
+  attackerBonus: number;
+  defenderBonus: number;
+  initialAttackerUnits: FlankUnits; // NEW
+  initialDefenderUnits: FlankUnits; // NEW
+  attackerLosses: FlankUnits;
+  defenderLosses: FlankUnits;
+}
+
+// Strength percentages in effect for one collision (Admiral gear, surface sector control)
+interface StrengthBonus {
+  attack: number;
+  defense: number;
+}
+
+// Research percentages on top of UNIT_STATS, per side
+export interface UnitStatBoosts {
+  meleeAtk: number;
+  rangedAtk: number;
+  meleeDef: number;
+  rangedDef: number;
+}
+
+interface BattleResearch {
+  attacker: UnitStatBoosts;
+  defender: UnitStatBoosts;
+}
+
+const NO_BOOSTS: UnitStatBoosts = { meleeAtk: 0, rangedAtk: 0, meleeDef: 0, rangedDef: 0 };
+const NO_BATTLE_RESEARCH: BattleResearch = { attacker: NO_BOOSTS, defender: NO_BOOSTS };
+
 interface CombatResult {
   winner: 'attacker' | 'defender';
   sectorResults: {
@@ -93,23 +148,26 @@ interface CombatResult {
     center: SectorResult;
     right: SectorResult;
   };
-  surfaceResult: {
-    winner: 'attacker' | 'defender';
-    attackerBonus: number;
-    defenderBonus: number;
-    initialAttackerUnits: FlankUnits; // NEW
-    initialDefenderUnits: FlankUnits; // NEW
-    attackerLosses: FlankUnits;
-    defenderLosses: FlankUnits;
-  } | null;
+  surfaceResult: SurfaceResult | null;
   attackerTotalLosses: FlankUnits;
-  defenderTotalLosses: FlankUnits;
+  defenderTotalLosses: FlankUnits; // Host only (allied reinforcements are in stationedLosses)
+  stationedLosses: StationedLossReport[];
+  conquest: { conquered: boolean; reason?: string } | null; // Moon Colony capture attempt
+  admirals: { attacker: LaneBonuses; defender: LaneBonuses };
+  gearDrop: EquippedGear | null; // Admiral gear recovered from a pirate base
+  darkMatterDrop: number; // Dark Matter cache of a high-level pirate base
   resourcesJson: string | null;
 }
 
 // Stats aggregation helper
-function getUnitStats(unitType: string) {
-  return UNIT_STATS[unitType] || { meleeAtk: 5, rangedAtk: 5, meleeDef: 5, rangedDef: 5 };
+function getUnitStats(unitType: string, boosts: UnitStatBoosts = NO_BOOSTS) {
+  const s = UNIT_STATS[unitType] || { meleeAtk: 5, rangedAtk: 5, meleeDef: 5, rangedDef: 5 };
+  return {
+    meleeAtk: s.meleeAtk * (1 + boosts.meleeAtk / 100),
+    rangedAtk: s.rangedAtk * (1 + boosts.rangedAtk / 100),
+    meleeDef: s.meleeDef * (1 + boosts.meleeDef / 100),
+    rangedDef: s.rangedDef * (1 + boosts.rangedDef / 100),
+  };
 }
 
 /**
@@ -122,7 +180,9 @@ export function resolveWaveCollision(
   attackerTools: Record<string, number>,
   defenseBuildings: { shield: number; starport: number; perimeter: number },
   isCenter: boolean,
-  defenderTools: Record<string, number> = {} // New argument for defender tools specifically
+  defenderTools: Record<string, number> = {}, // New argument for defender tools specifically
+  strengthBonus: StrengthBonus = { attack: 0, defense: 0 },
+  research: BattleResearch = NO_BATTLE_RESEARCH
 ): {
   attackerWon: boolean;
   attackerLosses: FlankUnits;
@@ -135,11 +195,15 @@ export function resolveWaveCollision(
   let attRanged = 0;
 
   for (const [u, count] of Object.entries(attackerUnits)) {
-    const s = getUnitStats(u);
+    const s = getUnitStats(u, research.attacker);
     attMelee += s.meleeAtk * count;
     attRanged += s.rangedAtk * count;
   }
 
+  // Attacker strength bonus (Admiral gear, surface control) boosts both melee and ranged
+  attMelee *= (1 + strengthBonus.attack / 100);
+  attRanged *= (1 + strengthBonus.attack / 100);
+
   // ATTACKER TOOL MODIFIERS
   // Plasma Grenades (+Ranged Dmg?) -> Placeholder name? GGE uses specific tools.
   // We use: signal_jammer (vs Shield), breach_cutter (vs Gate), holo_decoy (vs Ranged)
@@ -151,7 +215,7 @@ export function resolveWaveCollision(
   let defRanged = 0;
 
   for (const [u, count] of Object.entries(defenderUnits)) {
-    const s = getUnitStats(u);
+    const s = getUnitStats(u, research.defender);
     defMelee += s.meleeDef * count;
     defRanged += s.rangedDef * count;
   }
@@ -191,6 +255,10 @@ export function resolveWaveCollision(
   if (defenderTools.blast_door && isCenter) {
     gateBonusPct += 0.35;
   }
+  // Shield Amplifier (research: Hardened Shields): +50% Wall (Shield)
+  if (defenderTools.shield_amplifier) {
+    wallBonusPct += 0.50;
+  }
   // Swamp Snapper / Moat tool? Not implemented yet.
 
   // --- ATTACKER TOOLS (Reductions) ---
@@ -206,6 +274,12 @@ export function resolveWaveCollision(
     gateBonusPct = Math.max(0, gateBonusPct - reduction);
   }
 
+  // Plasma Breacher (research: Siege Engineering): -20% Gate per tool
+  if (attackerTools.plasma_breacher && isCenter) {
+    const reduction = attackerTools.plasma_breacher * 0.20;
+    gateBonusPct = Math.max(0, gateBonusPct - reduction);
+  }
+
   // Holo Decoy: Reduces Defender Ranged Strength (aka Shielding from Range?)
   // GGE: Mantlet reduces Enemy Ranged Strength (Bowmen).
   // Effectively reduces `defRanged`?
@@ -232,7 +306,8 @@ export function resolveWaveCollision(
     totalDefPower = 0.1;
   }
 
-  const totalBonusPct = wallBonusPct + gateBonusPct + moatBonusPct;
+  // Defender strength bonus stacks with the wall/gate/moat bonuses
+  const totalBonusPct = wallBonusPct + gateBonusPct + moatBonusPct + strengthBonus.defense / 100;
   totalDefPower *= (1 + totalBonusPct);
 
 
@@ -285,7 +360,9 @@ export function resolveSector(
   attackWaves: Wave[],
   initialDefenderLane: { units: FlankUnits, tools: { type: string, count: number }[] },
   defenseBuildings: { shield: number; starport: number; perimeter: number },
-  isCenter: boolean
+  isCenter: boolean,
+  admiralBonus: StrengthBonus = { attack: 0, defense: 0 },
+  research: BattleResearch = NO_BATTLE_RESEARCH
 ): SectorResult {
 
   // -- Calculate Initials --
@@ -359,7 +436,9 @@ export function resolveSector(
       wave.tools, // Attacker Tools
       defenseBuildings,
       isCenter,
-      activeDefenderTools // Defender Tools
+      activeDefenderTools, // Defender Tools
+      admiralBonus,
+      research
     );
 
     // Record Wave Result
@@ -413,6 +492,7 @@ export function resolveSector(
     attackerToolsByWave,
     waveResults,
     defenderTools: { ...defenseBuildings },
+    admiralBonus,
     attackerLosses: totalAttackerLosses,
     defenderLosses: totalDefenderLosses,
     wavesFought
@@ -420,71 +500,86 @@ export function resolveSector(
 }
 
 
-export async function resolveCombat(fleetId: string): Promise<CombatResult> {
-  const fleet = await prisma.fleet.findUnique({
-    where: { id: fleetId },
-    include: {
-      owner: { include: { admiral: true } },
-      toPlanet: { include: { defenseLayout: true, owner: true } }
-    }
-  });
+export interface BattleSetup {
+  waves: { left: Wave[]; front: Wave[]; right: Wave[] };
+  lanes: { left: DefenderLane; front: DefenderLane; right: DefenderLane };
+  surfaceDefenders: FlankUnits; // Courtyard units + unassigned garrison
+  buildings: { shield: number; starport: number; perimeter: number };
+  admirals: { attacker: LaneBonuses; defender: LaneBonuses; surface: StrengthBonus };
+  research?: BattleResearch; // Unit stat boosts; none when omitted
+  resources: LootResources;
+}
 
-  if (!fleet || fleet.type !== 'attack' || fleet.status !== 'arrived') {
-    throw new Error("Invalid fleet state");
-  }
+export interface BattleOutcome {
+  winner: 'attacker' | 'defender';
+  sectorResults: { left: SectorResult; center: SectorResult; right: SectorResult };
+  surfaceResult: SurfaceResult | null;
+  attackerTotalLosses: FlankUnits;
+  defenderTotalLosses: FlankUnits; // Everyone defending (host + allied reinforcements)
+  loot: LootResources | null;
+}
 
-  // 1. Parsing Inputs
-  let attStructure: { left: Wave[], front: Wave[], right: Wave[] } = { left: [], front: [], right: [] };
+// Helper: Counts keyed by unit or tool type (whole, non-negative numbers)
+function isCountMap(value: unknown): value is Record<string, number> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(c => Number.isInteger(c) && (c as number) >= 0);
+}
 
-  try {
-    const raw = JSON.parse(fleet.laneAssignmentsJson || '{}');
-    const normalize = (input: any) => {
-      if (Array.isArray(input)) return input;
-      if (input && typeof input === 'object') return [{ units: input, tools: {} }];
-      return [];
-    };
-    attStructure.left = normalize(raw.left);
-    attStructure.front = normalize(raw.front);
-    attStructure.right = normalize(raw.right);
-  } catch (e) {
-    console.error("Error parsing fleet assignments", e);
+// Helper: Whether one lane of attack assignments has a shape normalizeAttackWaves accepts
+export function isValidAttackLane(input: unknown): boolean {
+  if (input === undefined || input === null) return true;
+  if (Array.isArray(input)) {
+    return input.every(wave => !!wave && isCountMap(wave.units) && (wave.tools === undefined || isCountMap(wave.tools)));
   }
+  return isCountMap(input);
+}
 
-  const defenseLayout = fleet.toPlanet.defenseLayout;
+// Helper: Normalize one lane of attack assignments (wave array, or legacy plain units object)
+export function normalizeAttackWaves(input: any): Wave[] {
+  if (Array.isArray(input)) return input.map(wave => ({ units: wave.units, tools: wave.tools || {} }));
+  if (input && typeof input === 'object') return [{ units: input, tools: {} }];
+  return [];
+}
 
-  // Helper to parse/normalize Defender Lane JSON
-  const parseDefLane = (json: string | null): { units: FlankUnits, tools: { type: string, count: number }[] } => {
-    if (!json) return { units: {}, tools: [] };
-    try {
-      const data = JSON.parse(json);
-      // New format: { units: {...}, tools: [...] }
-      if (data.units || data.tools) {
-        return {
-          units: data.units || {},
-          tools: Array.isArray(data.tools) ? data.tools : []
-        };
-      }
-      // Legacy format: { marine: 10, ... } (Just units)
-      return { units: data, tools: [] };
-    } catch {
-      return { units: {}, tools: [] };
-    }
-  };
+// Helper: Normalize a defender lane ({ units, tools } or legacy plain units object)
+export function normalizeDefenderLane(data: any): DefenderLane {
+  if (!data || typeof data !== 'object') return { units: {}, tools: [] };
+  if (data.units || data.tools) {
+    return {
+      units: data.units || {},
+      tools: Array.isArray(data.tools) ? data.tools : []
+    };
+  }
+  return { units: data, tools: [] };
+}
 
-  const defLeft = parseDefLane(defenseLayout?.leftLaneJson || null);
-  const defCenter = parseDefLane(defenseLayout?.frontLaneJson || null);
-  const defRight = parseDefLane(defenseLayout?.rightLaneJson || null);
+// Helper: Courtyard defenders = assigned courtyard units + garrison not posted on any lane
+export function getSurfaceDefenders(garrison: FlankUnits, postedLanes: FlankUnits[], courtyard: FlankUnits): FlankUnits {
+  const surfDef: FlankUnits = { ...courtyard };
+  for (const [u, count] of Object.entries(garrison)) {
+    const posted = postedLanes.reduce((sum, lane) => sum + (lane[u] || 0), 0) + (courtyard[u] || 0);
+    const unassigned = Math.max(0, count - posted);
+    if (unassigned > 0) surfDef[u] = (surfDef[u] || 0) + unassigned;
+  }
+  return surfDef;
+}
 
-  const buildings = {
-    shield: fleet.toPlanet.defensiveGridLevel,
-    starport: fleet.toPlanet.starportLevel,
-    perimeter: fleet.toPlanet.perimeterFieldLevel
-  };
+/**
+ * Resolve sectors, surface and loot without touching the database.
+ * Combat has no random elements, so identical setups always produce identical outcomes.
+ */
+export function simulateBattle(setup: BattleSetup): BattleOutcome {
+  const { buildings, admirals } = setup;
+  const research = setup.research || NO_BATTLE_RESEARCH;
+  const laneBonus = (lane: 'left' | 'front' | 'right'): StrengthBonus => ({
+    attack: admirals.attacker[lane].attack,
+    defense: admirals.defender[lane].defense
+  });
 
   // 2. Resolve Sectors
-  const leftResult = resolveSector(attStructure.left, defLeft, buildings, false);
-  const centerResult = resolveSector(attStructure.front, defCenter, buildings, true);
-  const rightResult = resolveSector(attStructure.right, defRight, buildings, false);
+  const leftResult = resolveSector(setup.waves.left, setup.lanes.left, buildings, false, laneBonus('left'), research);
+  const centerResult = resolveSector(setup.waves.front, setup.lanes.front, buildings, true, laneBonus('front'), research);
+  const rightResult = resolveSector(setup.waves.right, setup.lanes.right, buildings, false, laneBonus('right'), research);
 
   // 3. Surface Invasion Logic
   let attackerSectorsWon = 0;
@@ -509,10 +604,9 @@ export async function resolveCombat(fleetId: string): Promise<CombatResult> {
   addUnits(surfAtt, centerResult.survivingAttackers);
   addUnits(surfAtt, rightResult.survivingAttackers);
 
-  // Courtyard Defense (Empty)
-  const surfDef: FlankUnits = {};
+  const surfDef: FlankUnits = { ...setup.surfaceDefenders };
 
-  let surfaceResult = null;
+  let surfaceResult: SurfaceResult | null = null;
   if (attackerSectorsWon > 0) {
     // Check if attacker has units to fight with
     const attCount = Object.values(surfAtt).reduce((a, b) => a + b, 0);
@@ -531,7 +625,13 @@ export async function resolveCombat(fleetId: string): Promise<CombatResult> {
           surfDef,
           {},
           { shield: 0, starport: 0, perimeter: 0 },
-          false
+          false,
+          {},
+          {
+            attack: admirals.surface.attack + attBonus * 100,
+            defense: admirals.surface.defense + defBonus * 100
+          },
+          research
         );
         attackerWonSurface = finalBat.attackerWon;
         attLosses = finalBat.attackerLosses;
@@ -547,7 +647,7 @@ export async function resolveCombat(fleetId: string): Promise<CombatResult> {
       initialDefenderUnits: { ...surfDef },
       attackerLosses: attLosses,
       defenderLosses: defLosses
-    } as const;
+    };
   }
 
   const finalWinner = (surfaceResult && surfaceResult.winner === 'attacker') ? 'attacker' : 'defender';
@@ -572,7 +672,7 @@ export async function resolveCombat(fleetId: string): Promise<CombatResult> {
   if (surfaceResult) agg(totalDefLosses, surfaceResult.defenderLosses);
 
   // Loot
-  let lootJson = null;
+  let loot = null;
   if (finalWinner === 'attacker') {
     // Determine survivors
     if (surfaceResult) {
@@ -581,33 +681,211 @@ export async function resolveCombat(fleetId: string): Promise<CombatResult> {
         survivingUnitsFinal[u] = Math.max(0, c - loss);
       }
     }
-    const rawLoot = calculateLoot(survivingUnitsFinal, {
-      carbon: fleet.toPlanet.carbon,
-      titanium: fleet.toPlanet.titanium,
-      food: fleet.toPlanet.food
-    });
-    lootJson = JSON.stringify(rawLoot);
+    loot = calculateLoot(survivingUnitsFinal, setup.resources);
   }
 
+  return {
+    winner: finalWinner,
+    sectorResults: {
+      left: leftResult,
+      center: centerResult,
+      right: rightResult
+    },
+    surfaceResult,
+    attackerTotalLosses: totalAttLosses,
+    defenderTotalLosses: totalDefLosses,
+    loot
+  };
+}
+
+// Combat itself is deterministic; rng only drives the pirate loot rolls (pass a seeded one to reproduce them)
+export async function resolveCombat(fleetId: string, rng: () => number = Math.random): Promise<CombatResult> {
+  const fleet = await prisma.fleet.findUnique({
+    where: { id: fleetId },
+    include: {
+      owner: { include: { admiral: true } },
+      toPlanet: { include: { defenseLayout: true, buildings: true, owner: { include: { admiral: true } } } }
+    }
+  });
+
+  if (!fleet || fleet.type !== 'attack' || fleet.status !== 'arrived') {
+    throw new Error("Invalid fleet state");
+  }
+
+  // 1. Parsing Inputs
+  let attStructure: { left: Wave[], front: Wave[], right: Wave[] } = { left: [], front: [], right: [] };
+
+  try {
+    const raw = JSON.parse(fleet.laneAssignmentsJson || '{}');
+    attStructure.left = normalizeAttackWaves(raw.left);
+    attStructure.front = normalizeAttackWaves(raw.front);
+    attStructure.right = normalizeAttackWaves(raw.right);
+  } catch (e) {
+    console.error("Error parsing fleet assignments", e);
+  }
+
+  const defenseLayout = fleet.toPlanet.defenseLayout;
+
+  // Helper to parse/normalize Defender Lane JSON
+  const parseDefLane = (json: string | null): DefenderLane => {
+    if (!json) return { units: {}, tools: [] };
+    try {
+      return normalizeDefenderLane(JSON.parse(json));
+    } catch {
+      return { units: {}, tools: [] };
+    }
+  };
+
+  const defLeft = parseDefLane(defenseLayout?.leftLaneJson || null);
+  const defCenter = parseDefLane(defenseLayout?.frontLaneJson || null);
+  const defRight = parseDefLane(defenseLayout?.rightLaneJson || null);
+
+  // Allied reinforcements stationed at the target join the lanes, following the host's distribution
+  const hostLeft = { ...defLeft.units };
+  const hostCenter = { ...defCenter.units };
+  const hostRight = { ...defRight.units };
+  const countUnits = (units: FlankUnits) => Object.values(units).reduce((a, b) => a + b, 0);
+
+  const contingents = await getStationedContingents(fleet.toPlanetId, {
+    left: countUnits(hostLeft),
+    front: countUnits(hostCenter),
+    right: countUnits(hostRight)
+  });
+
+  const mergeUnits = (base: FlankUnits, extra: FlankUnits) => {
+    const merged = { ...base };
+    for (const [u, c] of Object.entries(extra)) merged[u] = (merged[u] || 0) + c;
+    return merged;
+  };
+  contingents.forEach(c => {
+    defLeft.units = mergeUnits(defLeft.units, c.lanes.left);
+    defCenter.units = mergeUnits(defCenter.units, c.lanes.front);
+    defRight.units = mergeUnits(defRight.units, c.lanes.right);
+  });
+
+  const buildings = {
+    shield: fleet.toPlanet.defensiveGridLevel,
+    starport: fleet.toPlanet.starportLevel,
+    perimeter: fleet.toPlanet.perimeterFieldLevel
+  };
+
+  // Admiral gear: attacker attack % and defender defense % per lane.
+  // Attacks beyond the Naval Academy's Admiral slots sail without the Admiral.
+  const attackerAdmiral = fleet.admiralLed ? fleet.owner.admiral : null;
+  // Pirate bases fight under their castellan instead of an Admiral and research
+  const castellan = fleet.toPlanet.isNpc ? getPirateCastellan(fleet.toPlanet.npcLevel) : null;
+  const attAdmiral = getLaneBonuses(attackerAdmiral);
+  const defAdmiral = castellan ? castellan.lanes : getLaneBonuses(fleet.toPlanet.owner.admiral);
+
+  // Research of both players; allied reinforcements fight with the host's
+  const research = {
+    attacker: await getResearchBonuses(fleet.ownerId),
+    defender: castellan ? castellan.boosts : await getResearchBonuses(fleet.toPlanet.ownerId),
+  };
+
+  // Courtyard Defense: units assigned to the courtyard plus any garrison not posted on a lane
+  let courtyardUnits: FlankUnits = {};
+  try {
+    courtyardUnits = JSON.parse(defenseLayout?.courtyardJson || '{}');
+  } catch {
+    courtyardUnits = {};
+  }
+
+  const garrison = await prisma.planetUnit.findMany({ where: { planetId: fleet.toPlanetId } });
+  const garrisonUnits: FlankUnits = {};
+  garrison.forEach(g => { garrisonUnits[g.unitType] = g.count; });
+
+  // 2-3. Sectors, surface and loot
+  const protectedStorage = calculateProtectedStorage(fleet.toPlanet.buildings);
+  const battle = simulateBattle({
+    waves: attStructure,
+    lanes: { left: defLeft, front: defCenter, right: defRight },
+    surfaceDefenders: getSurfaceDefenders(garrisonUnits, [hostLeft, hostCenter, hostRight], courtyardUnits),
+    buildings,
+    admirals: {
+      attacker: attAdmiral,
+      defender: defAdmiral,
+      surface: {
+        attack: attackerAdmiral?.attackBonus || 0,
+        defense: fleet.toPlanet.owner.admiral?.defenseBonus || 0
+      }
+    },
+    research,
+    // The Storehouse's protected share cannot be plundered
+    resources: {
+      carbon: Math.max(0, fleet.toPlanet.carbon - protectedStorage),
+      titanium: Math.max(0, fleet.toPlanet.titanium - protectedStorage),
+      food: Math.max(0, fleet.toPlanet.food - protectedStorage),
+      credits: Math.max(0, fleet.toPlanet.credits - protectedStorage)
+    }
+  });
+
+  const { left: leftResult, center: centerResult, right: rightResult } = battle.sectorResults;
+  const surfaceResult = battle.surfaceResult;
+  const finalWinner = battle.winner;
+  const totalAttLosses = battle.attackerTotalLosses;
+  const lootJson = battle.loot ? JSON.stringify(battle.loot) : null;
+
+  // 4. Defender Losses
+  const totalDefLosses: FlankUnits = {};
+
+  const agg = (target: FlankUnits, source: FlankUnits) => {
+    for (const [u, c] of Object.entries(source)) target[u] = (target[u] || 0) + c;
+  };
+
+  // Split lane losses between the host and each allied contingent
+  const stationedLossesById: Record<string, FlankUnits> = {};
+  const splitHostLosses = (result: SectorResult, hostUnits: FlankUnits, lane: 'left' | 'front' | 'right') => {
+    const [hostLosses, ...allied] = splitLaneLosses(hostUnits, contingents.map(c => c.lanes[lane]), result.defenderLosses);
+    allied.forEach((losses, i) => {
+      const id = contingents[i].stationedTroopId;
+      stationedLossesById[id] = stationedLossesById[id] || {};
+      agg(stationedLossesById[id], losses);
+    });
+    return hostLosses;
+  };
+
+  const hostLeftLosses = splitHostLosses(leftResult, hostLeft, 'left');
+  const hostCenterLosses = splitHostLosses(centerResult, hostCenter, 'front');
+  const hostRightLosses = splitHostLosses(rightResult, hostRight, 'right');
+
+  agg(totalDefLosses, hostLeftLosses);
+  agg(totalDefLosses, hostCenterLosses);
+  agg(totalDefLosses, hostRightLosses);
+  if (surfaceResult) agg(totalDefLosses, surfaceResult.defenderLosses);
+
   // --- PERSIST DEFENDER LOSSES & TOOL CONSUMPTION ---
   if (defenseLayout) {
-    const updateLaneData = (result: SectorResult) => {
+    // Only the host's own survivors stay in the layout; allied troops are tracked on StationedTroop
+    const updateLaneData = (result: SectorResult, hostUnits: FlankUnits, hostLosses: FlankUnits) => {
+      const units: FlankUnits = {};
+      for (const [u, c] of Object.entries(hostUnits)) {
+        units[u] = Math.max(0, c - (hostLosses[u] || 0));
+      }
       return {
-        units: result.survivingDefenders,
+        units,
         tools: result.survivingDefenderTools || []
       };
     };
 
-    const newLeft = updateLaneData(leftResult);
-    const newCenter = updateLaneData(centerResult);
-    const newRight = updateLaneData(rightResult);
+    const newLeft = updateLaneData(leftResult, hostLeft, hostLeftLosses);
+    const newCenter = updateLaneData(centerResult, hostCenter, hostCenterLosses);
+    const newRight = updateLaneData(rightResult, hostRight, hostRightLosses);
+
+    // Courtyard casualties come out of the assigned courtyard units first, then the unassigned garrison
+    const newCourtyard: FlankUnits = {};
+    for (const [u, c] of Object.entries(courtyardUnits)) {
+      const remaining = c - (surfaceResult?.defenderLosses[u] || 0);
+      if (remaining > 0) newCourtyard[u] = remaining;
+    }
 
     await prisma.defenseLayout.update({
       where: { id: defenseLayout.id },
       data: {
         leftLaneJson: JSON.stringify(newLeft),
         frontLaneJson: JSON.stringify(newCenter),
-        rightLaneJson: JSON.stringify(newRight)
+        rightLaneJson: JSON.stringify(newRight),
+        courtyardJson: JSON.stringify(newCourtyard)
       }
     });
 
@@ -684,6 +962,25 @@ export async function resolveCombat(fleetId: string): Promise<CombatResult> {
     }
   }
 
+  // Persist allied reinforcement casualties
+  const stationedLosses = contingents.length > 0
+    ? await applyStationedLosses(contingents, stationedLossesById)
+    : [];
+
+  // Moon Colony capture: winning the surface battle transfers ownership
+  let conquest = null;
+  if (finalWinner === 'attacker' && fleet.toPlanet.planetType === 'moon') {
+    conquest = await conquerMoonColony(fleet.toPlanetId, fleet.ownerId);
+  }
+
+  // Pirate bases may drop Admiral gear and Dark Matter for the victor
+  let gearDrop = null;
+  let darkMatterDrop = 0;
+  if (finalWinner === 'attacker' && fleet.toPlanet.isNpc && fleet.toPlanet.planetType !== 'moon') {
+    gearDrop = await awardGearDrop(fleet.ownerId, fleet.toPlanet.npcLevel, rng);
+    darkMatterDrop = await awardPirateDarkMatter(fleet.ownerId, fleet.toPlanet.npcLevel, fleet.id, rng);
+  }
+
   return {
     winner: finalWinner,
     sectorResults: {
@@ -694,6 +991,11 @@ export async function resolveCombat(fleetId: string): Promise<CombatResult> {
     surfaceResult,
     attackerTotalLosses: totalAttLosses,
     defenderTotalLosses: totalDefLosses,
+    stationedLosses,
+    conquest,
+    admirals: { attacker: attAdmiral, defender: defAdmiral },
+    gearDrop,
+    darkMatterDrop,
     resourcesJson: lootJson
   };
 }
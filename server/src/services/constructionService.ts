@@ -0,0 +1,253 @@
+import prisma, { runInTransaction } from '../lib/prisma';
+import { scheduleJob } from './jobScheduler';
+import { pushToUser } from './realtimeService';
+import { awardConstructionXp } from './progressionService';
+import { syncPlanetResources, calculateStorageCapacity, getStorageSpace } from './planetService';
+
+// Construction queue (GGE building queue). Orders are paid when they are placed; the first
+// `buildSlots` orders are under way, the rest wait and start as soon as a slot frees up.
+const MAX_WAITING_ORDERS = 5; // Behind the active slots
+const CANCEL_REFUND_SHARE = 0.5; // Refund for orders already under way; waiting orders are refunded in full
+
+export interface ConstructionCost {
+  carbon: number;
+  titanium: number;
+  credits: number;
+}
+
+// One order per building at a time, so the building id identifies the order
+export interface ConstructionOrder {
+  buildingId: string;
+  type: string;
+  level: number; // Level the building reaches when the order completes; 0 tears it down
+  cost: ConstructionCost;
+  refund?: ConstructionCost; // Demolitions: paid out once the building is gone
+  duration: number; // Seconds
+  finishTime: string | null; // Set once the order holds a slot
+}
+
+interface QueuePlanet {
+  id: string;
+  ownerId: string;
+  buildSlots: number;
+  constructionQueue: string | null;
+}
+
+export function parseConstructionQueue(raw: string | null): ConstructionOrder[] {
+  if (!raw) return [];
+  try {
+    const queue = JSON.parse(raw);
+    return Array.isArray(queue) ? queue : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Give free slots to waiting orders, in queue order. Returns true if any order started.
+ */
+async function startWaitingOrders(planetId: string, queue: ConstructionOrder[], slots: number, startAt: Date) {
+  let started = false;
+  let active = queue.filter(o => o.finishTime).length;
+
+  for (const order of queue) {
+    if (active >= slots) break;
+    if (order.finishTime) continue;
+
+    const finishTime = new Date(startAt.getTime() + order.duration * 1000);
+    order.finishTime = finishTime.toISOString();
+    await scheduleJob('construction_complete', planetId, finishTime);
+    active++;
+    started = true;
+  }
+
+  return started;
+}
+
+/**
+ * Queue a paid construction or upgrade order. The caller has already checked requirements.
+ */
+export async function enqueueConstruction(planet: QueuePlanet, order: Omit<ConstructionOrder, 'finishTime'>) {
+  const queue = parseConstructionQueue(planet.constructionQueue);
+
+  if (queue.some(o => o.buildingId === order.buildingId)) {
+    throw new Error('Building is already in the construction queue');
+  }
+  if (queue.length >= planet.buildSlots + MAX_WAITING_ORDERS) {
+    throw new Error(`Construction queue full (${queue.length}/${planet.buildSlots + MAX_WAITING_ORDERS})`);
+  }
+
+  queue.push({ ...order, finishTime: null });
+  await startWaitingOrders(planet.id, queue, planet.buildSlots, new Date());
+
+  await prisma.planet.update({
+    where: { id: planet.id },
+    data: {
+      carbon: { decrement: order.cost.carbon },
+      titanium: { decrement: order.cost.titanium },
+      credits: { decrement: order.cost.credits },
+      constructionQueue: JSON.stringify(queue),
+    },
+  });
+
+  return queue;
+}
+
+/**
+ * Complete every order whose time is up (Lazy Eval, also run by the construction_complete job).
+ * A freed slot goes to the next waiting order from the moment the previous one finished.
+ * Patches planet.buildings, planet.constructionQueue and (for demolition refunds) the
+ * planet's resources in place; the caller writes the resources.
+ */
+export async function processConstructionQueue(
+  planet: QueuePlanet & {
+    carbon: number;
+    titanium: number;
+    credits: number;
+    buildings: { id: string; type: string; level: number; status: string }[];
+  },
+  now: Date
+) {
+  const queue = parseConstructionQueue(planet.constructionQueue);
+  if (queue.length === 0) return;
+
+  let changed = false;
+  for (;;) {
+    const next = queue
+      .filter(o => o.finishTime && new Date(o.finishTime) <= now)
+      .sort((a, b) => new Date(a.finishTime!).getTime() - new Date(b.finishTime!).getTime())[0];
+    if (!next) break;
+
+    queue.splice(queue.indexOf(next), 1);
+    changed = true;
+
+    // The building may be gone in the meantime
+    const index = planet.buildings.findIndex(b => b.id === next.buildingId);
+    if (index !== -1 && next.level === 0) {
+      // Conditional delete: a concurrent sync of this planet may have finished the demolition already
+      const { count } = await prisma.building.deleteMany({ where: { id: next.buildingId, status: 'demolishing' } });
+      planet.buildings.splice(index, 1);
+
+      if (count > 0) {
+        const refund = next.refund || { carbon: 0, titanium: 0, credits: 0 };
+        const capacity = calculateStorageCapacity(planet.buildings);
+        planet.carbon += Math.min(refund.carbon, getStorageSpace(planet.carbon, capacity));
+        planet.titanium += Math.min(refund.titanium, getStorageSpace(planet.titanium, capacity));
+        planet.credits += Math.min(refund.credits, getStorageSpace(planet.credits, capacity));
+
+        pushToUser(planet.ownerId, 'building_demolished', {
+          planetId: planet.id,
+          buildingId: next.buildingId,
+          buildingType: next.type,
+          refund,
+        });
+      }
+    } else if (index !== -1) {
+      // Conditional update: a concurrent sync of this planet may have completed the order already
+      const { count } = await prisma.building.updateMany({
+        where: { id: next.buildingId, status: { in: ['constructing', 'upgrading'] } },
+        data: { status: 'active', level: next.level },
+      });
+      const building = { ...planet.buildings[index], status: 'active', level: next.level };
+      planet.buildings[index] = building;
+
+      if (count > 0) {
+        pushToUser(planet.ownerId, 'construction_finished', {
+          planetId: planet.id,
+          buildingId: building.id,
+          buildingType: building.type,
+          level: building.level,
+        });
+        await awardConstructionXp(planet.ownerId, building.level);
+      }
+    }
+
+    await startWaitingOrders(planet.id, queue, planet.buildSlots, new Date(next.finishTime!));
+  }
+
+  // Slots added since the last pass (e.g. a bought build slot)
+  if (await startWaitingOrders(planet.id, queue, planet.buildSlots, now)) changed = true;
+
+  if (changed) {
+    planet.constructionQueue = JSON.stringify(queue);
+    await prisma.planet.update({
+      where: { id: planet.id },
+      data: { constructionQueue: planet.constructionQueue },
+    });
+  }
+}
+
+/**
+ * Cancel an order. New buildings are torn down, upgrades and demolitions leave the building as it was.
+ */
+export async function cancelConstruction(planetId: string, buildingId: string) {
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  const queue = parseConstructionQueue(planet.constructionQueue);
+  const order = queue.find(o => o.buildingId === buildingId);
+  if (!order) throw new Error('Construction order not found');
+
+  const share = order.finishTime ? CANCEL_REFUND_SHARE : 1;
+  const capacity = calculateStorageCapacity(planet.buildings);
+  const refund = {
+    carbon: Math.min(Math.floor(order.cost.carbon * share), getStorageSpace(planet.carbon, capacity)),
+    titanium: Math.min(Math.floor(order.cost.titanium * share), getStorageSpace(planet.titanium, capacity)),
+    credits: Math.min(Math.floor(order.cost.credits * share), getStorageSpace(planet.credits, capacity)),
+  };
+
+  queue.splice(queue.indexOf(order), 1);
+
+  await runInTransaction(async () => {
+    // Conditional writes: the order may have completed in a concurrent sync since it was read
+    const { count } = order.level === 1
+      ? await prisma.building.deleteMany({ where: { id: buildingId, status: 'constructing' } })
+      : await prisma.building.updateMany({
+        where: { id: buildingId, status: { in: ['upgrading', 'demolishing'] } },
+        data: { status: 'active' },
+      });
+    if (count === 0) throw new Error('Construction order not found');
+
+    // The freed slot goes to the next waiting order
+    await startWaitingOrders(planet.id, queue, planet.buildSlots, new Date());
+
+    await prisma.planet.update({
+      where: { id: planet.id },
+      data: {
+        carbon: { increment: refund.carbon },
+        titanium: { increment: refund.titanium },
+        credits: { increment: refund.credits },
+        constructionQueue: JSON.stringify(queue),
+      },
+    });
+  });
+
+  return { queue, refund };
+}
+
+/**
+ * Move a waiting order to another place among the waiting orders
+ */
+export async function reorderConstruction(planetId: string, buildingId: string, position: number) {
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  const queue = parseConstructionQueue(planet.constructionQueue);
+  const order = queue.find(o => o.buildingId === buildingId);
+  if (!order) throw new Error('Construction order not found');
+  if (order.finishTime) throw new Error('Only waiting orders can be reordered');
+
+  // Orders under way always stay at the front
+  const active = queue.filter(o => o.finishTime).length;
+  const target = Math.max(active, Math.min(queue.length - 1, Math.floor(position)));
+
+  queue.splice(queue.indexOf(order), 1);
+  queue.splice(target, 0, order);
+
+  await prisma.planet.update({
+    where: { id: planet.id },
+    data: { constructionQueue: JSON.stringify(queue) },
+  });
+
+  return { queue };
+}
@@ -0,0 +1,170 @@
+import prisma, { runInTransaction } from '../lib/prisma';
+import { syncPlanetResources } from './planetService';
+import { parseConstructionQueue } from './constructionService';
+import { pushToUser } from './realtimeService';
+
+// Dark Matter (GGE Rubies): earned from level-ups and pirate bases, spent on timers and build slots.
+// Every change goes through changeDarkMatter, which writes a ledger entry.
+export type DarkMatterReason =
+  | 'level_up'
+  | 'pirate_loot'
+  | 'speedup_construction'
+  | 'speedup_recruitment'
+  | 'speedup_manufacturing'
+  | 'build_slot';
+
+// Level-up rewards (Player_Level.md): 60 per level, 180 for reaching the cap
+const LEVEL_REWARD = 60;
+const MAX_LEVEL_REWARD = 180;
+
+// Pirate bases from this level up carry a Dark Matter cache
+const PIRATE_DROP_MIN_LEVEL = 10;
+const PIRATE_DROP_CHANCE = 0.3;
+const PIRATE_DROP_PER_LEVEL = 2;
+
+const SPEEDUP_SECONDS_PER_DM = 60; // Each started minute left costs 1
+
+// Price of each extra build slot, by the slot count it takes the planet to
+const BUILD_SLOT_COSTS: Record<number, number> = {
+  2: 500,
+  3: 1500,
+};
+
+export function getLevelUpReward(level: number, maxLevel: number): number {
+  return level >= maxLevel ? MAX_LEVEL_REWARD : LEVEL_REWARD;
+}
+
+export function getSpeedupCost(secondsLeft: number): number {
+  return Math.max(1, Math.ceil(secondsLeft / SPEEDUP_SECONDS_PER_DM));
+}
+
+/**
+ * Apply a signed change to a user's balance and record it. Spending more than the
+ * balance throws without touching anything.
+ */
+export async function changeDarkMatter(userId: string, amount: number, reason: DarkMatterReason, refId?: string) {
+  return runInTransaction(async () => {
+    // Conditional update: concurrent spends cannot push the balance below zero
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, darkMatter: { gte: Math.max(0, -amount) } },
+      data: { darkMatter: { increment: amount } },
+    });
+    if (count === 0) throw new Error('Insufficient Dark Matter');
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { darkMatter: true } });
+    await prisma.darkMatterEntry.create({
+      data: { userId, amount, balance: user.darkMatter, reason, refId: refId ?? null },
+    });
+    pushToUser(userId, 'dark_matter_changed', { amount, balance: user.darkMatter, reason });
+
+    return user.darkMatter;
+  });
+}
+
+/**
+ * Chance that a defeated pirate base of the given level holds a Dark Matter cache
+ */
+export function getPirateDarkMatterChance(npcLevel: number): number {
+  return npcLevel < PIRATE_DROP_MIN_LEVEL ? 0 : PIRATE_DROP_CHANCE;
+}
+
+/**
+ * Roll the Dark Matter cache of a defeated pirate base (0 = nothing found).
+ * Pass a seeded rng to reproduce a roll.
+ */
+export async function awardPirateDarkMatter(userId: string, npcLevel: number, refId: string, rng: () => number = Math.random) {
+  if (rng() >= getPirateDarkMatterChance(npcLevel)) return 0;
+
+  const amount = npcLevel * PIRATE_DROP_PER_LEVEL;
+  await changeDarkMatter(userId, amount, 'pirate_loot', refId);
+  return amount;
+}
+
+/**
+ * Finish a construction order that is under way
+ */
+export async function finishConstructionNow(userId: string, planetId: string, buildingId: string) {
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  const queue = parseConstructionQueue(planet.constructionQueue);
+  const order = queue.find(o => o.buildingId === buildingId);
+  if (!order) throw new Error('Construction order not found');
+  if (!order.finishTime) throw new Error('Only orders under way can be finished');
+
+  const now = new Date();
+  const cost = getSpeedupCost((new Date(order.finishTime).getTime() - now.getTime()) / 1000);
+
+  return runInTransaction(async () => {
+    const balance = await changeDarkMatter(userId, -cost, 'speedup_construction', buildingId);
+
+    order.finishTime = now.toISOString();
+    await prisma.planet.update({
+      where: { id: planetId },
+      data: { constructionQueue: JSON.stringify(queue) },
+    });
+    await syncPlanetResources(planetId);
+
+    return { cost, balance };
+  });
+}
+
+/**
+ * Finish every batch in a recruitment or manufacturing queue. The price is the time left on the last batch.
+ */
+export async function finishQueueNow(userId: string, planetId: string, queueType: 'recruitment' | 'manufacturing') {
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  const raw = queueType === 'recruitment' ? planet.recruitmentQueue : planet.manufacturingQueue;
+  let queue: { finishTime: string }[] = [];
+  try {
+    queue = raw ? JSON.parse(raw) : [];
+  } catch (e) { }
+  if (queue.length === 0) throw new Error('Nothing in the queue');
+
+  const now = new Date();
+  const lastFinish = Math.max(...queue.map(b => new Date(b.finishTime).getTime()));
+  const cost = getSpeedupCost((lastFinish - now.getTime()) / 1000);
+
+  return runInTransaction(async () => {
+    const balance = await changeDarkMatter(userId, -cost, `speedup_${queueType}`, planetId);
+
+    const finished = JSON.stringify(queue.map(b => ({ ...b, finishTime: now.toISOString() })));
+    await prisma.planet.update({
+      where: { id: planetId },
+      data: queueType === 'recruitment' ? { recruitmentQueue: finished } : { manufacturingQueue: finished },
+    });
+    await syncPlanetResources(planetId);
+
+    return { cost, balance };
+  });
+}
+
+/**
+ * Buy one more construction slot for a planet
+ */
+export async function buyBuildSlot(userId: string, planetId: string) {
+  const planet = await prisma.planet.findUnique({ where: { id: planetId }, select: { buildSlots: true } });
+  if (!planet) throw new Error('Planet not found');
+
+  const cost = BUILD_SLOT_COSTS[planet.buildSlots + 1];
+  if (!cost) throw new Error('No more build slots available');
+
+  return runInTransaction(async () => {
+    const balance = await changeDarkMatter(userId, -cost, 'build_slot', planetId);
+
+    await prisma.planet.update({
+      where: { id: planetId },
+      data: { buildSlots: { increment: 1 } },
+    });
+    // The new slot picks up the next waiting order right away
+    await syncPlanetResources(planetId);
+
+    return { cost, balance, buildSlots: planet.buildSlots + 1 };
+  });
+}
+
+export function getNextBuildSlotCost(buildSlots: number): number | null {
+  return BUILD_SLOT_COSTS[buildSlots + 1] ?? null;
+}
@@ -0,0 +1,258 @@
+import prisma from '../lib/prisma';
+import { syncPlanetResources, calculateProtectedStorage } from './planetService';
+import { scheduleJob } from './jobScheduler';
+
+// Intelligence Hub (Tavern): Agents available per building level (see tavern.md)
+const TAVERN_AGENTS_PER_LEVEL: Record<number, number> = { 1: 2, 2: 3, 3: 5, 4: 7 };
+
+// Spy training cost (per agent)
+const SPY_COST = { c: 60, t: 40, time: 45 };
+
+// Mission success tuning
+const BASE_SUCCESS_CHANCE = 0.5;
+const CHANCE_PER_SPY_DELTA = 0.1;      // +/-10% per spy advantage
+const HUB_LEVEL_COUNTER_WEIGHT = 1;    // Each target hub level counts as 1 defending spy
+const MIN_SUCCESS_CHANCE = 0.05;
+const MAX_SUCCESS_CHANCE = 0.95;
+
+// Incoming attack visibility, by the target planet's Intelligence Hub level
+const INCOMING_EXACT_HUB_LEVEL = 3; // Exact composition from this level on
+const INCOMING_ESTIMATE_SPREAD: Record<number, number> = { 0: 0.5, 1: 0.3, 2: 0.15 }; // +/- share of the true size
+
+export interface IncomingFleetIntel {
+  visibility: 'estimate' | 'exact';
+  estimatedSize?: { min: number; max: number };
+  units?: Record<string, number>;
+}
+
+/**
+ * Total agent capacity granted by all active Intelligence Hubs on a planet
+ */
+export function calculateSpyCapacity(buildings: { type: string; level: number; status: string }[]): number {
+  return buildings
+    .filter(b => b.type === 'tavern' && (b.status === 'active' || b.status === 'upgrading'))
+    .reduce((sum, b) => sum + (TAVERN_AGENTS_PER_LEVEL[Math.min(b.level, 4)] || 0), 0);
+}
+
+/**
+ * Sum of Intelligence Hub levels (counter-intelligence strength)
+ */
+export function getIntelligenceHubLevel(buildings: { type: string; level: number; status: string }[]): number {
+  return buildings
+    .filter(b => b.type === 'tavern' && (b.status === 'active' || b.status === 'upgrading'))
+    .reduce((sum, b) => sum + b.level, 0);
+}
+
+/**
+ * Chance that a scout mission succeeds.
+ * Attacker spies are compared against the target's stationed spies plus its Intelligence Hub level.
+ */
+export function calculateSpySuccessChance(attackerSpies: number, defenderSpies: number, defenderHubLevel: number): number {
+  const counterIntel = defenderSpies + defenderHubLevel * HUB_LEVEL_COUNTER_WEIGHT;
+  const chance = BASE_SUCCESS_CHANCE + (attackerSpies - counterIntel) * CHANCE_PER_SPY_DELTA;
+  return Math.max(MIN_SUCCESS_CHANCE, Math.min(MAX_SUCCESS_CHANCE, chance));
+}
+
+/**
+ * Train spies at the Intelligence Hub.
+ * Uses the recruitment queue with unit "spy"; completed batches go to Planet.spyCount.
+ */
+export async function trainSpies(planetId: string, count: number) {
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  const capacity = calculateSpyCapacity(planet.buildings);
+  if (capacity < 1) {
+    throw new Error('Intelligence Hub required');
+  }
+
+  let queue: any[] = [];
+  if (planet.recruitmentQueue) {
+    try { queue = JSON.parse(planet.recruitmentQueue); } catch (e) { }
+  }
+
+  // Agents currently on missions still count against capacity
+  const missions = await prisma.fleet.findMany({
+    where: { fromPlanetId: planetId, type: 'scout', status: { in: ['enroute', 'arrived', 'returning'] } }
+  });
+  const spiesAway = missions.reduce((sum, f) => sum + (JSON.parse(f.unitsJson).spy || 0), 0);
+  const spiesQueued = queue.filter(b => b.unit === 'spy').reduce((sum, b) => sum + b.count, 0);
+
+  if (planet.spyCount + spiesAway + spiesQueued + count > capacity) {
+    throw new Error(`Agent capacity exceeded (${capacity} max)`);
+  }
+
+  const totalCarbon = SPY_COST.c * count;
+  const totalTitanium = SPY_COST.t * count;
+  if (planet.carbon < totalCarbon || planet.titanium < totalTitanium) {
+    throw new Error('Insufficient resources');
+  }
+
+  const now = new Date();
+  let startTime = now;
+  if (queue.length > 0) {
+    const lastFinish = new Date(queue[queue.length - 1].finishTime);
+    if (lastFinish > now) startTime = lastFinish;
+  }
+
+  const finishTime = new Date(startTime.getTime() + SPY_COST.time * count * 1000);
+  queue.push({ unit: 'spy', count, finishTime: finishTime.toISOString() });
+
+  await prisma.planet.update({
+    where: { id: planetId },
+    data: {
+      carbon: { decrement: totalCarbon },
+      titanium: { decrement: totalTitanium },
+      recruitmentQueue: JSON.stringify(queue)
+    }
+  });
+  await scheduleJob('recruitment_batch', planetId, finishTime);
+
+  return { queue, capacity };
+}
+
+/**
+ * Resolve an arrived scout fleet.
+ * Success: persist an intel snapshot and send the agents home.
+ * Failure: all agents are captured and the target is alerted (report visible to defender).
+ */
+export async function resolveEspionage(fleetId: string, rng: () => number = Math.random) {
+  const fleet = await prisma.fleet.findUnique({
+    where: { id: fleetId },
+    include: {
+      toPlanet: { include: { defenseLayout: true, units: true, tools: true, buildings: true } }
+    }
+  });
+
+  if (!fleet || fleet.type !== 'scout' || fleet.status !== 'arrived') {
+    throw new Error('Invalid fleet state');
+  }
+
+  const target = fleet.toPlanet;
+  const spiesSent = JSON.parse(fleet.unitsJson).spy || 0;
+  const hubLevel = getIntelligenceHubLevel(target.buildings);
+  const successChance = calculateSpySuccessChance(spiesSent, target.spyCount, hubLevel);
+  const success = spiesSent > 0 && rng() < successChance;
+
+  let intelJson: string | null = null;
+  if (success) {
+    const parseLane = (json: string | undefined) => {
+      if (!json) return { units: {}, tools: [] };
+      try {
+        const data = JSON.parse(json);
+        if (data.units || data.tools) return { units: data.units || {}, tools: Array.isArray(data.tools) ? data.tools : [] };
+        return { units: data, tools: [] };
+      } catch {
+        return { units: {}, tools: [] };
+      }
+    };
+
+    const units: Record<string, number> = {};
+    target.units.forEach(u => { if (u.count > 0) units[u.unitType] = u.count; });
+    const tools: Record<string, number> = {};
+    target.tools.forEach(t => { if (t.count > 0) tools[t.toolType] = t.count; });
+
+    intelJson = JSON.stringify({
+      lanes: {
+        front: parseLane(target.defenseLayout?.frontLaneJson),
+        left: parseLane(target.defenseLayout?.leftLaneJson),
+        right: parseLane(target.defenseLayout?.rightLaneJson),
+      },
+      courtyard: JSON.parse(target.defenseLayout?.courtyardJson || '{}'),
+      units,
+      tools,
+      resources: {
+        carbon: Math.floor(target.carbon),
+        titanium: Math.floor(target.titanium),
+        food: Math.floor(target.food),
+        credits: Math.floor(target.credits),
+      },
+      protectedStorage: calculateProtectedStorage(target.buildings),
+      defense: {
+        defensiveGrid: target.defensiveGridLevel,
+        perimeterField: target.perimeterFieldLevel,
+        starport: target.starportLevel,
+      },
+    });
+  }
+
+  const report = await prisma.espionageReport.create({
+    data: {
+      fleetId: fleet.id,
+      attackerId: fleet.ownerId,
+      defenderId: target.ownerId,
+      attackerPlanetId: fleet.fromPlanetId,
+      targetPlanetId: fleet.toPlanetId,
+      success,
+      successChance,
+      spiesSent,
+      spiesLost: success ? 0 : spiesSent,
+      intelJson,
+    }
+  });
+
+  return { success, successChance, report };
+}
+
+// Stable value in [0, 1) per fleet, so an estimate does not change between refreshes
+function fleetNoise(fleetId: string): number {
+  let hash = 0;
+  for (const ch of fleetId) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return (hash % 1000) / 1000;
+}
+
+/**
+ * What the defender knows about an incoming fleet. Low hub levels only give a size range
+ * (narrower per level, not centered on the true size); high levels reveal the exact units.
+ */
+export function describeIncomingFleet(fleetId: string, units: Record<string, number>, hubLevel: number): IncomingFleetIntel {
+  if (hubLevel >= INCOMING_EXACT_HUB_LEVEL) {
+    return { visibility: 'exact', units };
+  }
+
+  const total = Object.values(units).reduce((sum, n) => sum + n, 0);
+  const spread = INCOMING_ESTIMATE_SPREAD[hubLevel] ?? INCOMING_ESTIMATE_SPREAD[0];
+  const center = total * (1 + (fleetNoise(fleetId) - 0.5) * spread);
+
+  return {
+    visibility: 'estimate',
+    estimatedSize: {
+      min: Math.max(1, Math.floor(center * (1 - spread))),
+      max: Math.ceil(center * (1 + spread)),
+    },
+  };
+}
+
+/**
+ * Hostile attack fleets heading for any of the player's planets
+ */
+export async function getIncomingAttacks(userId: string) {
+  const fleets = await prisma.fleet.findMany({
+    where: {
+      type: 'attack',
+      status: 'enroute',
+      ownerId: { not: userId },
+      toPlanet: { ownerId: userId },
+    },
+    include: {
+      owner: { select: { id: true, username: true } },
+      fromPlanet: { select: { id: true, x: true, y: true, name: true } },
+      toPlanet: { select: { id: true, x: true, y: true, name: true, buildings: true } },
+    },
+    orderBy: { arriveAt: 'asc' }
+  });
+
+  return fleets.map(f => {
+    const hubLevel = getIntelligenceHubLevel(f.toPlanet.buildings);
+    return {
+      id: f.id,
+      attacker: f.owner,
+      fromPlanet: f.fromPlanet,
+      toPlanet: { id: f.toPlanet.id, x: f.toPlanet.x, y: f.toPlanet.y, name: f.toPlanet.name },
+      departAt: f.departAt,
+      arriveAt: f.arriveAt,
+      hubLevel,
+      intel: describeIncomingFleet(f.id, JSON.parse(f.unitsJson), hubLevel),
+    };
+  });
+}
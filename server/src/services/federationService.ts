@@ -0,0 +1,231 @@
+import prisma from '../lib/prisma';
+
+// Ranks in order of authority
+const RANK_ORDER: Record<string, number> = { member: 0, officer: 1, leader: 2 };
+
+const NAME_MIN_LENGTH = 3;
+const NAME_MAX_LENGTH = 32;
+const TAG_PATTERN = /^[A-Za-z0-9]{2,5}$/;
+
+/**
+ * Membership of a user (null if not in a federation)
+ */
+export async function getMembership(userId: string) {
+  return prisma.federationMember.findUnique({
+    where: { userId },
+    include: { federation: true }
+  });
+}
+
+/**
+ * Whether two players are in the same federation
+ */
+export async function areFederationMates(userA: string, userB: string): Promise<boolean> {
+  if (userA === userB) return false;
+  const members = await prisma.federationMember.findMany({
+    where: { userId: { in: [userA, userB] } }
+  });
+  return members.length === 2 && members[0].federationId === members[1].federationId;
+}
+
+/**
+ * Load the caller's membership and check they hold at least `minRank` in the given federation
+ */
+async function requireRank(userId: string, federationId: string, minRank: 'officer' | 'leader') {
+  const membership = await prisma.federationMember.findUnique({ where: { userId } });
+  if (!membership || membership.federationId !== federationId) {
+    throw new Error('Not a member of this federation');
+  }
+  if (RANK_ORDER[membership.rank] < RANK_ORDER[minRank]) {
+    throw new Error(`Rank ${minRank} required`);
+  }
+  return membership;
+}
+
+async function requireNoFederation(userId: string) {
+  const existing = await prisma.federationMember.findUnique({ where: { userId } });
+  if (existing) throw new Error('Already in a federation');
+}
+
+/**
+ * Found a new federation with the caller as leader
+ */
+export async function createFederation(userId: string, name: string, tag: string, description?: string) {
+  const trimmedName = (name || '').trim();
+  if (trimmedName.length < NAME_MIN_LENGTH || trimmedName.length > NAME_MAX_LENGTH) {
+    throw new Error(`Invalid name (${NAME_MIN_LENGTH}-${NAME_MAX_LENGTH} characters)`);
+  }
+  if (!TAG_PATTERN.test(tag || '')) {
+    throw new Error('Invalid tag (2-5 letters or digits)');
+  }
+
+  await requireNoFederation(userId);
+
+  const clash = await prisma.federation.findFirst({
+    where: { OR: [{ name: trimmedName }, { tag: tag.toUpperCase() }] }
+  });
+  if (clash) throw new Error('Federation name or tag already taken');
+
+  const federation = await prisma.federation.create({
+    data: {
+      name: trimmedName,
+      tag: tag.toUpperCase(),
+      description: description || null,
+      members: { create: { userId, rank: 'leader' } }
+    }
+  });
+
+  // Outstanding applications/invites elsewhere no longer apply
+  await prisma.federationRequest.deleteMany({ where: { userId } });
+
+  return federation;
+}
+
+/**
+ * Officer+ invites a player by username
+ */
+export async function invitePlayer(userId: string, federationId: string, username: string) {
+  await requireRank(userId, federationId, 'officer');
+
+  const invitee = await prisma.user.findUnique({ where: { username } });
+  if (!invitee) throw new Error('Player not found');
+
+  const existing = await prisma.federationMember.findUnique({ where: { userId: invitee.id } });
+  if (existing) throw new Error('Player is already in a federation');
+
+  return prisma.federationRequest.upsert({
+    where: { federationId_userId_type: { federationId, userId: invitee.id, type: 'invite' } },
+    update: {},
+    create: { federationId, userId: invitee.id, type: 'invite' }
+  });
+}
+
+/**
+ * Player applies to join a federation
+ */
+export async function applyToFederation(userId: string, federationId: string) {
+  await requireNoFederation(userId);
+
+  const federation = await prisma.federation.findUnique({ where: { id: federationId } });
+  if (!federation) throw new Error('Federation not found');
+
+  return prisma.federationRequest.upsert({
+    where: { federationId_userId_type: { federationId, userId, type: 'application' } },
+    update: {},
+    create: { federationId, userId, type: 'application' }
+  });
+}
+
+/**
+ * Accept or decline a pending request.
+ * Invites are answered by the invited player; applications by an officer+ of the federation.
+ */
+export async function respondToRequest(userId: string, requestId: string, accept: boolean) {
+  const request = await prisma.federationRequest.findUnique({ where: { id: requestId } });
+  if (!request) throw new Error('Request not found');
+
+  if (request.type === 'invite') {
+    if (request.userId !== userId) throw new Error('Not your invitation');
+  } else {
+    await requireRank(userId, request.federationId, 'officer');
+  }
+
+  if (!accept) {
+    await prisma.federationRequest.delete({ where: { id: request.id } });
+    return null;
+  }
+
+  await requireNoFederation(request.userId);
+
+  const [member] = await prisma.$transaction([
+    prisma.federationMember.create({
+      data: { federationId: request.federationId, userId: request.userId, rank: 'member' }
+    }),
+    prisma.federationRequest.deleteMany({ where: { userId: request.userId } }),
+  ]);
+
+  return member;
+}
+
+/**
+ * Remove a member. Officers can only kick plain members; the leader cannot be kicked.
+ */
+export async function kickMember(userId: string, federationId: string, targetUserId: string) {
+  const actor = await requireRank(userId, federationId, 'officer');
+
+  const target = await prisma.federationMember.findUnique({ where: { userId: targetUserId } });
+  if (!target || target.federationId !== federationId) throw new Error('Member not found');
+  if (target.userId === userId) throw new Error('Use leave to exit the federation');
+  if (RANK_ORDER[target.rank] >= RANK_ORDER[actor.rank]) {
+    throw new Error('Cannot kick a member of equal or higher rank');
+  }
+
+  await prisma.federationMember.delete({ where: { id: target.id } });
+}
+
+/**
+ * Leader changes a member's rank. Promoting someone to leader hands over leadership
+ * (the previous leader becomes an officer).
+ */
+export async function setMemberRank(userId: string, federationId: string, targetUserId: string, rank: string) {
+  if (!(rank in RANK_ORDER)) throw new Error('Invalid rank');
+
+  const actor = await requireRank(userId, federationId, 'leader');
+
+  const target = await prisma.federationMember.findUnique({ where: { userId: targetUserId } });
+  if (!target || target.federationId !== federationId) throw new Error('Member not found');
+  if (target.userId === userId) throw new Error('Cannot change your own rank');
+
+  if (rank === 'leader') {
+    await prisma.$transaction([
+      prisma.federationMember.update({ where: { id: target.id }, data: { rank: 'leader' } }),
+      prisma.federationMember.update({ where: { id: actor.id }, data: { rank: 'officer' } }),
+    ]);
+    return;
+  }
+
+  await prisma.federationMember.update({ where: { id: target.id }, data: { rank } });
+}
+
+/**
+ * Leave the current federation. The leader must hand over leadership first unless they are
+ * the last member, in which case the federation is disbanded.
+ */
+export async function leaveFederation(userId: string) {
+  const membership = await prisma.federationMember.findUnique({ where: { userId } });
+  if (!membership) throw new Error('Not in a federation');
+
+  if (membership.rank === 'leader') {
+    const memberCount = await prisma.federationMember.count({ where: { federationId: membership.federationId } });
+    if (memberCount > 1) {
+      throw new Error('Transfer leadership before leaving');
+    }
+    await prisma.federation.delete({ where: { id: membership.federationId } });
+    return { disbanded: true };
+  }
+
+  await prisma.federationMember.delete({ where: { id: membership.id } });
+  return { disbanded: false };
+}
+
+/**
+ * Attack fleets currently heading for any member's planets (shared alerts)
+ */
+export async function getFederationIncomingAttacks(federationId: string) {
+  const members = await prisma.federationMember.findMany({ where: { federationId } });
+  const memberIds = members.map(m => m.userId);
+
+  return prisma.fleet.findMany({
+    where: {
+      type: 'attack',
+      status: 'enroute',
+      toPlanet: { ownerId: { in: memberIds } },
+    },
+    include: {
+      owner: { select: { id: true, username: true } },
+      fromPlanet: { select: { id: true, x: true, y: true, name: true } },
+      toPlanet: { select: { id: true, x: true, y: true, name: true, ownerId: true, owner: { select: { username: true } } } },
+    },
+    orderBy: { arriveAt: 'asc' }
+  });
+}
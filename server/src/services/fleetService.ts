@@ -1,8 +1,26 @@
-import prisma from '../lib/prisma';
+import prisma, { runInTransaction } from '../lib/prisma';
+import { scheduleJob } from './jobScheduler';
+import { pushToUsers } from './realtimeService';
 
 const BASE_FLEET_SPEED = 50; // pixels per second
 const MIN_TRAVEL_TIME = 5; // minimum seconds
 
+// Travel speed per unit type (pixels per second). The slowest unit sets the fleet's pace.
+// Mirrored by the client's travel-time preview (client/src/lib/api.ts)
+export const UNIT_SPEEDS: Record<string, number> = {
+  marine: 50,
+  ranger: 50,
+  sentinel: 35,     // Heavy exo-suits
+  interceptor: 90,  // Fast atmospheric fighters
+  spy: 80,
+};
+
+// Hangar Bay: +10% fleet speed per level
+const HANGAR_BAY_SPEED_PER_LEVEL = 10;
+
+// Share of the outbound trip after which a fleet can no longer be recalled
+export const RECALL_POINT_OF_NO_RETURN = parseFloat(process.env.FLEET_RECALL_CUTOFF || '0.75');
+
 interface UnitCounts {
   [unitType: string]: number;
 }
@@ -15,10 +33,30 @@ export function calculateDistance(x1: number, y1: number, x2: number, y2: number
 }
 
 /**
- * Calculate travel time in seconds based on distance
+ * Speed of a fleet: that of its slowest unit type
+ */
+export function getFleetSpeed(units: UnitCounts): number {
+  const speeds = Object.entries(units)
+    .filter(([, count]) => count > 0)
+    .map(([unitType]) => UNIT_SPEEDS[unitType] ?? BASE_FLEET_SPEED);
+  return speeds.length > 0 ? Math.min(...speeds) : BASE_FLEET_SPEED;
+}
+
+/**
+ * Speed bonus (%) from the Hangar Bays of the planet a fleet departs from
  */
-export function calculateTravelTime(distance: number): number {
-  const timeInSeconds = distance / BASE_FLEET_SPEED;
+export function getHangarSpeedBonus(buildings: { type: string; level: number; status: string }[]): number {
+  const levels = buildings
+    .filter(b => b.type === 'hangar_bay' && (b.status === 'active' || b.status === 'upgrading'))
+    .reduce((sum, b) => sum + b.level, 0);
+  return levels * HANGAR_BAY_SPEED_PER_LEVEL;
+}
+
+/**
+ * Calculate travel time in seconds based on distance, fleet speed and speed bonus (%)
+ */
+export function calculateTravelTime(distance: number, speed: number = BASE_FLEET_SPEED, speedBonusPct = 0): number {
+  const timeInSeconds = distance / (speed * (1 + speedBonusPct / 100));
   return Math.max(MIN_TRAVEL_TIME, Math.ceil(timeInSeconds));
 }
 
@@ -78,6 +116,30 @@ export async function deductUnits(planetId: string, units: UnitCounts): Promise<
   }
 }
 
+/**
+ * Validate that enough spies are stationed at a planet
+ */
+export async function validateSpiesAvailable(planetId: string, count: number): Promise<boolean> {
+  const planet = await prisma.planet.findUnique({
+    where: { id: planetId },
+  });
+  return (planet?.spyCount || 0) >= count;
+}
+
+/**
+ * Deduct spies from a planet
+ */
+export async function deductSpies(planetId: string, count: number): Promise<void> {
+  await prisma.planet.update({
+    where: { id: planetId },
+    data: {
+      spyCount: {
+        decrement: count,
+      },
+    },
+  });
+}
+
 /**
  * Validate that tools exist at a planet
  */
@@ -122,3 +184,66 @@ export async function deductTools(planetId: string, tools: { [toolType: string]:
     });
   }
 }
+
+/**
+ * Give tools back to a planet (inverse of deductTools)
+ */
+export async function refundTools(planetId: string, tools: { [toolType: string]: number }): Promise<void> {
+  for (const [toolType, count] of Object.entries(tools)) {
+    await prisma.toolInventory.upsert({
+      where: { planetId_toolType: { planetId, toolType } },
+      update: { count: { increment: count } },
+      create: { planetId, toolType, count },
+    });
+  }
+}
+
+/**
+ * Last moment an en-route fleet can still be recalled
+ */
+export function getRecallDeadline(departAt: Date, arriveAt: Date): Date {
+  return new Date(departAt.getTime() + (arriveAt.getTime() - departAt.getTime()) * RECALL_POINT_OF_NO_RETURN);
+}
+
+/**
+ * Turn an en-route fleet around. The way home takes as long as the fleet has already
+ * travelled; tools are refunded at once, cargo and units come back with the fleet.
+ */
+export async function recallFleet(userId: string, fleetId: string) {
+  const fleet = await prisma.fleet.findUnique({ where: { id: fleetId } });
+  if (!fleet) throw new Error('Fleet not found');
+  if (fleet.ownerId !== userId) throw new Error('Not your fleet');
+  if (fleet.status !== 'enroute') throw new Error('Only fleets en route can be recalled');
+
+  const now = new Date();
+  if (now > getRecallDeadline(fleet.departAt, fleet.arriveAt)) {
+    throw new Error('Fleet is past the point of no return');
+  }
+
+  const arriveAt = new Date(now.getTime() + (now.getTime() - fleet.departAt.getTime()));
+
+  const recalled = await runInTransaction(async () => {
+    // Conditional update: loses cleanly against an arrival job resolving the fleet right now
+    const { count } = await prisma.fleet.updateMany({
+      where: { id: fleet.id, status: 'enroute' },
+      data: { status: 'returning', departAt: now, arriveAt, toolsJson: null }
+    });
+    if (count === 0) throw new Error('Only fleets en route can be recalled');
+
+    if (fleet.toolsJson) {
+      await refundTools(fleet.fromPlanetId, JSON.parse(fleet.toolsJson));
+    }
+
+    await prisma.scheduledJob.deleteMany({ where: { refId: fleet.id, type: 'fleet_arrival', status: 'pending' } });
+    await scheduleJob('fleet_return', fleet.id, arriveAt);
+
+    return prisma.fleet.findUniqueOrThrow({ where: { id: fleet.id } });
+  });
+
+  const targetPlanet = await prisma.planet.findUnique({ where: { id: fleet.toPlanetId }, select: { ownerId: true } });
+  // Spies were never announced, so only their owner hears about the recall
+  const notify = fleet.type === 'scout' ? [userId] : [userId, targetPlanet?.ownerId];
+  pushToUsers(notify, 'fleet_recalled', { fleetId: fleet.id, type: fleet.type, fromPlanetId: fleet.fromPlanetId, toPlanetId: fleet.toPlanetId, arriveAt });
+
+  return recalled;
+}
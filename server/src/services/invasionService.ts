@@ -0,0 +1,349 @@
+import prisma from '../lib/prisma';
+import { scheduleJob } from './jobScheduler';
+import { pushToUser } from './realtimeService';
+import { calculateDistance, calculateTravelTime, getFleetSpeed } from './fleetService';
+import type { Wave } from './combatService';
+
+// Nomad Invasion (nomad_invasion.md): a recurring world event. While it runs, pirate bases send
+// attack waves at players in range; each player's waves grow stronger, and every wave beaten back
+// earns event points for the leaderboard.
+const EVENT_INTERVAL_HOURS = parseFloat(process.env.INVASION_INTERVAL_HOURS || '72'); // From one event's end to the next start
+const EVENT_DURATION_HOURS = parseFloat(process.env.INVASION_DURATION_HOURS || '48');
+const WAVE_INTERVAL_MINUTES = parseFloat(process.env.INVASION_WAVE_INTERVAL_MINUTES || '60');
+
+const INVASION_RANGE = 500; // Pirate bases attack player planets within this distance
+const MIN_PLAYER_LEVEL = 5; // Newcomers are left alone
+const MIN_WARNING_SECONDS = 300; // Defenders always get this long to prepare
+
+// Difficulty curve: units in wave n = (BASE + level * PER_LEVEL) * GROWTH^(n - 1)
+const BASE_WAVE_UNITS = 20;
+const WAVE_UNITS_PER_PLAYER_LEVEL = 4;
+const WAVE_GROWTH = 1.2;
+const MAX_WAVE = 15; // Later waves stay at this strength
+const MAX_ATTACK_WAVES = 4; // Per lane, as for players
+
+// Event points for a successful defense
+const POINTS_PER_WAVE = 10; // Times the wave number
+const POINTS_PER_KILL = 1; // Per invader destroyed
+
+const LEADERBOARD_SIZE = 20;
+
+type Lane = 'left' | 'front' | 'right';
+
+const LANE_SHARES: Record<Lane, number> = { left: 0.3, front: 0.4, right: 0.3 };
+
+/**
+ * Total invaders in a player's nth wave
+ */
+export function getWaveStrength(wave: number, playerLevel: number): number {
+  const base = BASE_WAVE_UNITS + playerLevel * WAVE_UNITS_PER_PLAYER_LEVEL;
+  return Math.round(base * Math.pow(WAVE_GROWTH, Math.min(wave, MAX_WAVE) - 1));
+}
+
+/**
+ * Lane assignments for one invasion wave. Later waves bring Sentinels, split into more attack
+ * waves per lane and carry siege tools against the wall and gate.
+ */
+export function generateWaveLanes(wave: number, totalUnits: number): Record<Lane, Wave[]> {
+  const sentinelShare = wave >= 4 ? Math.min(0.3, (wave - 3) * 0.05) : 0;
+  const rangerShare = 0.35;
+  const attackWaves = Math.min(MAX_ATTACK_WAVES, 1 + Math.floor((wave - 1) / 3));
+  const toolsPerWave = wave >= 3 ? Math.min(5, Math.floor(wave / 3)) : 0;
+
+  const lanes = {} as Record<Lane, Wave[]>;
+  for (const lane of Object.keys(LANE_SHARES) as Lane[]) {
+    const laneUnits = Math.max(1, Math.round(totalUnits * LANE_SHARES[lane]));
+    lanes[lane] = [];
+
+    for (let i = 0; i < attackWaves; i++) {
+      const count = Math.max(1, Math.round(laneUnits / attackWaves));
+      const sentinel = Math.floor(count * sentinelShare);
+      const ranger = Math.floor(count * rangerShare);
+      const units: Record<string, number> = { marine: count - sentinel - ranger, ranger };
+      if (sentinel > 0) units.sentinel = sentinel;
+
+      const tools: Record<string, number> = {};
+      if (toolsPerWave > 0) {
+        tools[lane === 'front' ? 'breach_cutter' : 'signal_jammer'] = toolsPerWave;
+        if (wave >= 6) tools.holo_decoy = Math.floor(toolsPerWave / 2) || 1;
+      }
+
+      lanes[lane].push({ units, tools });
+    }
+  }
+  return lanes;
+}
+
+/**
+ * Make sure an event is on the calendar, and that its timer job exists (run at startup)
+ */
+export async function ensureInvasionScheduled() {
+  const event = await prisma.invasionEvent.findFirst({
+    where: { status: { in: ['scheduled', 'active'] } },
+    orderBy: { startsAt: 'asc' },
+  });
+  if (!event) {
+    await scheduleNextInvasion(new Date());
+    return;
+  }
+
+  const job = await prisma.scheduledJob.findFirst({
+    where: { type: 'invasion_tick', refId: event.id, status: { in: ['pending', 'running'] } },
+  });
+  if (!job) {
+    await scheduleJob('invasion_tick', event.id, new Date(Math.max(Date.now(), event.startsAt.getTime())));
+  }
+}
+
+async function scheduleNextInvasion(after: Date) {
+  const startsAt = new Date(after.getTime() + EVENT_INTERVAL_HOURS * 3600 * 1000);
+  const endsAt = new Date(startsAt.getTime() + EVENT_DURATION_HOURS * 3600 * 1000);
+
+  const event = await prisma.invasionEvent.create({ data: { startsAt, endsAt } });
+  await scheduleJob('invasion_tick', event.id, startsAt);
+  return event;
+}
+
+/**
+ * One step of an event: start it, send the next round of waves, or wrap it up and plan the next one.
+ * Runs as the invasion_tick job; each wave is launched by its own invasion_wave job, so a tick
+ * stays small however many players are in range.
+ */
+export async function runInvasionTick(eventId: string) {
+  const event = await prisma.invasionEvent.findUnique({ where: { id: eventId } });
+  if (!event || event.status === 'ended') return;
+
+  const now = new Date();
+  if (now >= event.endsAt) {
+    await prisma.invasionEvent.update({ where: { id: event.id }, data: { status: 'ended' } });
+    await scheduleNextInvasion(now);
+    console.log(`[Invasion] Event ${event.id} ended after ${event.wavesLaunched} waves`);
+    return;
+  }
+
+  if (event.status !== 'active') {
+    await prisma.invasionEvent.update({ where: { id: event.id }, data: { status: 'active' } });
+  }
+  await scheduleWaves(event.id, now);
+
+  const nextTick = Math.min(now.getTime() + WAVE_INTERVAL_MINUTES * 60 * 1000, event.endsAt.getTime());
+  await scheduleJob('invasion_tick', event.id, new Date(nextTick));
+}
+
+/**
+ * A tick that exhausted its retries: try again next round instead of stalling the event
+ */
+export async function retryInvasionTick(eventId: string) {
+  await scheduleJob('invasion_tick', eventId, new Date(Date.now() + WAVE_INTERVAL_MINUTES * 60 * 1000));
+}
+
+type PirateBase = { id: string; ownerId: string; x: number; y: number; name: string };
+
+async function getPirateBases(): Promise<PirateBase[]> {
+  return prisma.planet.findMany({
+    where: { isNpc: true, planetType: { not: 'moon' }, owner: { username: 'NPC_PIRATES' } },
+    select: { id: true, ownerId: true, x: true, y: true, name: true },
+  });
+}
+
+/**
+ * Closest pirate base within invasion range of a point, or null
+ */
+function findAttackingBase(bases: PirateBase[], x: number, y: number) {
+  const nearest = bases
+    .map(base => ({ base, distance: calculateDistance(base.x, base.y, x, y) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return nearest && nearest.distance <= INVASION_RANGE ? nearest : null;
+}
+
+/**
+ * Queue one wave at every eligible player planet in range of a pirate base. A planet that
+ * still has a wave heading its way (or waiting to launch) is skipped this round.
+ */
+async function scheduleWaves(eventId: string, now: Date) {
+  const bases = await getPirateBases();
+  if (bases.length === 0) return 0;
+
+  const targets = await prisma.planet.findMany({
+    where: { isNpc: false, planetType: { not: 'moon' }, owner: { level: { gte: MIN_PLAYER_LEVEL } } },
+    select: { id: true, x: true, y: true },
+  });
+
+  const incoming = await prisma.fleet.findMany({
+    where: { invasionEventId: eventId, status: 'enroute' },
+    select: { toPlanetId: true },
+  });
+  const queued = await prisma.scheduledJob.findMany({
+    where: { type: 'invasion_wave', status: { in: ['pending', 'running'] } },
+    select: { refId: true },
+  });
+  const busy = new Set([...incoming.map(f => f.toPlanetId), ...queued.map(j => j.refId)]);
+
+  let scheduled = 0;
+  for (const target of targets) {
+    if (busy.has(target.id) || !findAttackingBase(bases, target.x, target.y)) continue;
+    await scheduleJob('invasion_wave', target.id, now);
+    scheduled++;
+  }
+  return scheduled;
+}
+
+/**
+ * Send the next wave of the running event at one player planet (the invasion_wave job)
+ */
+export async function launchInvasionWave(planetId: string) {
+  const now = new Date();
+  const event = await prisma.invasionEvent.findFirst({ where: { status: 'active' } });
+  if (!event || now >= event.endsAt) return;
+
+  const target = await prisma.planet.findUnique({
+    where: { id: planetId },
+    select: { id: true, ownerId: true, x: true, y: true, name: true, isNpc: true, owner: { select: { level: true } } },
+  });
+  if (!target || target.isNpc) return;
+
+  const incoming = await prisma.fleet.count({
+    where: { invasionEventId: event.id, toPlanetId: target.id, status: 'enroute' },
+  });
+  if (incoming > 0) return;
+
+  const nearest = findAttackingBase(await getPirateBases(), target.x, target.y);
+  if (!nearest) return;
+
+  const score = await prisma.invasionScore.upsert({
+    where: { eventId_userId: { eventId: event.id, userId: target.ownerId } },
+    update: { wavesFaced: { increment: 1 } },
+    create: { eventId: event.id, userId: target.ownerId, wavesFaced: 1 },
+  });
+  const wave = score.wavesFaced;
+
+  const lanes = generateWaveLanes(wave, getWaveStrength(wave, target.owner.level));
+  const units: Record<string, number> = {};
+  const tools: Record<string, number> = {};
+  for (const attackWave of [...lanes.left, ...lanes.front, ...lanes.right]) {
+    for (const [u, c] of Object.entries(attackWave.units)) units[u] = (units[u] || 0) + c;
+    for (const [t, c] of Object.entries(attackWave.tools)) tools[t] = (tools[t] || 0) + c;
+  }
+
+  // Invaders are raised for the event; the base's own garrison is untouched
+  const travelSeconds = Math.max(MIN_WARNING_SECONDS, calculateTravelTime(nearest.distance, getFleetSpeed(units)));
+  const arriveAt = new Date(now.getTime() + travelSeconds * 1000);
+
+  const fleet = await prisma.fleet.create({
+    data: {
+      ownerId: nearest.base.ownerId,
+      fromPlanetId: nearest.base.id,
+      toPlanetId: target.id,
+      type: 'attack',
+      unitsJson: JSON.stringify(units),
+      laneAssignmentsJson: JSON.stringify(lanes),
+      toolsJson: Object.keys(tools).length > 0 ? JSON.stringify(tools) : null,
+      invasionEventId: event.id,
+      invasionWave: wave,
+      departAt: now,
+      arriveAt,
+      status: 'enroute',
+    },
+  });
+  await scheduleJob('fleet_arrival', fleet.id, arriveAt);
+  await prisma.invasionEvent.update({ where: { id: event.id }, data: { wavesLaunched: { increment: 1 } } });
+
+  pushToUser(target.ownerId, 'incoming_attack', {
+    fleetId: fleet.id,
+    type: 'attack',
+    fromPlanetId: nearest.base.id,
+    toPlanetId: target.id,
+    arriveAt,
+    fromPlanet: { id: nearest.base.id, x: nearest.base.x, y: nearest.base.y, name: nearest.base.name },
+    toPlanet: { id: target.id, x: target.x, y: target.y, name: target.name },
+    invasionWave: wave,
+  });
+}
+
+/**
+ * Score a resolved invasion wave. Only a successful defense earns points.
+ */
+export async function recordInvasionBattle(battle: {
+  eventId: string;
+  defenderId: string;
+  wave: number;
+  winner: 'attacker' | 'defender';
+  attackerLosses: Record<string, number>;
+}) {
+  if (battle.winner !== 'defender') return 0;
+
+  const kills = Object.values(battle.attackerLosses).reduce((sum, n) => sum + n, 0);
+  const points = battle.wave * POINTS_PER_WAVE + kills * POINTS_PER_KILL;
+
+  const score = await prisma.invasionScore.upsert({
+    where: { eventId_userId: { eventId: battle.eventId, userId: battle.defenderId } },
+    update: { points: { increment: points }, defenses: { increment: 1 } },
+    create: { eventId: battle.eventId, userId: battle.defenderId, points, defenses: 1 },
+  });
+
+  pushToUser(battle.defenderId, 'invasion_points', {
+    eventId: battle.eventId,
+    wave: battle.wave,
+    points,
+    total: score.points,
+  });
+  return points;
+}
+
+/**
+ * Top players of an event, with ranks
+ */
+export async function getInvasionLeaderboard(eventId: string) {
+  const scores = await prisma.invasionScore.findMany({
+    where: { eventId, points: { gt: 0 } },
+    orderBy: [{ points: 'desc' }, { updatedAt: 'asc' }],
+    take: LEADERBOARD_SIZE,
+    include: { user: { select: { username: true, level: true } } },
+  });
+
+  return scores.map((s, i) => ({
+    rank: i + 1,
+    userId: s.userId,
+    username: s.user.username,
+    level: s.user.level,
+    points: s.points,
+    defenses: s.defenses,
+    wavesFaced: s.wavesFaced,
+  }));
+}
+
+/**
+ * The running (or next, or most recent) event with the player's standing and the leaderboard
+ */
+export async function getInvasionOverview(userId: string) {
+  const event = await prisma.invasionEvent.findFirst({ where: { status: 'active' } })
+    || await prisma.invasionEvent.findFirst({ where: { status: 'scheduled' }, orderBy: { startsAt: 'asc' } });
+  const previous = await prisma.invasionEvent.findFirst({ where: { status: 'ended' }, orderBy: { endsAt: 'desc' } });
+
+  const describe = async (e: NonNullable<typeof event>) => {
+    const mine = await prisma.invasionScore.findUnique({ where: { eventId_userId: { eventId: e.id, userId } } });
+    const ahead = mine && mine.points > 0
+      ? await prisma.invasionScore.count({ where: { eventId: e.id, points: { gt: mine.points } } })
+      : null;
+
+    return {
+      id: e.id,
+      status: e.status,
+      startsAt: e.startsAt,
+      endsAt: e.endsAt,
+      wavesLaunched: e.wavesLaunched,
+      myScore: {
+        points: mine?.points || 0,
+        defenses: mine?.defenses || 0,
+        wavesFaced: mine?.wavesFaced || 0,
+        rank: ahead !== null ? ahead + 1 : null,
+      },
+      leaderboard: await getInvasionLeaderboard(e.id),
+    };
+  };
+
+  return {
+    event: event ? await describe(event) : null,
+    previous: previous ? await describe(previous) : null,
+  };
+}
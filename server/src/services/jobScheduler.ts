@@ -0,0 +1,197 @@
+import os from 'os';
+import prisma, { runInTransaction, onCommit } from '../lib/prisma';
+
+// Durable scheduler for timed events. Every due event is a scheduled_jobs row; workers claim
+// due rows with FOR UPDATE SKIP LOCKED, so several server processes can share the queue.
+export type JobType = 'fleet_arrival' | 'fleet_return' | 'construction_complete' | 'recruitment_batch' | 'research_complete'
+  | 'invasion_tick' | 'invasion_wave';
+
+type JobHandler = (refId: string) => Promise<void>;
+type GiveUpHandler = (refId: string, error: unknown) => Promise<void>;
+
+interface ClaimedJob {
+  id: string;
+  type: JobType;
+  refId: string;
+  dueAt: Date;
+  attempts: number;
+}
+
+const BATCH_SIZE = 10;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 2000; // 2s, 4s, 8s, 16s
+const MAX_IDLE = 30000; // Re-check at least this often (picks up jobs scheduled by other processes)
+const LOCK_TIMEOUT = 5 * 60 * 1000; // Jobs held by a crashed worker are reclaimed after 5 minutes
+const JOB_TX_TIMEOUT = 15000;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+const handlers = new Map<JobType, { run: JobHandler; onGiveUp?: GiveUpHandler }>();
+
+let started = false;
+let running = false;
+let timer: NodeJS.Timeout | null = null;
+let nextWakeAt = Infinity;
+
+/**
+ * Register the handler for a job type. onGiveUp runs once a job has exhausted its retries.
+ * Handlers must be idempotent: a job can run again if its worker dies mid-way.
+ */
+export function registerJobHandler(type: JobType, run: JobHandler, onGiveUp?: GiveUpHandler) {
+  handlers.set(type, { run, onGiveUp });
+}
+
+/**
+ * Store a job due at the given time
+ */
+export async function scheduleJob(type: JobType, refId: string, dueAt: Date) {
+  const job = await prisma.scheduledJob.create({ data: { type, refId, dueAt } });
+  // Inside a transaction the row only becomes visible once it commits
+  if (started) onCommit(() => wakeAt(dueAt.getTime()));
+  return job;
+}
+
+function wakeAt(at: number) {
+  const target = Math.min(at, Date.now() + MAX_IDLE);
+  if (timer && target >= nextWakeAt) return;
+  if (timer) clearTimeout(timer);
+
+  nextWakeAt = target;
+  timer = setTimeout(() => {
+    timer = null;
+    nextWakeAt = Infinity;
+    processDueJobs();
+  }, Math.max(0, target - Date.now()));
+}
+
+/**
+ * Atomically claim due jobs (plus running jobs whose lock has gone stale)
+ */
+async function claimDueJobs(): Promise<ClaimedJob[]> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - LOCK_TIMEOUT);
+
+  const jobs = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE scheduled_jobs
+    SET status = 'running', locked_by = ${WORKER_ID}, locked_at = ${now}, attempts = attempts + 1, updated_at = ${now}
+    WHERE id IN (
+      SELECT id FROM scheduled_jobs
+      WHERE (status = 'pending' AND due_at <= ${now})
+         OR (status = 'running' AND locked_at < ${staleBefore})
+      ORDER BY due_at
+      LIMIT ${BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, type, ref_id AS "refId", due_at AS "dueAt", attempts`;
+
+  return jobs.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+/**
+ * Run one job in its own transaction. The job row is deleted in the same transaction,
+ * so a job is either fully applied and gone, or untouched and retried.
+ */
+async function runJob(job: ClaimedJob) {
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) throw new Error(`No handler registered for job type ${job.type}`);
+
+    await runInTransaction(async () => {
+      // Re-lock the row; if another worker reclaimed it in the meantime, leave it to them
+      const owned = await prisma.$executeRaw`
+        UPDATE scheduled_jobs SET locked_at = ${new Date()}
+        WHERE id = ${job.id} AND locked_by = ${WORKER_ID} AND status = 'running'`;
+      if (owned === 0) return;
+
+      await handler.run(job.refId);
+      await prisma.scheduledJob.delete({ where: { id: job.id } });
+    }, JOB_TX_TIMEOUT);
+  } catch (error) {
+    await failJob(job, error, handler?.onGiveUp);
+  }
+}
+
+/**
+ * Exponential backoff before the next attempt of a job that has failed `attempts` times
+ */
+export function getRetryDelay(attempts: number) {
+  return RETRY_BASE_DELAY * Math.pow(2, attempts - 1);
+}
+
+/**
+ * Whether a job that has failed `attempts` times is given up on
+ */
+export function isOutOfAttempts(attempts: number) {
+  return attempts >= MAX_ATTEMPTS;
+}
+
+async function failJob(job: ClaimedJob, error: unknown, onGiveUp?: GiveUpHandler) {
+  const lastError = error instanceof Error ? error.message : String(error);
+
+  try {
+    if (isOutOfAttempts(job.attempts)) {
+      console.error(`Job ${job.type} ${job.refId} failed after ${job.attempts} attempts:`, error);
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: { status: 'failed', lastError, lockedBy: null, lockedAt: null }
+      });
+      if (onGiveUp) await onGiveUp(job.refId, error);
+      return;
+    }
+
+    const delay = getRetryDelay(job.attempts);
+    console.error(`Job ${job.type} ${job.refId} failed (attempt ${job.attempts}), retrying in ${delay} ms:`, error);
+    await prisma.scheduledJob.update({
+      where: { id: job.id },
+      data: { status: 'pending', dueAt: new Date(Date.now() + delay), lastError, lockedBy: null, lockedAt: null }
+    });
+  } catch (updateError) {
+    // The stale lock will be reclaimed later
+    console.error(`Error recording failure of job ${job.id}:`, updateError);
+  }
+}
+
+/**
+ * Drain every due job, then sleep until the next one is due
+ */
+async function processDueJobs() {
+  if (running) return; // The running pass re-arms the timer when it finishes
+  running = true;
+
+  try {
+    let claimed: ClaimedJob[];
+    do {
+      claimed = await claimDueJobs();
+      for (const job of claimed) {
+        await runJob(job);
+      }
+    } while (claimed.length === BATCH_SIZE);
+  } catch (error) {
+    console.error('Error in job scheduler:', error);
+  } finally {
+    running = false;
+  }
+
+  let delay = MAX_IDLE;
+  try {
+    const next = await prisma.scheduledJob.findFirst({
+      where: { status: 'pending' },
+      orderBy: { dueAt: 'asc' },
+      select: { dueAt: true }
+    });
+    if (next) delay = Math.max(0, next.dueAt.getTime() - Date.now());
+  } catch (error) {
+    console.error('Error reading next job:', error);
+  }
+  wakeAt(Date.now() + delay);
+}
+
+/**
+ * Start processing jobs in this process
+ */
+export function startJobScheduler() {
+  if (started) return;
+  started = true;
+  processDueJobs();
+}
@@ -0,0 +1,132 @@
+import prisma from '../lib/prisma';
+import { generateNpcDefense } from './pveService';
+import { recallStationedTroops } from './supportService';
+
+// Moon Colonies (GGE Outposts): small capturable bases
+export const MOON_GRID_SIZE = 6;
+
+// Base production per hour (moons are titanium-rich but poor farmland)
+export const MOON_BASE_PRODUCTION = { carbon: 40, titanium: 80, food: 30 };
+
+// Max Moon Colonies a player can hold, by player level
+const MOON_CAP_BY_LEVEL: { minLevel: number; cap: number }[] = [
+  { minLevel: 50, cap: 5 },
+  { minLevel: 30, cap: 4 },
+  { minLevel: 20, cap: 3 },
+  { minLevel: 10, cap: 2 },
+  { minLevel: 1, cap: 1 },
+];
+
+const MOON_NAMES = ['Selene', 'Phobos', 'Deimos', 'Titan', 'Europa', 'Callisto', 'Io', 'Rhea'];
+
+/**
+ * Number of Moon Colonies a player of the given level may own
+ */
+export function getMaxMoonColonies(level: number): number {
+  return MOON_CAP_BY_LEVEL.find(t => level >= t.minLevel)?.cap || 0;
+}
+
+/**
+ * Seed neutral Moon Colonies (with NPC garrisons) around a point on the Sector Chart
+ */
+export async function spawnMoonColonies(centerX: number, centerY: number) {
+  let neutralUser = await prisma.user.findUnique({ where: { username: 'NPC_NEUTRAL' } });
+  if (!neutralUser) {
+    neutralUser = await prisma.user.create({
+      data: {
+        username: 'NPC_NEUTRAL',
+        email: 'neutral@void.net',
+        passwordHash: 'npc_secret',
+      }
+    });
+  }
+
+  // 1-2 moons a little further out than the pirate ring
+  const count = Math.floor(Math.random() * 2) + 1;
+  let spawned = 0;
+  let attempts = 0;
+
+  while (spawned < count && attempts < 20) {
+    attempts++;
+
+    const angle = Math.random() * Math.PI * 2;
+    const dist = 250 + Math.random() * 200;
+    const x = Math.floor(centerX + Math.cos(angle) * dist);
+    const y = Math.floor(centerY + Math.sin(angle) * dist);
+
+    const nearby = await prisma.planet.findFirst({
+      where: {
+        x: { gte: x - 100, lte: x + 100 },
+        y: { gte: y - 100, lte: y + 100 }
+      }
+    });
+    if (nearby) continue;
+
+    const level = Math.floor(Math.random() * 2) + 1; // Garrison level 1-2
+    const name = MOON_NAMES[Math.floor(Math.random() * MOON_NAMES.length)];
+
+    const moon = await prisma.planet.create({
+      data: {
+        ownerId: neutralUser.id,
+        name: `${name} Moon Colony`,
+        x,
+        y,
+        planetType: 'moon',
+        gridSize: MOON_GRID_SIZE,
+        isNpc: true,
+        npcLevel: level,
+        carbon: 300,
+        titanium: 600,
+        food: 200,
+        credits: 50,
+      }
+    });
+
+    await generateNpcDefense(moon.id, level);
+    spawned++;
+  }
+}
+
+/**
+ * Transfer a Moon Colony to the attacker after a won surface battle.
+ * Returns false (no capture) if the target is not a moon or the attacker is at their cap.
+ */
+export async function conquerMoonColony(planetId: string, attackerId: string): Promise<{ conquered: boolean; reason?: string }> {
+  const planet = await prisma.planet.findUnique({ where: { id: planetId } });
+  if (!planet || planet.planetType !== 'moon' || planet.ownerId === attackerId) {
+    return { conquered: false };
+  }
+
+  const attacker = await prisma.user.findUnique({ where: { id: attackerId } });
+  if (!attacker) return { conquered: false };
+
+  const owned = await prisma.planet.count({ where: { ownerId: attackerId, planetType: 'moon' } });
+  if (owned >= getMaxMoonColonies(attacker.level)) {
+    return { conquered: false, reason: 'Moon Colony limit reached for your level' };
+  }
+
+  // Allied troops stationed at the moon head home
+  const stationed = await prisma.stationedTroop.findMany({ where: { hostPlanetId: planetId } });
+  for (const st of stationed) {
+    await recallStationedTroops(st.ownerId, st.id);
+  }
+
+  // The remaining garrison, wall assignments and queues do not change sides
+  await prisma.planetUnit.deleteMany({ where: { planetId } });
+  await prisma.defenseLayout.deleteMany({ where: { planetId } });
+  await prisma.toolInventory.deleteMany({ where: { planetId } });
+
+  await prisma.planet.update({
+    where: { id: planetId },
+    data: {
+      ownerId: attackerId,
+      isNpc: false,
+      npcLevel: 0,
+      spyCount: 0,
+      recruitmentQueue: null,
+      manufacturingQueue: null,
+    }
+  });
+
+  return { conquered: true };
+}
@@ -1,17 +1,50 @@
-import prisma from '../lib/prisma';
+import prisma, { runInTransaction } from '../lib/prisma';
 import { spawnPirateBases } from './pveService';
 import { processManufacturingQueue } from './toolService';
-
-const WORLD_SIZE_X = parseInt(process.env.WORLD_SIZE_X || '5000');
-const WORLD_SIZE_Y = parseInt(process.env.WORLD_SIZE_Y || '5000');
+import { MOON_BASE_PRODUCTION, spawnMoonColonies } from './outpostService';
+import { scheduleJob } from './jobScheduler';
+import { enqueueConstruction, processConstructionQueue } from './constructionService';
+import { GRID_EXPANSION_LEVELS, checkUnitUnlocked, awardRecruitmentXp } from './progressionService';
+import { pushToUser } from './realtimeService';
+import { getResearchBonuses } from './researchService';
+import {
+  getBuildingDefinition,
+  getBuildingSize,
+  getBuildingEffects,
+  getBuildingLevel,
+  sumBuildingEffect,
+  checkBuildingRequirements,
+} from './buildingCatalog';
+
+export const WORLD_SIZE_X = parseInt(process.env.WORLD_SIZE_X || '5000');
+export const WORLD_SIZE_Y = parseInt(process.env.WORLD_SIZE_Y || '5000');
 const MIN_PLANET_DISTANCE = parseInt(process.env.MIN_PLANET_DISTANCE || '120'); // Increased to prevent visual overlap
 
 // Production constants
-const BASE_PRODUCTION_RATE = 100; // Per hour
-const LEVEL_MULTIPLIER = 50; // Extra per hour per level
+const BASE_PRODUCTION_RATE = 100; // Per hour (Colony Hub); buildings add their catalog production
 const UNIT_UPKEEP = 1; // Food per unit per hour
-const MAX_STORAGE_BASE = 1000;
-const STORAGE_LEVEL_MULTIPLIER = 500;
+const MAX_STORAGE_BASE = 1000; // Per resource, without a Storehouse
+const STORAGE_PROTECTED_SHARE = 0.1; // Share of storage hidden from raiders
+
+// Stability (Public Order)
+const BASE_STABILITY = 100; // Buildings add their catalog stability on top
+const OVERCROWDING_THRESHOLD = 60; // % of the grid built over before citizens complain
+const OVERCROWDING_PENALTY = 1; // Per % above the threshold
+const DEFEAT_MALUS = 20; // Per lost defense
+const DEFEAT_MALUS_MAX = 60;
+const DEFEAT_MALUS_DECAY_HOURS = 12;
+
+// Population & tax
+const BASE_POPULATION = 100; // Citizens of the Colony Hub itself
+const TAX_PER_CITIZEN = 2; // Credits per citizen per hour
+
+// Grid expansion (GGE wall expansions): +1 row and column each, unlocked by player level
+const BASE_GRID_SIZE = 10;
+const GRID_EXPANSION_COST = 250; // Carbon and titanium, times the expansion number
+
+// Demolition
+const DEMOLISH_REFUND_SHARE = 0.3; // Of everything spent on the building's levels
+const DEMOLISH_TIME_SHARE = 0.1; // Of the current level's build time
 
 interface UnitCounts {
   [unitType: string]: number;
@@ -114,8 +147,17 @@ async function generatePlanetPosition(quadrant?: 'NW' | 'NE' | 'SW' | 'SE'): Pro
 /**
  * Lazy Resource Evaluation:
  * Syncs resources based on time elapsed since last update.
+ * The planet row stays locked until the sync commits, so request handlers and scheduled
+ * jobs syncing the same planet at once cannot both apply a finished order.
  */
-export async function syncPlanetResources(planetId: string) {
+export function syncPlanetResources(planetId: string) {
+  return runInTransaction(async () => {
+    await prisma.$queryRaw`SELECT id FROM planets WHERE id = ${planetId} FOR UPDATE`;
+    return applyPlanetSync(planetId);
+  });
+}
+
+async function applyPlanetSync(planetId: string) {
   const planet = await prisma.planet.findUnique({
     where: { id: planetId },
     include: {
@@ -132,68 +174,47 @@ export async function syncPlanetResources(planetId: string) {
   const diffMs = now.getTime() - lastUpdate.getTime();
   const diffHours = diffMs / (1000 * 60 * 60);
 
-  // 1. Check Construction Status
-  // If a building is constructing/upgrading, finish it.
-  if (planet.activeBuildId && planet.buildFinishTime && planet.buildFinishTime <= now) {
-    // Check if it was an upgrade or new construction
-    const building = planet.buildings.find(b => b.id === planet.activeBuildId);
-    if (building) {
-      const isUpgrade = building.status === 'upgrading';
-
-      await prisma.building.update({
-        where: { id: planet.activeBuildId },
-        data: {
-          status: 'active',
-          level: isUpgrade ? { increment: 1 } : undefined
-        }
-      });
-    }
+  // 1. Complete finished construction orders (patches planet.buildings and demolition refunds)
+  await processConstructionQueue(planet, now);
 
-    // Clear build slot
-    await prisma.planet.update({
-      where: { id: planetId },
-      data: { isBuilding: false, activeBuildId: null, buildFinishTime: null }
-    });
-    // Refresh
-    const builtBuilding = await prisma.building.findUnique({ where: { id: planet.activeBuildId } });
-    if (builtBuilding) {
-      // Update the local building in memory for resource calc?
-      // Easiest to just re-fetch planet lightly or patch local array
-      const bIndex = planet.buildings.findIndex(b => b.id === builtBuilding.id);
-      if (bIndex !== -1) planet.buildings[bIndex] = builtBuilding;
-    }
-  }
-
-  // Calculate Production Sums
-  let carbonLevel = 0;
-  let titaniumLevel = 0;
-  let foodLevel = 0;
-
-  for (const b of planet.buildings) {
-    if (b.status === 'active' || b.status === 'upgrading') {
-      if (b.type === 'carbon_processor') carbonLevel += b.level;
-      if (b.type === 'titanium_extractor') titaniumLevel += b.level;
-      if (b.type === 'hydroponics') foodLevel += b.level;
-    }
-  }
+  // Calculate Production Sums (per-level production from the building catalog)
+  const buildingProduction = {
+    carbon: sumBuildingEffect(planet.buildings, 'carbon'),
+    titanium: sumBuildingEffect(planet.buildings, 'titanium'),
+    food: sumBuildingEffect(planet.buildings, 'food'),
+  };
 
   // Add Base (Command Center equiv) or just base 1
   // If they have no buildings, should they produce? Yes, base rate.
 
   // STABILITY MODIFIER
-  // 100 Stability = 100% Production.
-  // 0 Stability = 0% Production? Or just reduced? GGE usually has linear scaling.
-  // Let's assume linear for now: Production * (Stability / 100).
-  const stabilityMult = Math.max(0, planet.stability / 100);
-
-  const carbonRate = (BASE_PRODUCTION_RATE + (carbonLevel * LEVEL_MULTIPLIER)) * stabilityMult;
-  const titaniumRate = (BASE_PRODUCTION_RATE + (titaniumLevel * LEVEL_MULTIPLIER)) * stabilityMult;
-  const foodRate = (BASE_PRODUCTION_RATE + (foodLevel * LEVEL_MULTIPLIER)) * stabilityMult;
-
-  // Calculate Gains
-  let newCarbon = planet.carbon + (carbonRate * diffHours);
-  let newTitanium = planet.titanium + (titaniumRate * diffHours);
-  let newFood = planet.food + (foodRate * diffHours);
+  // 100 Stability = 100% Production, scaling linearly: Production * (Stability / 100).
+  const { stability, sources: stabilitySources } = calculateStability(planet, planet.buildings, now);
+  const stabilityMult = stability / 100;
+
+  // Moon Colonies have their own (smaller, titanium-heavy) base output
+  const baseRates = planet.planetType === 'moon'
+    ? MOON_BASE_PRODUCTION
+    : { carbon: BASE_PRODUCTION_RATE, titanium: BASE_PRODUCTION_RATE, food: BASE_PRODUCTION_RATE };
+
+  // Research (Automated Haulers) boosts every stored resource
+  const research = await getResearchBonuses(planet.ownerId);
+  const researchMult = 1 + research.production / 100;
+
+  const carbonRate = (baseRates.carbon + buildingProduction.carbon) * stabilityMult * researchMult;
+  const titaniumRate = (baseRates.titanium + buildingProduction.titanium) * stabilityMult * researchMult;
+  const foodRate = (baseRates.food + buildingProduction.food) * stabilityMult * researchMult;
+
+  // Population tax
+  const population = calculatePopulation(planet.buildings);
+  const creditRate = population * TAX_PER_CITIZEN * stabilityMult;
+
+  // Calculate Gains (production stops at the storage cap)
+  const storageCap = calculateStorageCapacity(planet.buildings);
+  const newCarbon = addToStorage(planet.carbon, carbonRate * diffHours, storageCap);
+  const newTitanium = addToStorage(planet.titanium, titaniumRate * diffHours, storageCap);
+  let newFood = addToStorage(planet.food, foodRate * diffHours, storageCap);
+  const newCredits = addToStorage(planet.credits, creditRate * diffHours, storageCap);
 
   // Apply Unit Upkeep (Food)
   // New Upkeep: 4 per unit per hour
@@ -249,10 +270,22 @@ export async function syncPlanetResources(planetId: string) {
 
         const nowMs = now.getTime();
         const pendingQueue = [];
+        const completed: { unit: string; count: number }[] = [];
 
         for (const batch of queue) {
           const finishTime = new Date(batch.finishTime).getTime();
           if (finishTime <= nowMs) {
+            completed.push({ unit: batch.unit, count: batch.count });
+
+            // Agents trained at the Intelligence Hub are tracked on the planet, not as units
+            if (batch.unit === 'spy') {
+              await prisma.planet.update({
+                where: { id: planet.id },
+                data: { spyCount: { increment: batch.count } }
+              });
+              continue;
+            }
+
             // Add units
             await prisma.planetUnit.upsert({
               where: {
@@ -279,6 +312,7 @@ export async function syncPlanetResources(planetId: string) {
             where: { id: planet.id },
             data: { recruitmentQueue: JSON.stringify(pendingQueue) }
           });
+          pushToUser(planet.ownerId, 'queue_completed', { planetId: planet.id, batches: completed });
         }
       }
     } catch (e) {
@@ -296,12 +330,158 @@ export async function syncPlanetResources(planetId: string) {
       carbon: newCarbon,
       titanium: newTitanium,
       food: newFood,
+      credits: newCredits,
+      population,
+      stability,
       lastResourceUpdate: now,
     },
     include: { units: true, buildings: true, tools: true }, // Return units for correct reducing in API
   });
 
-  return updatedPlanet;
+  // Net hourly rates, so clients can tick resources locally between pushes
+  const productionRates = {
+    carbon: carbonRate,
+    titanium: titaniumRate,
+    food: foodRate - updatedPlanet.units.reduce((sum, u) => sum + u.count, 0) * FOOD_PER_UNIT,
+    credits: creditRate,
+  };
+  const storage = {
+    capacity: storageCap,
+    protected: calculateProtectedStorage(planet.buildings),
+  };
+
+  return { ...updatedPlanet, productionRates, stabilitySources, storage };
+}
+
+/**
+ * Maximum amount of each resource (carbon, titanium, food, credits) a planet can hold
+ */
+export function calculateStorageCapacity(buildings: { type: string; level: number; status: string }[]): number {
+  return Math.max(MAX_STORAGE_BASE, sumBuildingEffect(buildings, 'storage'));
+}
+
+/**
+ * Amount of each stored resource that raiders cannot plunder
+ */
+export function calculateProtectedStorage(buildings: { type: string; level: number; status: string }[]): number {
+  return Math.floor(calculateStorageCapacity(buildings) * STORAGE_PROTECTED_SHARE);
+}
+
+/**
+ * Room left for a resource before it hits the storage cap
+ */
+export function getStorageSpace(current: number, capacity: number): number {
+  return Math.max(0, capacity - Math.floor(current));
+}
+
+// Stock already above the cap (e.g. after lowering it) is kept, it just stops growing
+function addToStorage(current: number, gain: number, capacity: number): number {
+  if (current >= capacity) return current;
+  return Math.min(capacity, current + gain);
+}
+
+/**
+ * Stability (Public Order) of a planet from its layout and recent defeats.
+ * 100 is neutral; production scales linearly with it.
+ */
+export function calculateStability(
+  planet: { gridSize: number; defeatMalus: number; defeatMalusAt: Date | null },
+  buildings: { type: string; level: number; status: string }[],
+  now: Date = new Date()
+) {
+  let decorations = 0;
+  let housing = 0;
+  let military = 0;
+  let occupiedTiles = 0;
+
+  for (const b of buildings) {
+    const size = getBuildingSize(b.type);
+    occupiedTiles += size * size;
+
+    // Only finished levels count
+    const effects = getBuildingEffects(b);
+    if (!effects.stability) continue;
+    if (getBuildingDefinition(b.type)?.category === 'decoration') decorations += effects.stability;
+    else if (effects.population) housing += effects.stability;
+    else military += effects.stability;
+  }
+
+  // Overcrowding: every percent of the grid built over beyond the threshold
+  const occupiedPct = (occupiedTiles / (planet.gridSize * planet.gridSize)) * 100;
+  const overcrowding = -Math.max(0, Math.round(occupiedPct - OVERCROWDING_THRESHOLD) * OVERCROWDING_PENALTY);
+
+  const defeats = -getDefeatMalus(planet, now);
+
+  const sources = [
+    { source: 'base', label: 'Colony Hub', value: BASE_STABILITY },
+    { source: 'decorations', label: 'Monuments & Decorations', value: decorations },
+    { source: 'housing', label: 'Dwellings', value: housing },
+    { source: 'military', label: 'Military Buildings', value: military },
+    { source: 'overcrowding', label: 'Overcrowding', value: overcrowding },
+    { source: 'defeats', label: 'Recent Defeats', value: defeats },
+  ];
+
+  return {
+    stability: Math.max(0, sources.reduce((sum, s) => sum + s.value, 0)),
+    sources,
+  };
+}
+
+/**
+ * Remaining defeat malus: falls linearly to zero over DEFEAT_MALUS_DECAY_HOURS
+ */
+function getDefeatMalus(planet: { defeatMalus: number; defeatMalusAt: Date | null }, now: Date): number {
+  if (!planet.defeatMalus || !planet.defeatMalusAt) return 0;
+  const hours = (now.getTime() - planet.defeatMalusAt.getTime()) / (1000 * 60 * 60);
+  return Math.round(planet.defeatMalus * Math.max(0, 1 - hours / DEFEAT_MALUS_DECAY_HOURS));
+}
+
+/**
+ * A lost defense shakes the population: stack a malus on top of what is left of the previous one
+ */
+export async function applyDefeatMalus(planetId: string) {
+  const planet = await prisma.planet.findUnique({
+    where: { id: planetId },
+    select: { defeatMalus: true, defeatMalusAt: true },
+  });
+  if (!planet) return;
+
+  const now = new Date();
+  await prisma.planet.update({
+    where: { id: planetId },
+    data: {
+      defeatMalus: Math.min(DEFEAT_MALUS_MAX, getDefeatMalus(planet, now) + DEFEAT_MALUS),
+      defeatMalusAt: now,
+    },
+  });
+}
+
+/**
+ * Citizens living on a planet: the Colony Hub's base plus Dwellings and Town Houses
+ */
+export function calculatePopulation(buildings: { type: string; level: number; status: string }[]): number {
+  // Buildings under construction house nobody yet; upgrading ones keep their current level
+  return BASE_POPULATION + sumBuildingEffect(buildings, 'population');
+}
+
+/**
+ * Whether a size x size footprint at (x, y) lies entirely on the planet's grid
+ */
+function fitsOnGrid(gridSize: number, size: number, x: number, y: number): boolean {
+  return x >= 0 && y >= 0 && x + size <= gridSize && y + size <= gridSize;
+}
+
+/**
+ * First building whose footprint overlaps a size x size square at (x, y) (simple AABB)
+ */
+function findOverlappingBuilding<T extends { id: string; type: string; x: number; y: number }>(
+  buildings: T[], size: number, x: number, y: number, ignoreId?: string
+): T | undefined {
+  return buildings.find(b => {
+    if (b.id === ignoreId) return false;
+    const bSize = getBuildingSize(b.type);
+    return x < b.x + bSize && x + size > b.x && y < b.y + bSize && y + size > b.y;
+  });
 }
 
 /**
@@ -311,119 +491,219 @@ export async function placeBuilding(planetId: string, type: string, x: number, y
   const planet = await syncPlanetResources(planetId);
   if (!planet) throw new Error('Planet not found');
 
-  if (planet.isBuilding) {
-    throw new Error('Construction slot occupied');
-  }
+  const def = getBuildingDefinition(type);
+  if (!def) throw new Error('Unknown building type');
 
-  // Check Grid Bounds
-  if (x < 0 || x >= planet.gridSize || y < 0 || y >= planet.gridSize) {
+  // The whole footprint has to stay on the grid
+  if (!fitsOnGrid(planet.gridSize, def.size, x, y)) {
     throw new Error('Position out of bounds');
   }
 
-  // Collision Check
-  // Assuming 2x2 for resource/academy for now (simplified from query plan)
-  // Actually, let's stick to 1x1 for MVP simplicity unless user specifically asked for multi-tile "fit".
-  // The user said "plot of land... fit a certain number... free space".
-  // Let's implement dynamic size check.
-  const BUILDING_SIZES: any = {
-    'carbon_processor': 2,
-    'titanium_extractor': 2,
-    'hydroponics': 2,
-    'academy': 3,
-    'colony_hub': 4,
-    'tavern': 2,           // Intelligence Hub
-    'defense_workshop': 2, // Systems Workshop
-    'siege_workshop': 2,   // Munitions Factory
-    'monument': 1          // Holo-Monument
-  };
-  const size = BUILDING_SIZES[type] || 2;
-
-  // Check collision with all existing buildings
-  // Simple AABB
-  for (const b of (planet as any).buildings) {
-    const bSize = BUILDING_SIZES[b.type] || 2;
-    // If rectangles overlap
-    if (x < b.x + bSize && x + size > b.x &&
-      y < b.y + bSize && y + size > b.y) {
-
-      // If it's the SAME building, we might be Upgrading it
-      if (b.x === x && b.y === y && b.type === type) {
-        return upgradeBuilding(planet, b);
-      }
-      throw new Error(`Space occupied by ${b.type}`);
+  // Collision Check (multi-tile footprints)
+  const blocker = findOverlappingBuilding(planet.buildings, def.size, x, y);
+  if (blocker) {
+    // If it's the SAME building, we might be Upgrading it
+    if (blocker.x === x && blocker.y === y && blocker.type === type) {
+      return upgradeBuilding(planet, blocker);
     }
+    throw new Error(`Space occupied by ${blocker.type}`);
   }
 
   // It's a new building
-  const cost = 100; // Base cost for lvl 1
-  const time = 30; // Seconds
+  if (!def.buildable) throw new Error(`${def.name} cannot be built`);
+
+  // Per-planet limit
+  const count = planet.buildings.filter(b => b.type === type).length;
+  if (def.limit && count >= def.limit) {
+    throw new Error(def.limit === 1 ? `Only one ${def.name} per planet` : `Only ${def.limit} ${def.name} per planet`);
+  }
+
+  const owner = await prisma.user.findUnique({ where: { id: planet.ownerId }, select: { level: true } });
+  checkBuildingRequirements(type, 1, owner?.level || 1, await getRequirementBuildings(planet));
+
+  const cost = getBuildingLevel(type, 1)!;
 
-  if (planet.carbon < cost || planet.titanium < cost) {
+  if (planet.carbon < cost.carbon || planet.titanium < cost.titanium || planet.credits < cost.credits) {
     throw new Error('Insufficient resources');
   }
 
-  // Create Building Record (Constructing)
-  const finishTime = new Date();
-  finishTime.setSeconds(finishTime.getSeconds() + time);
+  // Create Building Record (Constructing); it holds its tiles while waiting in the queue.
+  // A full queue rolls the record back.
+  return runInTransaction(async () => {
+    const building = await prisma.building.create({
+      data: {
+        planetId: planet.id,
+        type,
+        x,
+        y,
+        level: 1,
+        status: 'constructing'
+      }
+    });
 
-  const building = await prisma.building.create({
-    data: {
-      planetId: planet.id,
+    await enqueueConstruction(planet, {
+      buildingId: building.id,
       type,
-      x,
-      y,
       level: 1,
-      status: 'constructing'
-    }
-  });
+      cost: { carbon: cost.carbon, titanium: cost.titanium, credits: cost.credits },
+      duration: cost.time,
+    });
 
-  // Set Planet Construction State
-  await prisma.planet.update({
-    where: { id: planet.id },
-    data: {
-      carbon: { decrement: cost },
-      titanium: { decrement: cost },
-      isBuilding: true,
-      activeBuildId: building.id,
-      buildFinishTime: finishTime
-    }
+    return building;
   });
+}
 
-  return building;
+/**
+ * Buildings checked against Colony Hub requirements. Moon Colonies have no hub of their own;
+ * they build under the hub of their owner's main colony.
+ */
+async function getRequirementBuildings(planet: { ownerId: string; planetType: string; buildings: { type: string; level: number; status: string }[] }) {
+  if (planet.planetType !== 'moon') return planet.buildings;
+
+  const hubs = await prisma.building.findMany({
+    where: { type: 'colony_hub', planet: { ownerId: planet.ownerId, planetType: { not: 'moon' } } },
+    select: { type: true, level: true, status: true },
+  });
+  return [...planet.buildings, ...hubs];
 }
 
 async function upgradeBuilding(planet: any, building: any) {
   // Current Level
   const level = building.level;
-  const cost = Math.floor(100 * Math.pow(1.5, level));
-  const time = 30 * (level + 1);
+  const owner = await prisma.user.findUnique({ where: { id: planet.ownerId }, select: { level: true } });
+  checkBuildingRequirements(building.type, level + 1, owner?.level || 1, await getRequirementBuildings(planet));
+
+  const cost = getBuildingLevel(building.type, level + 1)!;
 
-  if (planet.carbon < cost || planet.titanium < cost) {
+  if (planet.carbon < cost.carbon || planet.titanium < cost.titanium || planet.credits < cost.credits) {
     throw new Error(`Insufficient resources for upgrade to level ${level + 1}`);
   }
 
-  const finishTime = new Date();
-  finishTime.setSeconds(finishTime.getSeconds() + time);
+  // Queue first: a building already in the queue cannot take a second order
+  await enqueueConstruction(planet, {
+    buildingId: building.id,
+    type: building.type,
+    level: level + 1,
+    cost: { carbon: cost.carbon, titanium: cost.titanium, credits: cost.credits },
+    duration: cost.time,
+  });
 
-  // Update Building Status
+  // Keeps producing at its current level until the upgrade completes
   await prisma.building.update({
     where: { id: building.id },
     data: { status: 'upgrading' }
   });
 
-  // Update Planet State
-  await prisma.planet.update({
+  return { ...building, status: 'upgrading' };
+}
+
+/**
+ * Move a building to a free spot. Instant; buildings in the construction queue move too.
+ */
+export async function moveBuilding(planetId: string, buildingId: string, x: number, y: number) {
+  const planet = await prisma.planet.findUnique({ where: { id: planetId }, include: { buildings: true } });
+  if (!planet) throw new Error('Planet not found');
+
+  const building = planet.buildings.find(b => b.id === buildingId);
+  if (!building) throw new Error('Building not found');
+
+  // The whole footprint has to stay on the grid
+  const size = getBuildingSize(building.type);
+  if (!fitsOnGrid(planet.gridSize, size, x, y)) {
+    throw new Error('Position out of bounds');
+  }
+
+  const blocker = findOverlappingBuilding(planet.buildings, size, x, y, building.id);
+  if (blocker) throw new Error(`Space occupied by ${blocker.type}`);
+
+  return prisma.building.update({
+    where: { id: building.id },
+    data: { x, y },
+  });
+}
+
+/**
+ * Tear a building down. Takes a construction slot for a while; the refund arrives when it is gone.
+ */
+export async function demolishBuilding(planetId: string, buildingId: string) {
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  const building = planet.buildings.find(b => b.id === buildingId);
+  if (!building) throw new Error('Building not found');
+
+  const def = getBuildingDefinition(building.type);
+  if (!def?.buildable || def.permanent) throw new Error(`${def?.name || building.type} cannot be demolished`);
+  if (building.status !== 'active') throw new Error('Only finished buildings can be demolished');
+
+  const spent = def.levels.slice(0, building.level);
+  const refund = {
+    carbon: Math.floor(spent.reduce((sum, l) => sum + l.carbon, 0) * DEMOLISH_REFUND_SHARE),
+    titanium: Math.floor(spent.reduce((sum, l) => sum + l.titanium, 0) * DEMOLISH_REFUND_SHARE),
+    credits: Math.floor(spent.reduce((sum, l) => sum + l.credits, 0) * DEMOLISH_REFUND_SHARE),
+  };
+
+  await enqueueConstruction(planet, {
+    buildingId: building.id,
+    type: building.type,
+    level: 0,
+    cost: { carbon: 0, titanium: 0, credits: 0 },
+    refund,
+    duration: Math.max(5, Math.round(def.levels[building.level - 1].time * DEMOLISH_TIME_SHARE)),
+  });
+
+  // Stops producing right away
+  await prisma.building.update({
+    where: { id: building.id },
+    data: { status: 'demolishing' }
+  });
+
+  return { ...building, status: 'demolishing', refund };
+}
+
+/**
+ * Player level needed for a planet's next grid expansion, or null once all are unlocked
+ */
+export function getNextGridExpansion(planet: { gridSize: number; planetType: string }) {
+  if (planet.planetType === 'moon') return null;
+  const expansion = planet.gridSize - BASE_GRID_SIZE + 1;
+  if (expansion > GRID_EXPANSION_LEVELS.length) return null;
+  return {
+    expansion,
+    playerLevel: GRID_EXPANSION_LEVELS[expansion - 1],
+    carbon: GRID_EXPANSION_COST * expansion,
+    titanium: GRID_EXPANSION_COST * expansion,
+  };
+}
+
+/**
+ * Grow the grid by one row and column
+ */
+export async function expandGrid(planetId: string) {
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  if (planet.planetType === 'moon') throw new Error('Moon Colonies cannot be expanded');
+  const next = getNextGridExpansion(planet);
+  if (!next) throw new Error('Grid is fully expanded');
+
+  const owner = await prisma.user.findUnique({ where: { id: planet.ownerId }, select: { level: true } });
+  if ((owner?.level || 1) < next.playerLevel) {
+    throw new Error(`Grid expansion ${next.expansion} requires player level ${next.playerLevel}`);
+  }
+
+  if (planet.carbon < next.carbon || planet.titanium < next.titanium) {
+    throw new Error('Insufficient resources');
+  }
+
+  return prisma.planet.update({
     where: { id: planet.id },
     data: {
-      carbon: { decrement: cost },
-      titanium: { decrement: cost },
-      isBuilding: true,
-      activeBuildId: building.id,
-      buildFinishTime: finishTime
-    }
+      carbon: { decrement: next.carbon },
+      titanium: { decrement: next.titanium },
+      gridSize: { increment: 1 },
+    },
   });
-
-  return { ...building, status: 'upgrading' };
 }
 
 /**
@@ -471,6 +751,7 @@ export async function spawnPlanet(userId: string, username: string, quadrant?: '
 
   // Spawn NPCs around the new user
   await spawnPirateBases(userId, position.x, position.y).catch(err => console.error('Failed to spawn NPCs:', err));
+  await spawnMoonColonies(position.x, position.y).catch(err => console.error('Failed to spawn Moon Colonies:', err));
 
   console.log(`Spawned planet for user ${userId} at (${position.x}, ${position.y})`);
 }
@@ -492,21 +773,23 @@ export async function recruitUnit(planetId: string, unitType: string, count: num
     throw new Error('Fleet Academy required');
   }
 
-  // Costs
+  // Costs (troops are paid in credits)
   const COSTS: any = {
-    marine: { c: 20, t: 0, time: 20 },
-    ranger: { c: 30, t: 10, time: 30 },
-    sentinel: { c: 10, t: 40, time: 40 },
+    marine: { credits: 48, time: 20 },
+    ranger: { credits: 41, time: 30 },
+    sentinel: { credits: 200, time: 40 },
   };
 
   const unitStats = COSTS[unitType];
   if (!unitStats) throw new Error('Invalid unit type');
 
-  const totalCarbon = unitStats.c * count;
-  const totalTitanium = unitStats.t * count;
+  const owner = await prisma.user.findUnique({ where: { id: planet.ownerId }, select: { level: true } });
+  checkUnitUnlocked(unitType, owner?.level || 1);
+
+  const totalCredits = unitStats.credits * count;
 
-  if (planet.carbon < totalCarbon || planet.titanium < totalTitanium) {
-    throw new Error(`Insufficient resources`);
+  if (planet.credits < totalCredits) {
+    throw new Error(`Insufficient credits`);
   }
 
   // Calculate Finish Time
@@ -533,9 +816,10 @@ export async function recruitUnit(planetId: string, unitType: string, count: num
   // Already calculated at start
   const acLvl = academyLevel;
 
-  // Apply Academy Speedup (5% per level)
+  // Apply Academy Speedup (5% per level) and research (Elite Training)
   const speedup = 1 - (Math.min(0.5, acLvl * 0.05));
-  const durationPerUnit = unitStats.time * speedup;
+  const research = await getResearchBonuses(planet.ownerId);
+  const durationPerUnit = unitStats.time * speedup * (1 - research.recruitSpeed / 100);
   const totalDuration = durationPerUnit * count;
 
   const finishTime = new Date(startTime.getTime() + (totalDuration * 1000));
@@ -551,11 +835,12 @@ export async function recruitUnit(planetId: string, unitType: string, count: num
   await prisma.planet.update({
     where: { id: planetId },
     data: {
-      carbon: { decrement: totalCarbon },
-      titanium: { decrement: totalTitanium },
+      credits: { decrement: totalCredits },
       recruitmentQueue: JSON.stringify(recruitmentQueue)
     }
   });
+  await scheduleJob('recruitment_batch', planetId, finishTime);
+  await awardRecruitmentXp(planet.ownerId, totalCredits);
 
   return { queue: recruitmentQueue };
 }
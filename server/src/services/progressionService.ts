@@ -1,33 +1,86 @@
-
 import prisma from '../lib/prisma';
+import { pushToUser } from './realtimeService';
+import { listBuildingCatalog } from './buildingCatalog';
+import { changeDarkMatter, getLevelUpReward } from './darkMatterService';
+import { getPirateTier } from './pveService';
+
+// XP Curve (Player_Level.md): cumulative XP to reach a level = 30 * level^2
+// e.g. Lv 1: 30 XP, Lv 2: 120 XP, Lv 3: 270 XP ... Lv 70: 147,000 XP
+// (XP to the next level grows by 60 per level)
+export const MAX_LEVEL = 70;
 
-// XP Curve: Required XP to reach next Level = 100 * (CurrentLevel)^2
-// e.g. Lv 1->2: 100 XP
-// Lv 2->3: 400 XP (Total)
-// Lv 3->4: 900 XP (Total)
 export const calculateXpForLevel = (level: number): number => {
-    return 100 * Math.pow(level, 2);
+    return 30 * Math.pow(level, 2);
+};
+
+// XP awards
+const XP_PER_BUILDING_LEVEL = 10; // Completed construction: times the level reached
+const RECRUIT_CREDITS_PER_XP = 50; // Recruitment: 1 XP per this many credits spent
+const XP_PER_ENEMY_LOSS = 1; // Battles: per enemy unit lost, for the victor
+const XP_PER_PIRATE_LEVEL = 25; // Defeated pirate base: times its npcLevel and tier reward
+
+// Level unlocks (Player_Level.md). Building levels carry their own player level in the
+// building catalog; troop types and grid (wall) expansions are gated here.
+export const UNIT_UNLOCK_LEVELS: Record<string, number> = {
+    marine: 1,
+    ranger: 2, // With the first Barracks
+    sentinel: 5,
+};
+
+export const UNIT_LABELS: Record<string, string> = {
+    marine: 'Marine',
+    ranger: 'Ranger',
+    sentinel: 'Sentinel',
+};
+
+// Player level of each grid expansion (+1 row and column), GGE wall expansions
+export const GRID_EXPANSION_LEVELS = [1, 2, 4, 5, 7, 10, 14, 16, 18, 20, 26, 30, 38, 46];
+
+/**
+ * Throws if the player's level is too low to recruit this troop type
+ */
+export const checkUnitUnlocked = (unitType: string, playerLevel: number) => {
+    const required = UNIT_UNLOCK_LEVELS[unitType] || 1;
+    if (playerLevel < required) {
+        throw new Error(`${UNIT_LABELS[unitType] || unitType} requires player level ${required}`);
+    }
+};
+
+/**
+ * Everything a player gains access to on reaching a level (for the level-up report)
+ */
+export const getLevelUnlocks = (level: number): string[] => {
+    const unlocks: string[] = [];
+
+    for (const def of listBuildingCatalog()) {
+        if (!def.buildable) continue;
+        def.levels.forEach((l, i) => {
+            if (l.playerLevel === level) unlocks.push(`${def.name} ${i + 1}`);
+        });
+    }
+
+    for (const [unit, required] of Object.entries(UNIT_UNLOCK_LEVELS)) {
+        if (required === level) unlocks.push(UNIT_LABELS[unit]);
+    }
+
+    const expansion = GRID_EXPANSION_LEVELS.indexOf(level);
+    if (expansion !== -1) unlocks.push(`Grid expansion ${expansion + 1}`);
+
+    return unlocks;
 };
 
 export const addXp = async (userId: string, amount: number) => {
     const user = await prisma.user.findUnique({ where: { id: userId } });
     if (!user) throw new Error('User not found');
 
-    let newXp = user.xp + amount;
+    const newXp = user.xp + Math.max(0, Math.floor(amount));
     let newLevel = user.level;
-    let leveledUp = false;
+    const gainedLevels: number[] = [];
 
     // Check for level up(s)
-    let nextLevelXp = calculateXpForLevel(newLevel);
-    while (newXp >= nextLevelXp) {
+    while (newLevel < MAX_LEVEL && newXp >= calculateXpForLevel(newLevel + 1)) {
         newLevel++;
-        leveledUp = true;
-        nextLevelXp = calculateXpForLevel(newLevel);
-    }
-
-    if (leveledUp) {
-        console.log(`User ${user.username} leveled up to ${newLevel}!`);
-        // TODO: Grant level up rewards (Rubies, etc.)
+        gainedLevels.push(newLevel);
     }
 
     const updatedUser = await prisma.user.update({
@@ -38,9 +91,56 @@ export const addXp = async (userId: string, amount: number) => {
         }
     });
 
+    // One mailbox report and Dark Matter reward per level gained
+    for (const level of gainedLevels) {
+        const unlocks = getLevelUnlocks(level);
+        const darkMatter = getLevelUpReward(level, MAX_LEVEL);
+        await changeDarkMatter(userId, darkMatter, 'level_up', String(level));
+        await prisma.levelUpReport.create({
+            data: { userId, level, unlocksJson: JSON.stringify(unlocks), darkMatter }
+        });
+        pushToUser(userId, 'level_up', { level, unlocks, darkMatter });
+    }
+
     return {
         user: updatedUser,
-        leveledUp,
-        xpToNextLevel: nextLevelXp - newXp
+        leveledUp: gainedLevels.length > 0,
+        xpToNextLevel: newLevel < MAX_LEVEL ? calculateXpForLevel(newLevel + 1) - newXp : 0
     };
 };
+
+export const awardConstructionXp = (userId: string, level: number) => {
+    return addXp(userId, XP_PER_BUILDING_LEVEL * level);
+};
+
+export const awardRecruitmentXp = (userId: string, creditsSpent: number) => {
+    return addXp(userId, creditsSpent / RECRUIT_CREDITS_PER_XP);
+};
+
+const countUnits = (units: Record<string, number>) =>
+    Object.values(units).reduce((sum, n) => sum + n, 0);
+
+/**
+ * The victor of a battle earns XP from the enemy's losses. Beating a pirate base adds a bounty
+ * by its level; NPC owners earn nothing.
+ */
+export const awardBattleXp = async (battle: {
+    attackerId: string;
+    defenderId: string;
+    winner: 'attacker' | 'defender';
+    attackerLosses: Record<string, number>;
+    defenderLosses: Record<string, number>[]; // Host and allied reinforcements
+    npcLevel: number | null; // Set when the defender is a pirate base
+    npcAttacker?: boolean; // Set for invasion waves
+}) => {
+    if (battle.winner === 'attacker') {
+        if (battle.npcAttacker) return null;
+        const bounty = battle.npcLevel !== null
+            ? Math.round(battle.npcLevel * XP_PER_PIRATE_LEVEL * getPirateTier(battle.npcLevel).reward)
+            : 0;
+        const enemyLosses = battle.defenderLosses.reduce((sum, losses) => sum + countUnits(losses), 0);
+        return addXp(battle.attackerId, enemyLosses * XP_PER_ENEMY_LOSS + bounty);
+    }
+    if (battle.npcLevel !== null) return null;
+    return addXp(battle.defenderId, countUnits(battle.attackerLosses) * XP_PER_ENEMY_LOSS);
+};
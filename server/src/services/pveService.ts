@@ -1,43 +1,287 @@
 import prisma from '../lib/prisma';
+import { WORLD_SIZE_X, WORLD_SIZE_Y } from './planetService';
+import type { LaneBonuses } from './admiralService';
+import type { UnitStatBoosts } from './combatService';
 
 const NPC_NAMES = [
     'Pirate Outpost', 'Raider Base', 'Smuggler Den', 'Mercenary Camp', 'Rogue Station'
 ];
 
+type Lane = 'left' | 'front' | 'right';
+
+// Pirate base progression (robber_baron_castles_progression.md), levels 1-80.
+// A tier sets how many victories a base takes before it relocates and levels up, how many layout
+// variations it rotates through, its wall and gate protection and how well it pays.
+interface PirateTier {
+    maxLevel: number;
+    attacksToBeat: number;
+    variations: number;
+    wall: number; // Wall protection %
+    gate: number; // Gate protection %
+    tools: number; // Waves each defensive tool on a lane lasts
+    courtyard: number; // Share of variations with courtyard troops
+    reward: number; // Loot and XP multiplier
+}
+
+const PIRATE_TIERS: PirateTier[] = [
+    { maxLevel: 10, attacksToBeat: 20, variations: 3, wall: 20, gate: 20, tools: 1, courtyard: 0.4, reward: 1.0 },
+    { maxLevel: 15, attacksToBeat: 22, variations: 5, wall: 20, gate: 20, tools: 2, courtyard: 0.6, reward: 1.05 },
+    { maxLevel: 20, attacksToBeat: 28, variations: 6, wall: 40, gate: 35, tools: 2, courtyard: 0.6, reward: 1.1 },
+    { maxLevel: 25, attacksToBeat: 34, variations: 7, wall: 60, gate: 70, tools: 2, courtyard: 0.7, reward: 1.15 },
+    { maxLevel: 30, attacksToBeat: 40, variations: 8, wall: 60, gate: 70, tools: 3, courtyard: 0.7, reward: 1.2 },
+    { maxLevel: 35, attacksToBeat: 46, variations: 9, wall: 80, gate: 70, tools: 3, courtyard: 0.8, reward: 1.25 },
+    { maxLevel: 40, attacksToBeat: 52, variations: 11, wall: 60, gate: 75, tools: 3, courtyard: 0.7, reward: 1.3 },
+    { maxLevel: 45, attacksToBeat: 58, variations: 12, wall: 80, gate: 105, tools: 3, courtyard: 0.8, reward: 1.35 },
+    { maxLevel: 50, attacksToBeat: 64, variations: 13, wall: 100, gate: 105, tools: 3, courtyard: 0.8, reward: 1.4 },
+    { maxLevel: 54, attacksToBeat: 70, variations: 14, wall: 100, gate: 105, tools: 3, courtyard: 0.8, reward: 1.45 },
+    { maxLevel: 58, attacksToBeat: 76, variations: 15, wall: 120, gate: 105, tools: 4, courtyard: 0.9, reward: 1.5 },
+    { maxLevel: 62, attacksToBeat: 82, variations: 16, wall: 120, gate: 140, tools: 4, courtyard: 0.9, reward: 1.55 },
+    { maxLevel: 66, attacksToBeat: 88, variations: 16, wall: 140, gate: 140, tools: 4, courtyard: 0.9, reward: 1.6 },
+    { maxLevel: 70, attacksToBeat: 94, variations: 17, wall: 140, gate: 140, tools: 4, courtyard: 0.9, reward: 1.65 },
+    { maxLevel: 74, attacksToBeat: 100, variations: 17, wall: 160, gate: 140, tools: 4, courtyard: 0.9, reward: 1.7 },
+    { maxLevel: 77, attacksToBeat: 106, variations: 17, wall: 160, gate: 175, tools: 4, courtyard: 0.9, reward: 1.75 },
+    { maxLevel: 80, attacksToBeat: 112, variations: 17, wall: 180, gate: 175, tools: 4, courtyard: 0.9, reward: 1.8 },
+];
+
+export const MAX_PIRATE_LEVEL = 80;
+
+// Walls and gates are stored as Defensive Grid / Starport levels (combat: 20% and 35% per level)
+const WALL_PCT_PER_LEVEL = 20;
+const GATE_PCT_PER_LEVEL = 35;
+
+// Castellan bonuses by level: wall/gate protection % and melee/ranged defense %
+const CASTELLANS = [
+    { minLevel: 51, wall: 30, gate: 27, melee: 38, ranged: 36 },
+    { minLevel: 36, wall: 16, gate: 15, melee: 20, ranged: 19 },
+    { minLevel: 10, wall: 0, gate: 0, melee: 19, ranged: 19 },
+    { minLevel: 1, wall: 0, gate: 0, melee: 15, ranged: 15 },
+];
+
+// Lane layouts a variation can use: share of the flank troops per lane
+const LAYOUTS: { minLevel: number; lanes: Record<Lane, number>; courtyardOnly?: boolean }[] = [
+    { minLevel: 1, lanes: { left: 0.3, front: 0.4, right: 0.3 } }, // Balanced
+    { minLevel: 1, lanes: { left: 0.2, front: 0.6, right: 0.2 } }, // Gate-heavy
+    { minLevel: 5, lanes: { left: 0.5, front: 0.3, right: 0.2 } },
+    { minLevel: 5, lanes: { left: 0.2, front: 0.3, right: 0.5 } },
+    { minLevel: 15, lanes: { left: 0, front: 0.5, right: 0.5 } }, // Empty flank
+    { minLevel: 15, lanes: { left: 0.5, front: 0.5, right: 0 } },
+    { minLevel: 15, lanes: { left: 0, front: 0, right: 1 } }, // Single flank
+    { minLevel: 35, lanes: { left: 0.1, front: 0.1, right: 0.1 }, courtyardOnly: true }, // Troops held back in the courtyard
+];
+
+// Troop mixes: ranged share of each lane
+const MIXES = [
+    { minLevel: 1, ranged: 0.4 }, // Mixed
+    { minLevel: 1, ranged: 0.8 }, // Ranged-heavy
+    { minLevel: 20, ranged: 0.15 }, // Melee-heavy
+];
+
+// Melee units join the garrisons as levels rise
+const MELEE_UNITS = [
+    { minLevel: 1, unit: 'marine' },
+    { minLevel: 11, unit: 'sentinel' },
+    { minLevel: 26, unit: 'interceptor' },
+];
+
+// Flank troops at level n: FLANK_TROOPS_BASE * n^FLANK_TROOPS_EXPONENT (2 at level 1, ~740 at level 80)
+const FLANK_TROOPS_BASE = 2;
+const FLANK_TROOPS_EXPONENT = 1.35;
+const COURTYARD_ONLY_FACTOR = 3; // Courtyard-only variations: courtyard troops per flank troop
+
+// Loot curves follow the reward table: resources grow ~200x and credits ~800x from level 1 to 70
+const LOOT_RESOURCE_BASE = 500;
+const LOOT_RESOURCE_EXPONENT = 1.25;
+const LOOT_FOOD_BASE = 1000;
+const LOOT_FOOD_EXPONENT = 1.18;
+const LOOT_CREDITS_BASE = 50;
+const LOOT_CREDITS_EXPONENT = 1.57;
+
+// Starting levels of the bases spawned around a new player, nearest first
+const SPAWN_LEVELS = [1, 2, 3, 5, 8];
+
+// Relocation: a beaten base moves this far from its old position
+const RELOCATE_MIN_DISTANCE = 150;
+const RELOCATE_MAX_DISTANCE = 300;
+
+export function getPirateTier(level: number): PirateTier {
+    return PIRATE_TIERS.find(t => level <= t.maxLevel) || PIRATE_TIERS[PIRATE_TIERS.length - 1];
+}
+
+/**
+ * Castellan of a pirate base: wall and gate protection as lane defense bonuses (the gate only
+ * guards the front), melee and ranged as defender stat boosts
+ */
+export function getPirateCastellan(level: number): { lanes: LaneBonuses; boosts: UnitStatBoosts } {
+    const c = CASTELLANS.find(c => level >= c.minLevel) || CASTELLANS[CASTELLANS.length - 1];
+    return {
+        lanes: {
+            left: { attack: 0, defense: c.wall },
+            front: { attack: 0, defense: c.wall + c.gate },
+            right: { attack: 0, defense: c.wall },
+        },
+        boosts: { meleeAtk: 0, rangedAtk: 0, meleeDef: c.melee, rangedDef: c.ranged },
+    };
+}
+
+/**
+ * Resources a pirate base holds after it regroups
+ */
+export function getPirateLoot(level: number) {
+    const reward = getPirateTier(level).reward;
+    const resource = Math.round(LOOT_RESOURCE_BASE * Math.pow(level, LOOT_RESOURCE_EXPONENT) * reward);
+    return {
+        carbon: resource,
+        titanium: resource,
+        food: Math.round(LOOT_FOOD_BASE * Math.pow(level, LOOT_FOOD_EXPONENT) * reward),
+        credits: Math.round(LOOT_CREDITS_BASE * Math.pow(level, LOOT_CREDITS_EXPONENT) * reward),
+    };
+}
+
 /**
- * Generate a random defense layout for an NPC
+ * Lanes and courtyard of one variation (e.g. level 10, variant 3). The same level and variant
+ * always produce the same defense, so scouting a variation once is enough to plan against it.
+ */
+export function getPirateLayout(level: number, variant: number) {
+    const tier = getPirateTier(level);
+    const layouts = LAYOUTS.filter(l => level >= l.minLevel);
+    const mixes = MIXES.filter(m => level >= m.minLevel);
+    const layout = layouts[(variant - 1) % layouts.length];
+    const mix = mixes[(variant + level) % mixes.length];
+    const melee = MELEE_UNITS.filter(m => level >= m.minLevel).map(m => m.unit);
+
+    // Spread a troop count over the ranged share and the melee units in play
+    const split = (count: number): Record<string, number> => {
+        const units: Record<string, number> = {};
+        const ranged = Math.round(count * mix.ranged);
+        if (ranged > 0) units.ranger = ranged;
+        melee.forEach((unit, i) => {
+            const share = Math.floor((count - ranged) / melee.length) + (i < (count - ranged) % melee.length ? 1 : 0);
+            if (share > 0) units[unit] = share;
+        });
+        return units;
+    };
+
+    const flankTroops = Math.max(1, Math.round(FLANK_TROOPS_BASE * Math.pow(level, FLANK_TROOPS_EXPONENT)));
+    const lanes = {} as Record<Lane, { units: Record<string, number>; tools: { type: string; count: number }[] }>;
+    for (const lane of ['left', 'front', 'right'] as Lane[]) {
+        const units = split(Math.round(flankTroops * layout.lanes[lane]));
+        const tools: { type: string; count: number }[] = [];
+        if (Object.keys(units).length > 0) {
+            // Hurling rocks early, sharpened stakes and flaming arrows from level 36
+            tools.push({ type: level >= 36 ? 'shield_amplifier' : 'auto_turret', count: tier.tools });
+            if (lane === 'front') tools.push({ type: 'blast_door', count: tier.tools });
+            if (level >= 36) tools.push({ type: 'targeting_array', count: Math.ceil(tier.tools / 2) });
+        }
+        lanes[lane] = { units, tools };
+    }
+
+    // Deterministic "roll" per variation against the tier's courtyard share
+    const hasCourtyard = layout.courtyardOnly || (variant * 7 + level) % 10 < tier.courtyard * 10;
+    const courtyardShare = layout.courtyardOnly ? COURTYARD_ONLY_FACTOR : 0.5 + level / MAX_PIRATE_LEVEL;
+    const courtyard = hasCourtyard ? split(Math.round(flankTroops * courtyardShare)) : {};
+
+    return { lanes, courtyard };
+}
+
+/**
+ * Man a pirate base (or neutral moon) with a random variation of its level: lanes, tools,
+ * courtyard troops and walls. Replaces whatever defense it had.
  */
 export async function generateNpcDefense(planetId: string, level: number) {
-    // Simple logic: higher level = more units
-    const baseUnits = level * 10;
+    const tier = getPirateTier(level);
+    const variant = Math.floor(Math.random() * tier.variations) + 1;
+    const { lanes, courtyard } = getPirateLayout(level, variant);
 
-    // Distribute units roughly evenly
-    const front = { marine: Math.floor(baseUnits * 0.4), ranger: Math.floor(baseUnits * 0.3) };
-    const left = { marine: Math.floor(baseUnits * 0.3), ranger: Math.floor(baseUnits * 0.2) };
-    const right = { marine: Math.floor(baseUnits * 0.3), ranger: Math.floor(baseUnits * 0.2) };
+    const layout = {
+        frontLaneJson: JSON.stringify(lanes.front),
+        leftLaneJson: JSON.stringify(lanes.left),
+        rightLaneJson: JSON.stringify(lanes.right),
+        courtyardJson: JSON.stringify(courtyard),
+    };
+    await prisma.defenseLayout.upsert({
+        where: { planetId },
+        update: layout,
+        create: { planetId, ...layout },
+    });
 
-    await prisma.defenseLayout.create({
+    // NPC troops live only in the layout; there is no garrison in PlanetUnit
+    await prisma.planet.update({
+        where: { id: planetId },
         data: {
-            planetId,
-            frontLaneJson: JSON.stringify(front),
-            leftLaneJson: JSON.stringify(left),
-            rightLaneJson: JSON.stringify(right),
+            npcVariant: variant,
+            defensiveGridLevel: Math.max(1, Math.round(tier.wall / WALL_PCT_PER_LEVEL)),
+            starportLevel: Math.max(1, Math.round(tier.gate / GATE_PCT_PER_LEVEL)),
         }
     });
 
-    // Also populate the planet_units table for the "Fleet Preview" or looting calculations
-    // In a real game, these would need to match. For now, we just ensure they exist.
-    const allUnits = { ...front, ...left, ...right };
+    return variant;
+}
+
+/**
+ * A free spot at a random angle and distance from a point, or null if none turns up
+ */
+async function findPirateSpot(centerX: number, centerY: number, minDist: number, maxDist: number, excludeId?: string) {
+    for (let attempts = 0; attempts < 20; attempts++) {
+        const angle = Math.random() * Math.PI * 2;
+        const dist = minDist + Math.random() * (maxDist - minDist);
 
-    // Note: We'd need to upsert these into PlanetUnit if we want them visible in scans
-    // For MVP, the defense layout is what matters for combat.
+        const x = Math.max(50, Math.min(WORLD_SIZE_X - 50, Math.floor(centerX + Math.cos(angle) * dist)));
+        const y = Math.max(50, Math.min(WORLD_SIZE_Y - 50, Math.floor(centerY + Math.sin(angle) * dist)));
+
+        const nearby = await prisma.planet.findFirst({
+            where: {
+                x: { gte: x - 100, lte: x + 100 },
+                y: { gte: y - 100, lte: y + 100 },
+                ...(excludeId ? { id: { not: excludeId } } : {}),
+            }
+        });
+        if (!nearby) return { x, y };
+    }
+    return null;
+}
+
+/**
+ * A pirate base lost a battle. It regroups with a fresh variation and restocked holds; once its
+ * attacks to beat are used up it relocates and comes back a level higher.
+ */
+export async function recordPirateDefeat(planetId: string) {
+    const planet = await prisma.planet.update({
+        where: { id: planetId },
+        data: { npcDefeats: { increment: 1 } },
+    });
+
+    let level = planet.npcLevel;
+    if (planet.npcDefeats >= getPirateTier(level).attacksToBeat) {
+        level = Math.min(MAX_PIRATE_LEVEL, level + 1);
+        const spot = await findPirateSpot(planet.x, planet.y, RELOCATE_MIN_DISTANCE, RELOCATE_MAX_DISTANCE, planet.id);
+        const name = planet.name.replace(/ \(Lvl \d+\)$/, '');
+
+        await prisma.planet.update({
+            where: { id: planetId },
+            data: {
+                npcLevel: level,
+                npcDefeats: 0,
+                name: `${name} (Lvl ${level})`,
+                ...(spot || {}),
+            }
+        });
+        console.log(`[PvE] ${name} moved on to level ${level}`);
+    }
+
+    await generateNpcDefense(planetId, level);
+    await prisma.planet.update({
+        where: { id: planetId },
+        data: { ...getPirateLoot(level), lastResourceUpdate: new Date() },
+    });
+
+    return { level, relocated: level !== planet.npcLevel };
 }
 
 /**
  * Spawn Pirate Bases around a central point
  */
 export async function spawnPirateBases(ownerId: string, centerX: number, centerY: number) {
-    // Create a dummy user for NPCs if not exists? 
+    // Create a dummy user for NPCs if not exists?
     // Actually, we can just assign them to a system NPC user or the player itself but marked as NPC?
     // Better: Create a dedicated NPC user once.
 
@@ -52,55 +296,29 @@ export async function spawnPirateBases(ownerId: string, centerX: number, centerY
         });
     }
 
-    // Spawn 3 bases at random offsets
-    // Spawn 3-5 bases at random offsets in a safe ring
+    // Spawn 3-5 bases at random offsets in a safe ring, from level 1 upward
     const count = Math.floor(Math.random() * 3) + 3; // 3 to 5
-    let spawned = 0;
-    let attempts = 0;
-
-    while (spawned < count && attempts < 20) {
-        attempts++;
 
-        // Random angle
-        const angle = Math.random() * Math.PI * 2;
+    for (let spawned = 0; spawned < count; spawned++) {
         // Random distance between 150 and 300 (visually safe but nearby)
-        const dist = 150 + Math.random() * 150;
+        const spot = await findPirateSpot(centerX, centerY, 150, 300);
+        if (!spot) break; // No room left in the ring
 
-        const x = Math.floor(centerX + Math.cos(angle) * dist);
-        const y = Math.floor(centerY + Math.sin(angle) * dist);
+        const level = SPAWN_LEVELS[spawned];
+        const name = NPC_NAMES[Math.floor(Math.random() * NPC_NAMES.length)];
 
-        // Check collision (using same logic as planetService roughly)
-        // We do a quick DB check here or rely on the fact that distance is large enough from center
-        // But we should check against other NPCs we just spawned?
-        // For MVP, just checking DB for *any* planet is safest.
-
-        const nearby = await prisma.planet.findFirst({
-            where: {
-                x: { gte: x - 100, lte: x + 100 },
-                y: { gte: y - 100, lte: y + 100 }
+        const planet = await prisma.planet.create({
+            data: {
+                ownerId: npcUser.id,
+                name: `${name} (Lvl ${level})`,
+                x: spot.x,
+                y: spot.y,
+                isNpc: true,
+                npcLevel: level,
+                ...getPirateLoot(level),
             }
         });
 
-        if (!nearby) {
-            const level = Math.floor(Math.random() * 3) + 1; // Level 1-3
-            const name = NPC_NAMES[Math.floor(Math.random() * NPC_NAMES.length)];
-
-            const planet = await prisma.planet.create({
-                data: {
-                    ownerId: npcUser.id,
-                    name: `${name} (Lvl ${level})`,
-                    x,
-                    y,
-                    isNpc: true,
-                    npcLevel: level,
-                    carbon: 1000 * level,
-                    titanium: 1000 * level,
-                    credits: 100 * level,
-                }
-            });
-
-            await generateNpcDefense(planet.id, level);
-            spawned++;
-        }
+        await generateNpcDefense(planet.id, level);
     }
 }
@@ -0,0 +1,114 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import jwt from 'jsonwebtoken';
+import { WebSocketServer, WebSocket } from 'ws';
+import { onCommit } from '../lib/prisma';
+
+// Push channel: authenticated clients connect to /ws?token=<JWT> and receive game events
+export type RealtimeEvent =
+  | 'fleet_dispatched'
+  | 'fleet_arrived'
+  | 'fleet_returned'
+  | 'fleet_recalled'
+  | 'incoming_attack'
+  | 'battle_report'
+  | 'spies_captured'
+  | 'construction_finished'
+  | 'building_demolished'
+  | 'level_up'
+  | 'dark_matter_changed'
+  | 'research_complete'
+  | 'invasion_points'
+  | 'queue_completed';
+
+const WS_PATH = '/ws';
+const HEARTBEAT_INTERVAL = 30000;
+
+const wss = new WebSocketServer({ noServer: true });
+const connections = new Map<string, Set<WebSocket>>(); // userId -> open sockets
+const alive = new WeakSet<WebSocket>();
+
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+function authenticateUpgrade(req: IncomingMessage): string | null {
+  const token = new URL(req.url || '', 'http://localhost').searchParams.get('token');
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!token || !jwtSecret) return null;
+
+  try {
+    const decoded = jwt.verify(token, jwtSecret) as { userId: string };
+    return decoded.userId;
+  } catch {
+    return null;
+  }
+}
+
+function register(userId: string, ws: WebSocket) {
+  if (!connections.has(userId)) connections.set(userId, new Set());
+  connections.get(userId)!.add(ws);
+  alive.add(ws);
+
+  ws.on('pong', () => alive.add(ws));
+  ws.on('close', () => {
+    const sockets = connections.get(userId);
+    if (!sockets) return;
+    sockets.delete(ws);
+    if (sockets.size === 0) connections.delete(userId);
+  });
+}
+
+/**
+ * Accept WebSocket upgrades on the HTTP server
+ */
+export function attachRealtimeServer(server: Server) {
+  server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url || '', 'http://localhost').pathname !== WS_PATH) {
+      return rejectUpgrade(socket, '404 Not Found');
+    }
+
+    const userId = authenticateUpgrade(req);
+    if (!userId) return rejectUpgrade(socket, '401 Unauthorized');
+
+    wss.handleUpgrade(req, socket, head, ws => register(userId, ws));
+  });
+
+  // Drop sockets that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        continue;
+      }
+      alive.delete(ws);
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+  server.on('close', () => clearInterval(heartbeat));
+}
+
+/**
+ * Send an event to every open connection of a user. Events raised inside a
+ * transaction are held back until it commits.
+ */
+export function pushToUser(userId: string | null | undefined, type: RealtimeEvent, data: Record<string, unknown>) {
+  if (!userId) return;
+
+  onCommit(() => {
+    const sockets = connections.get(userId);
+    if (!sockets) return;
+
+    const message = JSON.stringify({ type, data });
+    for (const ws of sockets) {
+      if (ws.readyState === WebSocket.OPEN) ws.send(message);
+    }
+  });
+}
+
+export function pushToUsers(userIds: (string | null | undefined)[], type: RealtimeEvent, data: Record<string, unknown>) {
+  for (const userId of new Set(userIds)) {
+    pushToUser(userId, type, data);
+  }
+}
@@ -0,0 +1,404 @@
+import prisma, { runInTransaction } from '../lib/prisma';
+import { scheduleJob } from './jobScheduler';
+import { pushToUser } from './realtimeService';
+import { getBuildingEffects } from './buildingCatalog';
+import { syncPlanetResources, calculateStorageCapacity, getStorageSpace } from './planetService';
+
+// Research Tower technologies (research_tower.md). Levels belong to the player and apply to all
+// of their planets; one project runs at a time and is paid by the planet that starts it.
+export type ResearchBranch = 'military' | 'economy';
+
+// Percentages gained per technology level
+export interface ResearchEffects {
+  meleeAtk?: number;     // UNIT_STATS melee attack
+  rangedAtk?: number;    // UNIT_STATS ranged attack
+  meleeDef?: number;     // UNIT_STATS melee defense
+  rangedDef?: number;    // UNIT_STATS ranged defense
+  recruitSpeed?: number; // Shorter recruitment
+  toolSpeed?: number;    // Shorter manufacturing
+  production?: number;   // Carbon, titanium and food output
+}
+
+export type ResearchBonuses = Required<ResearchEffects>;
+
+export interface ResearchCost {
+  carbon: number;
+  titanium: number;
+  credits: number;
+}
+
+export interface TechnologyDefinition {
+  id: string;
+  name: string;
+  branch: ResearchBranch;
+  description: string;
+  maxLevel: number;
+  towerLevel: number; // Research Tower level needed for the first level
+  requires?: Record<string, number>; // Other technologies, by level
+  cost: ResearchCost; // Level 1; every further level costs COST_GROWTH times more
+  time: number; // Seconds for level 1; every further level takes TIME_GROWTH times longer
+  effects?: ResearchEffects; // Per level
+}
+
+// Project under way (stored as JSON on the user)
+interface ActiveResearch {
+  techId: string;
+  level: number;
+  planetId: string; // Paid by, and refunded to, this planet
+  cost: ResearchCost;
+  finishTime: string;
+}
+
+const COST_GROWTH = 1.8;
+const TIME_GROWTH = 1.6;
+const CANCEL_REFUND_SHARE = 0.5;
+
+const NO_RESEARCH: ResearchBonuses = {
+  meleeAtk: 0,
+  rangedAtk: 0,
+  meleeDef: 0,
+  rangedDef: 0,
+  recruitSpeed: 0,
+  toolSpeed: 0,
+  production: 0,
+};
+
+export const TECHNOLOGIES: Record<string, TechnologyDefinition> = {
+  // Wheelbarrow
+  automated_haulers: {
+    id: 'automated_haulers',
+    name: 'Automated Haulers',
+    branch: 'economy',
+    description: '+3% carbon, titanium and food production per level',
+    maxLevel: 5,
+    towerLevel: 1,
+    cost: { carbon: 150, titanium: 100, credits: 0 },
+    time: 300,
+    effects: { production: 3 },
+  },
+  // Workbench
+  fabrication_matrix: {
+    id: 'fabrication_matrix',
+    name: 'Fabrication Matrix',
+    branch: 'economy',
+    description: '8% faster tool manufacturing per level',
+    maxLevel: 5,
+    towerLevel: 1,
+    cost: { carbon: 200, titanium: 200, credits: 0 },
+    time: 600,
+    effects: { toolSpeed: 8 },
+  },
+  // Elite Training
+  elite_training: {
+    id: 'elite_training',
+    name: 'Elite Training',
+    branch: 'military',
+    description: '5% faster recruitment per level',
+    maxLevel: 5,
+    towerLevel: 1,
+    cost: { carbon: 180, titanium: 120, credits: 50 },
+    time: 600,
+    effects: { recruitSpeed: 5 },
+  },
+  // Chivalry
+  close_quarters_drills: {
+    id: 'close_quarters_drills',
+    name: 'Close Quarters Drills',
+    branch: 'military',
+    description: '+3% melee attack per level',
+    maxLevel: 5,
+    towerLevel: 1,
+    cost: { carbon: 250, titanium: 150, credits: 50 },
+    time: 900,
+    effects: { meleeAtk: 3 },
+  },
+  targeting_optics: {
+    id: 'targeting_optics',
+    name: 'Targeting Optics',
+    branch: 'military',
+    description: '+3% ranged attack per level',
+    maxLevel: 5,
+    towerLevel: 2,
+    requires: { close_quarters_drills: 2 },
+    cost: { carbon: 2500, titanium: 3500, credits: 500 },
+    time: 3600,
+    effects: { rangedAtk: 3 },
+  },
+  // Maneuver
+  maneuver: {
+    id: 'maneuver',
+    name: 'Maneuver',
+    branch: 'military',
+    description: '+2% melee and ranged defense per level',
+    maxLevel: 7,
+    towerLevel: 2,
+    requires: { elite_training: 2 },
+    cost: { carbon: 3000, titanium: 4000, credits: 500 },
+    time: 3600,
+    effects: { meleeDef: 2, rangedDef: 2 },
+  },
+  // Unlocks the Plasma Breacher (TOOL_STATS)
+  siege_engineering: {
+    id: 'siege_engineering',
+    name: 'Siege Engineering',
+    branch: 'military',
+    description: 'Unlocks the Plasma Breacher at the Munitions Factory',
+    maxLevel: 1,
+    towerLevel: 2,
+    requires: { fabrication_matrix: 2 },
+    cost: { carbon: 8000, titanium: 10000, credits: 1000 },
+    time: 7200,
+  },
+  // Fire Pump. Unlocks the Shield Amplifier (TOOL_STATS)
+  hardened_shields: {
+    id: 'hardened_shields',
+    name: 'Hardened Shields',
+    branch: 'military',
+    description: 'Unlocks the Shield Amplifier at the Systems Workshop',
+    maxLevel: 1,
+    towerLevel: 3,
+    requires: { fabrication_matrix: 3, maneuver: 3 },
+    cost: { carbon: 20000, titanium: 25000, credits: 2500 },
+    time: 14400,
+  },
+};
+
+export function parseActiveResearch(raw: string | null): ActiveResearch | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Cost and duration (before the tower's research speed) of one technology level
+ */
+export function getTechnologyCost(def: TechnologyDefinition, level: number) {
+  const factor = Math.pow(COST_GROWTH, level - 1);
+  return {
+    carbon: Math.round(def.cost.carbon * factor),
+    titanium: Math.round(def.cost.titanium * factor),
+    credits: Math.round(def.cost.credits * factor),
+    time: Math.round(def.time * Math.pow(TIME_GROWTH, level - 1)),
+  };
+}
+
+export async function getTechnologyLevels(userId: string): Promise<Record<string, number>> {
+  const rows = await prisma.technology.findMany({ where: { userId } });
+  const levels: Record<string, number> = {};
+  rows.forEach(r => { levels[r.techId] = r.level; });
+  return levels;
+}
+
+/**
+ * The player's best Research Tower (level and research speed %)
+ */
+async function getResearchTower(userId: string) {
+  const towers = await prisma.building.findMany({
+    where: { type: 'research_tower', planet: { ownerId: userId } },
+  });
+
+  let level = 0;
+  let speed = 0;
+  for (const tower of towers) {
+    if (tower.status !== 'active' && tower.status !== 'upgrading') continue;
+    level = Math.max(level, tower.level);
+    speed = Math.max(speed, getBuildingEffects(tower).researchSpeed || 0);
+  }
+  return { level, speed };
+}
+
+/**
+ * Throws if the next level of a technology cannot be researched yet
+ */
+function checkResearchRequirements(
+  def: TechnologyDefinition,
+  level: number,
+  levels: Record<string, number>,
+  towerLevel: number
+) {
+  if (level > def.maxLevel) throw new Error(`${def.name} is at max level`);
+  if (towerLevel < def.towerLevel) throw new Error(`${def.name} requires Research Tower level ${def.towerLevel}`);
+
+  for (const [techId, required] of Object.entries(def.requires || {})) {
+    if ((levels[techId] || 0) < required) {
+      throw new Error(`${def.name} requires ${TECHNOLOGIES[techId]?.name || techId} level ${required}`);
+    }
+  }
+}
+
+/**
+ * Total effect of everything a player has researched (used by combat, production and queues)
+ */
+export async function getResearchBonuses(userId: string): Promise<ResearchBonuses> {
+  const levels = await getTechnologyLevels(userId);
+  const bonuses = { ...NO_RESEARCH };
+
+  for (const [techId, level] of Object.entries(levels)) {
+    const effects = TECHNOLOGIES[techId]?.effects || {};
+    for (const [key, value] of Object.entries(effects)) {
+      bonuses[key as keyof ResearchBonuses] += (value || 0) * level;
+    }
+  }
+  return bonuses;
+}
+
+/**
+ * Complete the project under way if its time is up (Lazy Eval, also run by the research_complete job)
+ */
+export async function processResearch(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { activeResearch: true } });
+  const active = parseActiveResearch(user?.activeResearch || null);
+  if (!active || new Date(active.finishTime) > new Date()) return;
+
+  await runInTransaction(async () => {
+    // Only the caller that clears the project completes it
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, activeResearch: user!.activeResearch },
+      data: { activeResearch: null },
+    });
+    if (count === 0) return;
+
+    await prisma.technology.upsert({
+      where: { userId_techId: { userId, techId: active.techId } },
+      update: { level: active.level },
+      create: { userId, techId: active.techId, level: active.level },
+    });
+    pushToUser(userId, 'research_complete', { techId: active.techId, level: active.level });
+  });
+}
+
+/**
+ * Every technology with the player's level, the next level's price and what still blocks it
+ */
+export async function getResearchOverview(userId: string) {
+  await processResearch(userId);
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { activeResearch: true } });
+  const levels = await getTechnologyLevels(userId);
+  const tower = await getResearchTower(userId);
+
+  const technologies = Object.values(TECHNOLOGIES).map(def => {
+    const level = levels[def.id] || 0;
+    const next = level < def.maxLevel ? getTechnologyCost(def, level + 1) : null;
+
+    let locked: string | null = null;
+    try {
+      checkResearchRequirements(def, level + 1, levels, tower.level);
+    } catch (e) {
+      locked = (e as Error).message;
+    }
+
+    return {
+      ...def,
+      level,
+      next: next && { ...next, time: Math.round(next.time / (1 + tower.speed / 100)) },
+      locked,
+    };
+  });
+
+  return {
+    towerLevel: tower.level,
+    researchSpeed: tower.speed,
+    active: parseActiveResearch(user?.activeResearch || null),
+    technologies,
+  };
+}
+
+/**
+ * Start researching the next level of a technology, paid by one of the player's planets
+ */
+export async function startResearch(userId: string, planetId: string, techId: string) {
+  await processResearch(userId);
+
+  const def = TECHNOLOGIES[techId];
+  if (!def) throw new Error('Unknown technology');
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { activeResearch: true } });
+  if (!user) throw new Error('User not found');
+  if (user.activeResearch) throw new Error('Research already in progress');
+
+  const levels = await getTechnologyLevels(userId);
+  const tower = await getResearchTower(userId);
+  if (tower.level < 1) throw new Error('Research Tower required');
+
+  const level = (levels[techId] || 0) + 1;
+  checkResearchRequirements(def, level, levels, tower.level);
+
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  const { time, ...cost } = getTechnologyCost(def, level);
+  if (planet.carbon < cost.carbon || planet.titanium < cost.titanium || planet.credits < cost.credits) {
+    throw new Error('Insufficient resources');
+  }
+
+  const finishTime = new Date(Date.now() + Math.round(time / (1 + tower.speed / 100)) * 1000);
+  const active: ActiveResearch = { techId, level, planetId, cost, finishTime: finishTime.toISOString() };
+
+  await runInTransaction(async () => {
+    // Conditional update: two starts at once cannot both go through
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, activeResearch: null },
+      data: { activeResearch: JSON.stringify(active) },
+    });
+    if (count === 0) throw new Error('Research already in progress');
+
+    await prisma.planet.update({
+      where: { id: planetId },
+      data: {
+        carbon: { decrement: cost.carbon },
+        titanium: { decrement: cost.titanium },
+        credits: { decrement: cost.credits },
+      },
+    });
+    await scheduleJob('research_complete', userId, finishTime);
+  });
+
+  return active;
+}
+
+/**
+ * Abandon the project under way. The paying planet gets part of the cost back.
+ */
+export async function cancelResearch(userId: string) {
+  await processResearch(userId);
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { activeResearch: true } });
+  const active = parseActiveResearch(user?.activeResearch || null);
+  if (!active) throw new Error('No research in progress');
+
+  const planet = await syncPlanetResources(active.planetId);
+
+  // The paying planet may have been lost since
+  const refund = { carbon: 0, titanium: 0, credits: 0 };
+  if (planet && planet.ownerId === userId) {
+    const capacity = calculateStorageCapacity(planet.buildings);
+    refund.carbon = Math.min(Math.floor(active.cost.carbon * CANCEL_REFUND_SHARE), getStorageSpace(planet.carbon, capacity));
+    refund.titanium = Math.min(Math.floor(active.cost.titanium * CANCEL_REFUND_SHARE), getStorageSpace(planet.titanium, capacity));
+    refund.credits = Math.floor(active.cost.credits * CANCEL_REFUND_SHARE);
+  }
+
+  await runInTransaction(async () => {
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, activeResearch: user!.activeResearch },
+      data: { activeResearch: null },
+    });
+    if (count === 0) throw new Error('No research in progress');
+
+    if (planet && planet.ownerId === userId) {
+      await prisma.planet.update({
+        where: { id: planet.id },
+        data: {
+          carbon: { increment: refund.carbon },
+          titanium: { increment: refund.titanium },
+          credits: { increment: refund.credits },
+        },
+      });
+    }
+  });
+
+  return { techId: active.techId, level: active.level, refund };
+}
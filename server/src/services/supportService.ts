@@ -0,0 +1,257 @@
+import prisma from '../lib/prisma';
+import { calculateDistance, calculateTravelTime, getFleetSpeed, getHangarSpeedBonus } from './fleetService';
+import { scheduleJob } from './jobScheduler';
+import { areFederationMates } from './federationService';
+import { pushToUsers } from './realtimeService';
+
+type UnitCounts = Record<string, number>;
+type LaneKey = 'left' | 'front' | 'right';
+
+export interface StationedContingent {
+  stationedTroopId: string;
+  fleetId: string;
+  ownerId: string;
+  ownerName: string;
+  lanes: Record<LaneKey, UnitCounts>;
+}
+
+export interface StationedLossReport {
+  stationedTroopId: string;
+  ownerId: string;
+  ownerName: string;
+  units: UnitCounts;
+  losses: UnitCounts;
+}
+
+const sumUnits = (units: UnitCounts) => Object.values(units).reduce((a, b) => a + b, 0);
+
+/**
+ * Troops can only be sent to the player's own planets or to federation mates
+ */
+export async function canSupportPlanet(userId: string, planetOwnerId: string) {
+  return planetOwnerId === userId || areFederationMates(userId, planetOwnerId);
+}
+
+/**
+ * Station an arrived support fleet at its target planet.
+ * Fleets sent between a player's own planets simply transfer their troops.
+ * If the host is no longer a federation mate, the troops turn back home.
+ */
+export async function stationSupportFleet(fleetId: string) {
+  const fleet = await prisma.fleet.findUnique({
+    where: { id: fleetId },
+    include: { toPlanet: true }
+  });
+
+  if (!fleet || fleet.type !== 'support' || fleet.status !== 'arrived') {
+    throw new Error('Invalid fleet state');
+  }
+
+  const units: UnitCounts = JSON.parse(fleet.unitsJson);
+
+  if (fleet.toPlanet.ownerId === fleet.ownerId) {
+    for (const [unitType, count] of Object.entries(units)) {
+      await prisma.planetUnit.upsert({
+        where: { planetId_unitType: { planetId: fleet.toPlanetId, unitType } },
+        update: { count: { increment: count } },
+        create: { planetId: fleet.toPlanetId, unitType, count },
+      });
+    }
+    await prisma.fleet.update({ where: { id: fleet.id }, data: { status: 'completed' } });
+    return null;
+  }
+
+  if (!await canSupportPlanet(fleet.ownerId, fleet.toPlanet.ownerId)) {
+    const departAt = new Date();
+    const arriveAt = new Date(departAt.getTime() + (fleet.arriveAt.getTime() - fleet.departAt.getTime()));
+    await prisma.fleet.update({ where: { id: fleet.id }, data: { status: 'returning', departAt, arriveAt } });
+    await scheduleJob('fleet_return', fleet.id, arriveAt);
+    return null;
+  }
+
+  const stationed = await prisma.stationedTroop.create({
+    data: {
+      fleetId: fleet.id,
+      ownerId: fleet.ownerId,
+      hostPlanetId: fleet.toPlanetId,
+      originPlanetId: fleet.fromPlanetId,
+      unitsJson: fleet.unitsJson,
+    }
+  });
+
+  await prisma.fleet.update({ where: { id: fleet.id }, data: { status: 'stationed' } });
+  return stationed;
+}
+
+/**
+ * Send stationed troops home. The original support fleet is reused for the return trip,
+ * so the regular returning-fleet handling puts the units back at the origin planet.
+ */
+export async function recallStationedTroops(userId: string, stationedTroopId: string) {
+  const stationed = await prisma.stationedTroop.findUnique({
+    where: { id: stationedTroopId },
+    include: { hostPlanet: true, originPlanet: { include: { buildings: true } } }
+  });
+
+  if (!stationed) throw new Error('Stationed troops not found');
+  if (stationed.ownerId !== userId) throw new Error('Not your troops');
+
+  const distance = calculateDistance(
+    stationed.hostPlanet.x, stationed.hostPlanet.y,
+    stationed.originPlanet.x, stationed.originPlanet.y
+  );
+  // The home planet's Hangar Bays speed up the trip back
+  const travelTimeSeconds = calculateTravelTime(
+    distance,
+    getFleetSpeed(JSON.parse(stationed.unitsJson)),
+    getHangarSpeedBonus(stationed.originPlanet.buildings)
+  );
+  const departAt = new Date();
+  const arriveAt = new Date(departAt.getTime() + travelTimeSeconds * 1000);
+
+  const [fleet] = await prisma.$transaction([
+    prisma.fleet.update({
+      where: { id: stationed.fleetId },
+      data: {
+        status: 'returning',
+        unitsJson: stationed.unitsJson,
+        departAt,
+        arriveAt,
+      }
+    }),
+    prisma.stationedTroop.delete({ where: { id: stationed.id } }),
+  ]);
+  await scheduleJob('fleet_return', fleet.id, arriveAt);
+  pushToUsers([userId, stationed.hostPlanet.ownerId], 'fleet_dispatched', {
+    fleetId: fleet.id,
+    type: fleet.type,
+    fromPlanetId: stationed.hostPlanetId,
+    toPlanetId: stationed.originPlanetId,
+    arriveAt,
+  });
+
+  return { fleet, travelTimeSeconds };
+}
+
+/**
+ * Split a contingent across the host's lanes in the same proportions the host
+ * assigned its own troops. Hosts without a layout get an even split.
+ * Rounding remainders go to the front (center) lane.
+ */
+export function distributeAcrossLanes(units: UnitCounts, hostLaneTotals: Record<LaneKey, number>): Record<LaneKey, UnitCounts> {
+  const total = hostLaneTotals.left + hostLaneTotals.front + hostLaneTotals.right;
+  const weights = total > 0
+    ? { left: hostLaneTotals.left / total, right: hostLaneTotals.right / total }
+    : { left: 1 / 3, right: 1 / 3 };
+
+  const lanes: Record<LaneKey, UnitCounts> = { left: {}, front: {}, right: {} };
+  for (const [u, count] of Object.entries(units)) {
+    if (count <= 0) continue;
+    const left = Math.floor(count * weights.left);
+    const right = Math.floor(count * weights.right);
+    const front = count - left - right;
+    if (left > 0) lanes.left[u] = left;
+    if (right > 0) lanes.right[u] = right;
+    if (front > 0) lanes.front[u] = front;
+  }
+  return lanes;
+}
+
+/**
+ * Load every contingent stationed at a planet, already split across the host lanes
+ */
+export async function getStationedContingents(hostPlanetId: string, hostLaneTotals: Record<LaneKey, number>): Promise<StationedContingent[]> {
+  const stationed = await prisma.stationedTroop.findMany({
+    where: { hostPlanetId },
+    include: { owner: { select: { username: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return stationed.map(st => ({
+    stationedTroopId: st.id,
+    fleetId: st.fleetId,
+    ownerId: st.ownerId,
+    ownerName: st.owner.username,
+    lanes: distributeAcrossLanes(JSON.parse(st.unitsJson), hostLaneTotals),
+  }));
+}
+
+/**
+ * Split a lane's losses between the host and each contingent, proportional to
+ * how many of each unit type they brought (largest remainder, never exceeding a share).
+ * Index 0 of the result is the host; the rest follow `contributions` order.
+ */
+export function splitLaneLosses(hostUnits: UnitCounts, contributions: UnitCounts[], losses: UnitCounts): UnitCounts[] {
+  const parties = [hostUnits, ...contributions];
+  const result: UnitCounts[] = parties.map(() => ({}));
+
+  for (const [u, lost] of Object.entries(losses)) {
+    if (lost <= 0) continue;
+    const counts = parties.map(p => p[u] || 0);
+    const total = counts.reduce((a, b) => a + b, 0);
+    if (total === 0) continue;
+
+    const exact = counts.map(c => (lost * c) / total);
+    const shares = exact.map(Math.floor);
+    let remaining = Math.min(lost, total) - shares.reduce((a, b) => a + b, 0);
+
+    const order = exact
+      .map((e, i) => ({ i, frac: e - Math.floor(e) }))
+      .sort((a, b) => b.frac - a.frac);
+    for (const { i } of order) {
+      if (remaining <= 0) break;
+      if (shares[i] < counts[i]) {
+        shares[i]++;
+        remaining--;
+      }
+    }
+
+    shares.forEach((s, i) => { if (s > 0) result[i][u] = s; });
+  }
+
+  return result;
+}
+
+/**
+ * Persist contingent casualties. Wiped-out contingents are removed and their fleet destroyed.
+ */
+export async function applyStationedLosses(contingents: StationedContingent[], lossesById: Record<string, UnitCounts>): Promise<StationedLossReport[]> {
+  const reports: StationedLossReport[] = [];
+
+  for (const c of contingents) {
+    const units: UnitCounts = {};
+    for (const lane of Object.values(c.lanes)) {
+      for (const [u, n] of Object.entries(lane)) units[u] = (units[u] || 0) + n;
+    }
+    const losses = lossesById[c.stationedTroopId] || {};
+
+    const survivors: UnitCounts = {};
+    for (const [u, n] of Object.entries(units)) {
+      const left = n - (losses[u] || 0);
+      if (left > 0) survivors[u] = left;
+    }
+
+    if (sumUnits(survivors) === 0) {
+      await prisma.stationedTroop.delete({ where: { id: c.stationedTroopId } });
+      await prisma.fleet.update({
+        where: { id: c.fleetId },
+        data: { status: 'destroyed', unitsJson: JSON.stringify({}) }
+      });
+    } else if (sumUnits(losses) > 0) {
+      await prisma.stationedTroop.update({
+        where: { id: c.stationedTroopId },
+        data: { unitsJson: JSON.stringify(survivors) }
+      });
+    }
+
+    reports.push({
+      stationedTroopId: c.stationedTroopId,
+      ownerId: c.ownerId,
+      ownerName: c.ownerName,
+      units,
+      losses,
+    });
+  }
+
+  return reports;
+}
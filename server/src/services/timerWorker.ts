@@ -1,283 +1,384 @@
 import prisma from '../lib/prisma';
 import { resolveCombat } from './combatService';
-import { syncPlanetResources } from './planetService';
+import { syncPlanetResources, applyDefeatMalus, calculateStorageCapacity, getStorageSpace } from './planetService';
+import { resolveEspionage } from './espionageService';
+import { stationSupportFleet } from './supportService';
+import { deliverTradeFleet } from './tradeService';
+import { registerJobHandler, scheduleJob, startJobScheduler } from './jobScheduler';
+import { pushToUser, pushToUsers } from './realtimeService';
+import { awardBattleXp } from './progressionService';
+import { processResearch } from './researchService';
+import { ensureInvasionScheduled, runInvasionTick, retryInvasionTick, launchInvasionWave, recordInvasionBattle } from './invasionService';
+import { recordPirateDefeat } from './pveService';
 
-const CHECK_INTERVAL = 5000; // Check every 5 seconds
+/**
+ * Lock a fleet row for the rest of the job's transaction, so concurrent jobs
+ * for the same fleet resolve one after the other
+ */
+async function lockFleet(fleetId: string) {
+  await prisma.$queryRaw`SELECT id FROM fleets WHERE id = ${fleetId} FOR UPDATE`;
+  return prisma.fleet.findUnique({
+    where: { id: fleetId },
+    include: { toPlanet: true },
+  });
+}
 
 /**
- * Process fleets that have arrived
+ * Fleet returned home. Unload cargo and disband/park units.
  */
-async function processArrivedFleets() {
-  try {
-    const now = new Date();
-
-    // Find all fleets that should have arrived
-    const arrivedFleets = await prisma.fleet.findMany({
-      where: {
-        status: { in: ['enroute', 'returning'] },
-        arriveAt: {
-          lte: now,
+async function handleFleetReturn(fleetId: string) {
+  const fleet = await lockFleet(fleetId);
+  if (!fleet || fleet.status !== 'returning') return; // Already handled
+
+  // 1. Unload Cargo (loot beyond the home planet's storage is lost)
+  const home = fleet.cargoJson ? await syncPlanetResources(fleet.fromPlanetId) : null;
+  if (fleet.cargoJson && home) {
+    const loot = JSON.parse(fleet.cargoJson);
+    const storageCap = calculateStorageCapacity(home.buildings);
+    await prisma.planet.update({
+      where: { id: fleet.fromPlanetId },
+      data: {
+        carbon: { increment: Math.min(loot.carbon || 0, getStorageSpace(home.carbon, storageCap)) },
+        titanium: { increment: Math.min(loot.titanium || 0, getStorageSpace(home.titanium, storageCap)) },
+        food: { increment: Math.min(loot.food || 0, getStorageSpace(home.food, storageCap)) },
+        credits: { increment: Math.min(loot.credits || 0, getStorageSpace(home.credits, storageCap)) }
+      }
+    });
+  }
+
+  // 2. Add units back to the home planet
+  const units = JSON.parse(fleet.unitsJson);
+  if (fleet.type === 'scout') {
+    // Agents rejoin the Intelligence Hub pool
+    await prisma.planet.update({
+      where: { id: fleet.fromPlanetId },
+      data: { spyCount: { increment: units.spy || 0 } }
+    });
+  } else {
+    for (const [unitType, count] of Object.entries(units)) {
+      await prisma.planetUnit.upsert({
+        where: {
+          planetId_unitType: {
+            planetId: fleet.fromPlanetId,
+            unitType: unitType as string,
+          },
         },
+        update: {
+          count: {
+            increment: count as number,
+          },
+        },
+        create: {
+          planetId: fleet.fromPlanetId,
+          unitType: unitType as string,
+          count: count as number,
+        },
+      });
+    }
+  }
+
+  // 3. Mark fleet as completed
+  await prisma.fleet.update({
+    where: { id: fleet.id },
+    data: { status: 'completed' },
+  });
+
+  pushToUser(fleet.ownerId, 'fleet_returned', { fleetId: fleet.id, type: fleet.type, planetId: fleet.fromPlanetId });
+}
+
+/**
+ * Fleet reached its target. Runs inside the job's transaction, so a failure rolls back
+ * every step and the job is retried from a clean 'enroute' state.
+ */
+async function handleFleetArrival(fleetId: string) {
+  const fleet = await lockFleet(fleetId);
+  // 'arrived' covers fleets left half-processed by the old polling worker
+  if (!fleet || (fleet.status !== 'enroute' && fleet.status !== 'arrived')) return;
+
+  const now = new Date();
+
+  // Mark as arrived (stationSupportFleet expects it); rolled back with everything else on failure
+  await prisma.fleet.update({
+    where: { id: fleet.id },
+    data: { status: 'arrived' },
+  });
+
+  // Sync resources for the target planet to ensure up-to-date state
+  await syncPlanetResources(fleet.toPlanetId);
+
+  if (fleet.type === 'attack') {
+    // Resolve combat
+    const combatResult = await resolveCombat(fleet.id);
+
+    // Defender losses (host layout, PlanetUnit and allied reinforcements) are persisted by resolveCombat.
+    // Sector losses include stationed allied troops, so they must not be re-applied to the host here.
+
+    // Handle Loot
+    let resourcesJson = null;
+    if (combatResult.resourcesJson) {
+      resourcesJson = combatResult.resourcesJson;
+      const loot = JSON.parse(combatResult.resourcesJson);
+      // Deduct from defender
+      await prisma.planet.update({
+        where: { id: fleet.toPlanetId },
+        data: {
+          carbon: { decrement: loot.carbon },
+          titanium: { decrement: loot.titanium },
+          food: { decrement: loot.food },
+          credits: { decrement: loot.credits || 0 }
+        }
+      });
+    }
+
+    // A lost defense unsettles the colonists; a beaten pirate base regroups (or moves on)
+    if (combatResult.winner === 'attacker' && !fleet.toPlanet.isNpc) {
+      await applyDefeatMalus(fleet.toPlanetId);
+    } else if (combatResult.winner === 'attacker' && fleet.toPlanet.planetType !== 'moon') {
+      await recordPirateDefeat(fleet.toPlanetId);
+    }
+
+    // Create battle report
+    const report = await prisma.battleReport.create({
+      data: {
+        fleetId: fleet.id,
+        attackerId: fleet.ownerId,
+        defenderId: fleet.toPlanet.ownerId,
+        attackerPlanetId: fleet.fromPlanetId,
+        defenderPlanetId: fleet.toPlanetId,
+        winner: combatResult.winner,
+        laneResultsJson: JSON.stringify({
+          sectors: combatResult.sectorResults,
+          surface: combatResult.surfaceResult,
+          conquest: combatResult.conquest,
+          admirals: combatResult.admirals,
+          gearDrop: combatResult.gearDrop,
+          darkMatterDrop: combatResult.darkMatterDrop
+        }), // Storing extended result
+        attackerTotalLossesJson: JSON.stringify(combatResult.attackerTotalLosses),
+        defenderTotalLossesJson: JSON.stringify(combatResult.defenderTotalLosses),
+        resourcesJson: resourcesJson,
+        supporterIds: [...new Set(combatResult.stationedLosses.map(s => s.ownerId))],
+        stationedLossesJson: combatResult.stationedLosses.length > 0
+          ? JSON.stringify(combatResult.stationedLosses)
+          : null
       },
-      include: {
-        toPlanet: true,
-      },
+    });
+    // The victor earns XP from the enemy's losses (and a bounty for pirate bases)
+    await awardBattleXp({
+      attackerId: fleet.ownerId,
+      defenderId: fleet.toPlanet.ownerId,
+      winner: combatResult.winner,
+      attackerLosses: combatResult.attackerTotalLosses,
+      defenderLosses: [combatResult.defenderTotalLosses, ...combatResult.stationedLosses.map(s => s.losses)],
+      npcLevel: fleet.toPlanet.isNpc ? fleet.toPlanet.npcLevel : null,
+      npcAttacker: !!fleet.invasionEventId,
     });
 
-    for (const fleet of arrivedFleets) {
-      try {
-        // Handle Returning Fleets
-        if (fleet.status === 'returning') {
-          // Fleet returned home. Unload cargo and disband/park units.
-          // 1. Unload Cargo
-          if (fleet.cargoJson) {
-            const loot = JSON.parse(fleet.cargoJson);
-            await prisma.planet.update({
-              where: { id: fleet.fromPlanetId },
-              data: {
-                carbon: { increment: loot.carbon || 0 },
-                titanium: { increment: loot.titanium || 0 },
-                food: { increment: loot.food || 0 }
-              }
-            });
-          }
-
-          // 2. Add units back to the home planet
-          const units = JSON.parse(fleet.unitsJson);
-          for (const [unitType, count] of Object.entries(units)) {
-            await prisma.planetUnit.upsert({
-              where: {
-                planetId_unitType: {
-                  planetId: fleet.fromPlanetId,
-                  unitType: unitType as string,
-                },
-              },
-              update: {
-                count: {
-                  increment: count as number,
-                },
-              },
-              create: {
-                planetId: fleet.fromPlanetId,
-                unitType: unitType as string,
-                count: count as number,
-              },
-            });
-          }
-
-          // 3. Mark fleet as completed
-          await prisma.fleet.update({
-            where: { id: fleet.id },
-            data: { status: 'completed' },
-          });
-          continue; // Done with this fleet
-        }
+    if (fleet.invasionEventId) {
+      await recordInvasionBattle({
+        eventId: fleet.invasionEventId,
+        defenderId: fleet.toPlanet.ownerId,
+        wave: fleet.invasionWave || 1,
+        winner: combatResult.winner,
+        attackerLosses: combatResult.attackerTotalLosses,
+      });
+    }
+
+    pushToUsers([fleet.ownerId, fleet.toPlanet.ownerId, ...report.supporterIds], 'battle_report', {
+      reportId: report.id,
+      fleetId: fleet.id,
+      winner: report.winner,
+      planetId: fleet.toPlanetId,
+    });
+
+    // Process Attacker Casualties & Return Trip
+    const initialUnits = JSON.parse(fleet.unitsJson);
+    const survivingUnits: Record<string, number> = {};
+    let totalSurvivors = 0;
+
+    for (const [u, count] of Object.entries(initialUnits)) {
+      const loss = combatResult.attackerTotalLosses[u] || 0;
+      const survivors = Math.max(0, (count as number) - loss);
+      if (survivors > 0) {
+        survivingUnits[u] = survivors;
+        totalSurvivors += survivors;
+      }
+    }
+
+    if (totalSurvivors > 0 && fleet.invasionEventId) {
+      // Invaders were raised for the event and scatter after the battle
+      await prisma.fleet.update({
+        where: { id: fleet.id },
+        data: { status: 'completed', unitsJson: JSON.stringify(survivingUnits) }
+      });
+    } else if (totalSurvivors > 0) {
+      // Send fleet back
+      // Calculate return time (same as arrival time diff?)
+      // For simplicity, just use current time + (arriveAt - departAt)?
+      // Or just reverse?
+      const originalDuration = fleet.arriveAt.getTime() - fleet.departAt.getTime();
+      const returnArrival = new Date(now.getTime() + originalDuration);
 
-        // Handle Enroute Fleets (Arrival at Target)
-
-        // Mark as arrived first (transient state, though we might process immediately)
-        // If we fail mid-process, it might stay 'arrived'. Ideally we should use transactions or 'processing' state.
-        // For MVP, keep as is.
-        await prisma.fleet.update({
-          where: { id: fleet.id },
-          data: { status: 'arrived' },
-        });
-
-        // Sync resources for the target planet to ensure up-to-date state
-        await syncPlanetResources(fleet.toPlanetId);
-
-        if (fleet.type === 'attack') {
-          // Resolve combat
-          const combatResult = await resolveCombat(fleet.id);
-
-          // Apply losses to defender
-          for (const [unitType, lossCount] of Object.entries(combatResult.defenderTotalLosses)) {
-            await prisma.planetUnit.updateMany({
-              where: {
-                planetId: fleet.toPlanetId,
-                unitType,
-              },
-              data: {
-                count: {
-                  decrement: lossCount as number,
-                },
-              },
-            });
-          }
-
-
-          // --- FIX: Remove losses from Defense Layout to prevent ghost troops ---
-          const defenseLayout = await prisma.defenseLayout.findUnique({
-            where: { planetId: fleet.toPlanetId }
-          });
-
-          if (defenseLayout) {
-            const front = JSON.parse(defenseLayout.frontLaneJson);
-            const left = JSON.parse(defenseLayout.leftLaneJson);
-            const right = JSON.parse(defenseLayout.rightLaneJson);
-
-            // Helper to apply losses to a lane
-            const applyLaneLosses = (laneUnits: any, losses: any) => {
-              for (const [u, loss] of Object.entries(losses)) {
-                if (laneUnits[u]) {
-                  laneUnits[u] = Math.max(0, laneUnits[u] - (loss as number));
-                }
-              }
-            };
-
-            applyLaneLosses(front, combatResult.sectorResults.center.defenderLosses);
-            applyLaneLosses(left, combatResult.sectorResults.left.defenderLosses);
-            applyLaneLosses(right, combatResult.sectorResults.right.defenderLosses);
-
-            // What about Courtyard losses?
-            // If we implement Courtney logic fully, we'd deduct here too. 
-            // For now, lane losses are the primary source of defense depletion.
-            // (Courtyard defenders are currently dynamic/unassigned in combatService, so no persistent slot to update yet)
-
-            await prisma.defenseLayout.update({
-              where: { id: defenseLayout.id },
-              data: {
-                frontLaneJson: JSON.stringify(front),
-                leftLaneJson: JSON.stringify(left),
-                rightLaneJson: JSON.stringify(right)
-              }
-            });
-          }
-          // -------------------------------------------------------------------
-
-          // Handle Loot
-          let resourcesJson = null;
-          if (combatResult.resourcesJson) {
-            resourcesJson = combatResult.resourcesJson;
-            const loot = JSON.parse(combatResult.resourcesJson);
-            // Deduct from defender
-            await prisma.planet.update({
-              where: { id: fleet.toPlanetId },
-              data: {
-                carbon: { decrement: loot.carbon },
-                titanium: { decrement: loot.titanium },
-                food: { decrement: loot.food }
-              }
-            });
-          }
-
-          // Create battle report
-          await prisma.battleReport.create({
-            data: {
-              fleetId: fleet.id,
-              attackerId: fleet.ownerId,
-              defenderId: fleet.toPlanet.ownerId,
-              attackerPlanetId: fleet.fromPlanetId,
-              defenderPlanetId: fleet.toPlanetId,
-              winner: combatResult.winner,
-              laneResultsJson: JSON.stringify({
-                sectors: combatResult.sectorResults,
-                surface: combatResult.surfaceResult
-              }), // Storing extended result
-              attackerTotalLossesJson: JSON.stringify(combatResult.attackerTotalLosses),
-              defenderTotalLossesJson: JSON.stringify(combatResult.defenderTotalLosses),
-              resourcesJson: resourcesJson
-            },
-          });
-
-          // Process Attacker Casualties & Return Trip
-          const initialUnits = JSON.parse(fleet.unitsJson);
-          const survivingUnits: Record<string, number> = {};
-          let totalSurvivors = 0;
-
-          for (const [u, count] of Object.entries(initialUnits)) {
-            const loss = combatResult.attackerTotalLosses[u] || 0;
-            const survivors = Math.max(0, (count as number) - loss);
-            if (survivors > 0) {
-              survivingUnits[u] = survivors;
-              totalSurvivors += survivors;
-            }
-          }
-
-          if (totalSurvivors > 0) {
-            // Send fleet back
-            // Calculate return time (same as arrival time diff?)
-            // For simplicity, just use current time + (arriveAt - departAt)?
-            // Or just reverse?
-            const originalDuration = fleet.arriveAt.getTime() - fleet.departAt.getTime();
-            const returnArrival = new Date(now.getTime() + originalDuration);
-
-            await prisma.fleet.update({
-              where: { id: fleet.id },
-              data: {
-                status: 'returning',
-                unitsJson: JSON.stringify(survivingUnits),
-                departAt: now,
-                arriveAt: returnArrival,
-                cargoJson: resourcesJson // Save loot
-              }
-            });
-          } else {
-            // All died
-            await prisma.fleet.update({
-              where: { id: fleet.id },
-              data: { status: 'destroyed' } // 'resolved' or 'destroyed'
-            });
-          }
-        } else if (fleet.type === 'support') {
-          // Add units to target planet
-          const units = JSON.parse(fleet.unitsJson);
-          for (const [unitType, count] of Object.entries(units)) {
-            await prisma.planetUnit.upsert({
-              where: {
-                planetId_unitType: {
-                  planetId: fleet.toPlanetId,
-                  unitType: unitType as string,
-                },
-              },
-              update: {
-                count: {
-                  increment: count as number,
-                },
-              },
-              create: {
-                planetId: fleet.toPlanetId,
-                unitType: unitType as string,
-                count: count as number,
-              },
-            });
-          }
-
-          await prisma.fleet.update({
-            where: { id: fleet.id },
-            data: { status: 'completed' },
-          });
-        } else if (fleet.type === 'scout') {
-          // Just mark as completed (scouting reports can be added later)
-          await prisma.fleet.update({
-            where: { id: fleet.id },
-            data: { status: 'completed' },
-          });
+      await prisma.fleet.update({
+        where: { id: fleet.id },
+        data: {
+          status: 'returning',
+          unitsJson: JSON.stringify(survivingUnits),
+          departAt: now,
+          arriveAt: returnArrival,
+          cargoJson: resourcesJson // Save loot
         }
-      } catch (error) {
-        console.error(`Error processing fleet ${fleet.id}:`, error);
-        // Mark as error but don't crash the worker
-        await prisma.fleet.update({
-          where: { id: fleet.id },
-          data: { status: 'error' }, // STOP the loop. Do not retry indefinitely.
-        });
+      });
+      await scheduleJob('fleet_return', fleet.id, returnArrival);
+    } else {
+      // All died
+      await prisma.fleet.update({
+        where: { id: fleet.id },
+        data: { status: 'destroyed' } // 'resolved' or 'destroyed'
+      });
+    }
+  } else if (fleet.type === 'support') {
+    // Troops stay at the host planet until recalled (or transfer if it's our own planet)
+    await stationSupportFleet(fleet.id);
+  } else if (fleet.type === 'trade') {
+    const delivery = await deliverTradeFleet(fleet.id);
+
+    // Transports head home empty (or with the goods a former ally could not receive)
+    const originalDuration = fleet.arriveAt.getTime() - fleet.departAt.getTime();
+    const returnArrival = new Date(now.getTime() + originalDuration);
+    await prisma.fleet.update({
+      where: { id: fleet.id },
+      data: {
+        status: 'returning',
+        cargoJson: delivery ? null : fleet.cargoJson,
+        departAt: now,
+        arriveAt: returnArrival,
       }
+    });
+    await scheduleJob('fleet_return', fleet.id, returnArrival);
+  } else if (fleet.type === 'scout') {
+    const { success, report } = await resolveEspionage(fleet.id);
+
+    if (success) {
+      // Agents return home with the intel
+      const originalDuration = fleet.arriveAt.getTime() - fleet.departAt.getTime();
+      const returnArrival = new Date(now.getTime() + originalDuration);
+      await prisma.fleet.update({
+        where: { id: fleet.id },
+        data: {
+          status: 'returning',
+          departAt: now,
+          arriveAt: returnArrival,
+        }
+      });
+      await scheduleJob('fleet_return', fleet.id, returnArrival);
+    } else {
+      // Agents captured; the defender learns of the attempt
+      await prisma.fleet.update({
+        where: { id: fleet.id },
+        data: { status: 'destroyed' }
+      });
+      pushToUser(fleet.toPlanet.ownerId, 'spies_captured', {
+        reportId: report.id,
+        planetId: fleet.toPlanetId,
+        planetName: fleet.toPlanet.name,
+        spiesCaught: report.spiesLost,
+      });
     }
-  } catch (error) {
-    console.error('Error in timer worker:', error);
   }
+
+  // Spies slip in unannounced; everyone else sees the fleet land
+  const notify = fleet.type === 'scout' ? [fleet.ownerId] : [fleet.ownerId, fleet.toPlanet.ownerId];
+  pushToUsers(notify, 'fleet_arrived', { fleetId: fleet.id, type: fleet.type, toPlanetId: fleet.toPlanetId });
 }
 
 /**
- * Start the timer worker
+ * Fleets whose retries are exhausted are parked in 'error' instead of being retried forever
  */
-export function startTimerWorker() {
-  console.log('⏰ Timer worker started - checking for arrived fleets every', CHECK_INTERVAL, 'ms');
+async function markFleetError(fleetId: string) {
+  await prisma.fleet.update({
+    where: { id: fleetId },
+    data: { status: 'error' },
+  });
+}
+
+// Construction and recruitment are applied by the planet sync; the job just makes it happen on time.
+// Completing a construction order starts the next waiting one, which schedules its own job.
+async function handlePlanetTimer(planetId: string) {
+  await syncPlanetResources(planetId);
+}
+
+// Research belongs to the player, so its job carries the user id
+async function handleResearchTimer(userId: string) {
+  await processResearch(userId);
+}
 
-  // Process immediately on start
-  processArrivedFleets();
+async function handleInvasionTimer(eventId: string) {
+  await runInvasionTick(eventId);
+}
 
-  // Then process every interval
-  setInterval(processArrivedFleets, CHECK_INTERVAL);
+// A lost tick would stall the event until the next restart
+async function handleInvasionGiveUp(eventId: string) {
+  await retryInvasionTick(eventId);
 }
 
+async function handleInvasionWave(planetId: string) {
+  await launchInvasionWave(planetId);
+}
+
+/**
+ * Create jobs for fleets in flight that have none (fleets dispatched before the
+ * scheduler existed, or whose job was lost). Construction and recruitment need no
+ * backfill: every planet read syncs them anyway.
+ */
+async function backfillFleetJobs() {
+  const fleets = await prisma.fleet.findMany({
+    where: { status: { in: ['enroute', 'arrived', 'returning'] } },
+    select: { id: true, status: true, arriveAt: true },
+  });
+  if (fleets.length === 0) return;
+
+  const existing = await prisma.scheduledJob.findMany({
+    where: {
+      refId: { in: fleets.map(f => f.id) },
+      type: { in: ['fleet_arrival', 'fleet_return'] },
+      status: { in: ['pending', 'running'] },
+    },
+    select: { refId: true },
+  });
+  const covered = new Set(existing.map(j => j.refId));
+
+  for (const fleet of fleets) {
+    if (covered.has(fleet.id)) continue;
+    const type = fleet.status === 'returning' ? 'fleet_return' : 'fleet_arrival';
+    await scheduleJob(type, fleet.id, fleet.arriveAt);
+  }
+}
+
+/**
+ * Start the timer worker
+ */
+export async function startTimerWorker() {
+  registerJobHandler('fleet_arrival', handleFleetArrival, markFleetError);
+  registerJobHandler('fleet_return', handleFleetReturn, markFleetError);
+  registerJobHandler('construction_complete', handlePlanetTimer);
+  registerJobHandler('recruitment_batch', handlePlanetTimer);
+  registerJobHandler('research_complete', handleResearchTimer);
+  registerJobHandler('invasion_tick', handleInvasionTimer, handleInvasionGiveUp);
+  registerJobHandler('invasion_wave', handleInvasionWave);
+
+  try {
+    await backfillFleetJobs();
+  } catch (error) {
+    console.error('Error backfilling fleet jobs:', error);
+  }
+
+  try {
+    await ensureInvasionScheduled();
+  } catch (error) {
+    console.error('Error scheduling invasion event:', error);
+  }
+
+  startJobScheduler();
+  console.log('⏰ Timer worker started - processing scheduled jobs');
+}
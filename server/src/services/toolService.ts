@@ -1,17 +1,21 @@
 
 import prisma from '../lib/prisma';
 import { syncPlanetResources } from './planetService';
+import { getResearchBonuses, getTechnologyLevels, TECHNOLOGIES } from './researchService';
 
-const TOOL_STATS: Record<string, { c: number, t: number, time: number, workshop: string }> = {
+// `research`: technology that must be researched before the tool can be made
+const TOOL_STATS: Record<string, { c: number, t: number, time: number, workshop: string, research?: string }> = {
     // Defense (Systems Workshop)
     'auto_turret': { c: 40, t: 40, time: 30, workshop: 'defense_workshop' },     // Rocks -> +Shield
     'blast_door': { c: 280, t: 120, time: 60, workshop: 'defense_workshop' },    // Gate Reinf -> +Starport
     'targeting_array': { c: 525, t: 225, time: 60, workshop: 'defense_workshop' }, // Arrows -> +Ranged
+    'shield_amplifier': { c: 900, t: 600, time: 90, workshop: 'defense_workshop', research: 'hardened_shields' }, // Fire Pump -> ++Shield
 
     // Siege (Munitions Factory)
     'signal_jammer': { c: 28, t: 12, time: 30, workshop: 'siege_workshop' },    // Ladder -> -Shield
     'breach_cutter': { c: 56, t: 24, time: 60, workshop: 'siege_workshop' },    // Ram -> -Starport
     'holo_decoy': { c: 105, t: 45, time: 60, workshop: 'siege_workshop' },      // Manlet -> -Ranged
+    'plasma_breacher': { c: 220, t: 160, time: 90, workshop: 'siege_workshop', research: 'siege_engineering' }, // Iron Ram -> --Starport
 };
 
 export async function produceTool(planetId: string, toolType: string, count: number) {
@@ -26,6 +30,13 @@ export async function produceTool(planetId: string, toolType: string, count: num
     const workshop = planet.buildings.find(b => b.type === stats.workshop && b.status === 'active');
     if (!workshop) throw new Error(`${stats.workshop} required`);
 
+    if (stats.research) {
+        const levels = await getTechnologyLevels(planet.ownerId);
+        if (!levels[stats.research]) {
+            throw new Error(`Requires research: ${TECHNOLOGIES[stats.research].name}`);
+        }
+    }
+
     // Check Resources
     const totalC = stats.c * count;
     const totalT = stats.t * count;
@@ -48,7 +59,9 @@ export async function produceTool(planetId: string, toolType: string, count: num
         if (lastFinish > now) startTime = lastFinish;
     }
 
-    const totalDuration = stats.time * count; // Base time, maybe add speedup later?
+    // Research (Fabrication Matrix) shortens manufacturing
+    const research = await getResearchBonuses(planet.ownerId);
+    const totalDuration = stats.time * count * (1 - research.toolSpeed / 100);
     const finishTime = new Date(startTime.getTime() + (totalDuration * 1000));
 
     queue.push({
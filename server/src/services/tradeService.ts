@@ -0,0 +1,120 @@
+import prisma from '../lib/prisma';
+import { calculateCarryCapacity } from './combatService';
+import { syncPlanetResources, calculateStorageCapacity, getStorageSpace } from './planetService';
+import { areFederationMates } from './federationService';
+
+// Resources a trade fleet can carry
+const TRADE_RESOURCES = ['carbon', 'titanium', 'food', 'credits'] as const;
+
+type TradeResource = typeof TRADE_RESOURCES[number];
+export type Cargo = Record<TradeResource, number>;
+
+/**
+ * Sanitize a cargo payload from a request body (whole, non-negative amounts)
+ */
+export function normalizeCargo(raw: Partial<Record<string, unknown>> | undefined): Cargo {
+  const cargo = { carbon: 0, titanium: 0, food: 0, credits: 0 };
+  if (!raw) return cargo;
+  for (const r of TRADE_RESOURCES) {
+    const value = Number(raw[r]);
+    cargo[r] = Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+  }
+  return cargo;
+}
+
+const cargoTotal = (cargo: Cargo) => TRADE_RESOURCES.reduce((sum, r) => sum + cargo[r], 0);
+
+/**
+ * Goods can only be shipped between the player's own planets or to federation mates
+ */
+export async function canTradeWith(userId: string, planetOwnerId: string) {
+  return planetOwnerId === userId || areFederationMates(userId, planetOwnerId);
+}
+
+/**
+ * Check cargo against fleet capacity and planet stock, then deduct it from the origin planet.
+ * Called at departure so the goods are in transit (and not lootable at home).
+ */
+export async function loadTradeCargo(planetId: string, units: Record<string, number>, cargo: Cargo) {
+  const total = cargoTotal(cargo);
+  if (total === 0) {
+    throw new Error('Cargo required');
+  }
+
+  const capacity = calculateCarryCapacity(units);
+  if (total > capacity) {
+    throw new Error(`Cargo exceeds fleet capacity (${capacity} max)`);
+  }
+
+  const planet = await syncPlanetResources(planetId);
+  if (!planet) throw new Error('Planet not found');
+
+  for (const r of TRADE_RESOURCES) {
+    if (planet[r] < cargo[r]) {
+      throw new Error('Insufficient resources');
+    }
+  }
+
+  await prisma.planet.update({
+    where: { id: planetId },
+    data: {
+      carbon: { decrement: cargo.carbon },
+      titanium: { decrement: cargo.titanium },
+      food: { decrement: cargo.food },
+      credits: { decrement: cargo.credits },
+    }
+  });
+
+  return { capacity };
+}
+
+/**
+ * Unload an arrived trade fleet at its destination.
+ * Goods beyond the target's storage capacity are lost. Creates a receipt for both sides.
+ * Returns null (cargo stays aboard) if the recipient is no longer a federation mate.
+ */
+export async function deliverTradeFleet(fleetId: string) {
+  const fleet = await prisma.fleet.findUnique({
+    where: { id: fleetId },
+    include: { toPlanet: { include: { buildings: true } } }
+  });
+
+  if (!fleet || fleet.type !== 'trade' || fleet.status !== 'arrived') {
+    throw new Error('Invalid fleet state');
+  }
+
+  const target = fleet.toPlanet;
+  if (!await canTradeWith(fleet.ownerId, target.ownerId)) return null;
+
+  const cargo = normalizeCargo(fleet.cargoJson ? JSON.parse(fleet.cargoJson) : undefined);
+  const storageCap = calculateStorageCapacity(target.buildings);
+
+  const delivered: Cargo = { ...cargo };
+  for (const r of TRADE_RESOURCES) {
+    delivered[r] = Math.min(cargo[r], getStorageSpace(target[r], storageCap));
+  }
+
+  await prisma.planet.update({
+    where: { id: target.id },
+    data: {
+      carbon: { increment: delivered.carbon },
+      titanium: { increment: delivered.titanium },
+      food: { increment: delivered.food },
+      credits: { increment: delivered.credits },
+    }
+  });
+
+  const receipt = await prisma.deliveryReceipt.create({
+    data: {
+      fleetId: fleet.id,
+      senderId: fleet.ownerId,
+      recipientId: target.ownerId,
+      fromPlanetId: fleet.fromPlanetId,
+      toPlanetId: fleet.toPlanetId,
+      cargoJson: JSON.stringify(cargo),
+      deliveredJson: JSON.stringify(delivered),
+    }
+  });
+
+  return { delivered, receipt };
+}
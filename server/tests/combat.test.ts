@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { simulateBattle, calculateCarryCapacity, BattleSetup } from '../src/services/combatService';
+import { getLaneBonuses } from '../src/services/admiralService';
+
+const emptyLane = () => ({ units: {}, tools: [] });
+
+function setup(overrides: Partial<BattleSetup> = {}): BattleSetup {
+  return {
+    waves: { left: [], front: [], right: [] },
+    lanes: { left: emptyLane(), front: emptyLane(), right: emptyLane() },
+    surfaceDefenders: {},
+    buildings: { shield: 0, starport: 0, perimeter: 0 },
+    admirals: { attacker: getLaneBonuses(null), defender: getLaneBonuses(null), surface: { attack: 0, defense: 0 } },
+    resources: { carbon: 10000, titanium: 10000, food: 10000, credits: 10000 },
+    ...overrides,
+  };
+}
+
+const wave = (units: Record<string, number>) => [{ units, tools: {} }];
+
+describe('simulateBattle', () => {
+  it('gives an undefended planet to the attacker, loot limited by carry capacity', () => {
+    const attackers = { marine: 20 };
+    const outcome = simulateBattle(setup({
+      waves: { left: wave(attackers), front: wave(attackers), right: wave(attackers) },
+    }));
+
+    expect(outcome.winner).toBe('attacker');
+    expect(outcome.loot).not.toBeNull();
+    const looted = Object.values(outcome.loot!).reduce((a, b) => a + b, 0);
+    expect(looted).toBeLessThanOrEqual(calculateCarryCapacity({ marine: 60 }));
+  });
+
+  it('holds the planet when nobody attacks', () => {
+    const outcome = simulateBattle(setup({ surfaceDefenders: { marine: 10 } }));
+
+    expect(outcome.winner).toBe('defender');
+    expect(outcome.loot).toBeNull();
+    expect(outcome.surfaceResult).toBeNull();
+  });
+
+  it('lets an overwhelming garrison repel a small raid', () => {
+    const defenders = { units: { sentinel: 200 }, tools: [] };
+    const outcome = simulateBattle(setup({
+      waves: { left: wave({ marine: 5 }), front: wave({ marine: 5 }), right: wave({ marine: 5 }) },
+      lanes: { left: defenders, front: defenders, right: defenders },
+    }));
+
+    expect(outcome.winner).toBe('defender');
+    expect(outcome.attackerTotalLosses.marine).toBe(15);
+  });
+
+  it('is deterministic', () => {
+    const battle = () => simulateBattle(setup({
+      waves: { left: wave({ marine: 40 }), front: wave({ ranger: 30 }), right: wave({ sentinel: 10 }) },
+      lanes: {
+        left: { units: { marine: 25 }, tools: [] },
+        front: { units: { ranger: 25 }, tools: [] },
+        right: { units: { marine: 5 }, tools: [] },
+      },
+      surfaceDefenders: { sentinel: 8 },
+    }));
+
+    expect(battle()).toEqual(battle());
+  });
+});
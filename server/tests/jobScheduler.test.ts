@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { getRetryDelay, isOutOfAttempts } from '../src/services/jobScheduler';
+
+describe('job retry backoff', () => {
+  it('doubles the delay after each failed attempt', () => {
+    expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([2000, 4000, 8000, 16000]);
+  });
+
+  it('gives up after five attempts', () => {
+    expect(isOutOfAttempts(4)).toBe(false);
+    expect(isOutOfAttempts(5)).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { rollGearDrop, getGearDropChance } from '../src/services/admiralService';
+import { getPirateDarkMatterChance } from '../src/services/darkMatterService';
+import { getPirateLayout } from '../src/services/pveService';
+import { seededRng } from './rng';
+
+const RARITY_ORDER = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+function rollMany(npcLevel: number, rolls: number, seed: number) {
+  const rng = seededRng(seed);
+  return Array.from({ length: rolls }, () => rollGearDrop(npcLevel, rng));
+}
+
+describe('rollGearDrop', () => {
+  it('reproduces a roll from a seeded rng', () => {
+    expect(rollMany(20, 50, 7)).toEqual(rollMany(20, 50, 7));
+  });
+
+  it('drops at the advertised rate', () => {
+    for (const level of [1, 10, 40]) {
+      const drops = rollMany(level, 20000, level).filter(Boolean).length;
+      expect(drops / 20000).toBeCloseTo(getGearDropChance(level), 1);
+    }
+  });
+
+  it('shifts the odds towards rarer pieces at higher levels', () => {
+    const averageRarity = (level: number) => {
+      const drops = rollMany(level, 20000, 3).filter(d => d !== null);
+      return drops.reduce((sum, d) => sum + RARITY_ORDER.indexOf(d!.rarity), 0) / drops.length;
+    };
+
+    expect(averageRarity(30)).toBeGreaterThan(averageRarity(1));
+  });
+
+  it('never drops when the rng rolls above the drop chance', () => {
+    expect(rollGearDrop(50, () => 0.999999)).toBeNull();
+  });
+});
+
+describe('pirate Dark Matter chance', () => {
+  it('only applies from level 10', () => {
+    expect(getPirateDarkMatterChance(9)).toBe(0);
+    expect(getPirateDarkMatterChance(10)).toBeGreaterThan(0);
+  });
+});
+
+describe('getPirateLayout', () => {
+  it('is deterministic per level and variant', () => {
+    for (const level of [1, 15, 40, 80]) {
+      for (const variant of [1, 2, 3]) {
+        expect(getPirateLayout(level, variant)).toEqual(getPirateLayout(level, variant));
+      }
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { checkUnitUnlocked, getLevelUnlocks, GRID_EXPANSION_LEVELS } from '../src/services/progressionService';
+import { checkBuildingRequirements } from '../src/services/buildingCatalog';
+
+const hub = [{ type: 'colony_hub', level: 1, status: 'active' }];
+
+describe('Level gates', () => {
+  it('locks troop types below their unlock level', () => {
+    expect(() => checkUnitUnlocked('marine', 1)).not.toThrow();
+    expect(() => checkUnitUnlocked('ranger', 1)).toThrow('Ranger requires player level 2');
+    expect(() => checkUnitUnlocked('ranger', 2)).not.toThrow();
+    expect(() => checkUnitUnlocked('sentinel', 4)).toThrow('Sentinel requires player level 5');
+  });
+
+  it('locks building levels below their player level', () => {
+    expect(() => checkBuildingRequirements('naval_academy', 1, 1, hub))
+      .toThrow('Naval Academy level 1 requires player level 2');
+    expect(() => checkBuildingRequirements('naval_academy', 1, 2, hub)).not.toThrow();
+    expect(() => checkBuildingRequirements('naval_academy', 2, 14, hub))
+      .toThrow('Naval Academy level 2 requires player level 15');
+  });
+
+  it('unlocks one grid expansion per listed level, in order', () => {
+    expect(GRID_EXPANSION_LEVELS[0]).toBe(1);
+    for (let i = 1; i < GRID_EXPANSION_LEVELS.length; i++) {
+      expect(GRID_EXPANSION_LEVELS[i]).toBeGreaterThan(GRID_EXPANSION_LEVELS[i - 1]);
+    }
+  });
+
+  it('reports everything a level unlocks (Player_Level.md, level 2)', () => {
+    const unlocks = getLevelUnlocks(2);
+    expect(unlocks).toContain('Naval Academy 1');
+    expect(unlocks).toContain('Training Depot 1');
+    expect(unlocks).toContain('Holo-Monument 1');
+    expect(unlocks).toContain('Ranger');
+    expect(unlocks).toContain('Grid expansion 2');
+    expect(getLevelUnlocks(3)).not.toContain('Grid expansion 3');
+  });
+});
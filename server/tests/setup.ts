@@ -0,0 +1,12 @@
+import { vi } from 'vitest';
+
+// These tests cover pure game rules; any database access is a bug in the test
+vi.mock('../src/lib/prisma', () => ({
+  default: new Proxy({}, {
+    get(_target, prop) {
+      throw new Error(`Unexpected database access (prisma.${String(prop)}) in a unit test`);
+    },
+  }),
+  runInTransaction: <T>(fn: () => Promise<T>) => fn(),
+  onCommit: (cb: () => void) => cb(),
+}));
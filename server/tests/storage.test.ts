@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateStorageCapacity,
+  calculateProtectedStorage,
+  getStorageSpace,
+} from '../src/services/planetService';
+
+const storehouse = (level: number, status = 'active') => [{ type: 'storehouse', level, status }];
+
+describe('Storage caps', () => {
+  it('holds 1000 per resource without a Storehouse', () => {
+    expect(calculateStorageCapacity([])).toBe(1000);
+  });
+
+  it('takes the Storehouse capacity (Storehouse.md)', () => {
+    expect(calculateStorageCapacity(storehouse(1))).toBe(1700);
+    expect(calculateStorageCapacity(storehouse(2))).toBe(6000);
+    expect(calculateStorageCapacity(storehouse(2, 'upgrading'))).toBe(6000);
+    expect(calculateStorageCapacity(storehouse(1, 'constructing'))).toBe(1000);
+  });
+
+  it('hides a tenth of the capacity from raiders', () => {
+    expect(calculateProtectedStorage([])).toBe(100);
+    expect(calculateProtectedStorage(storehouse(2))).toBe(600);
+  });
+
+  it('leaves no room once a resource is at or above the cap', () => {
+    expect(getStorageSpace(400.7, 1000)).toBe(600);
+    expect(getStorageSpace(1000, 1000)).toBe(0);
+    expect(getStorageSpace(1500, 1000)).toBe(0);
+  });
+});
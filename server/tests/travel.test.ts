@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UNIT_SPEEDS,
+  calculateDistance,
+  calculateTravelTime,
+  getFleetSpeed,
+  getHangarSpeedBonus,
+} from '../src/services/fleetService';
+import { UNIT_SPEEDS as CLIENT_UNIT_SPEEDS, estimateTravelTime, type Planet } from '../../client/src/lib/api';
+import { seededRng } from './rng';
+
+// The client's travel preview must match the server's travel time to the second
+describe('travel time parity with the client preview', () => {
+  it('uses the same unit speeds', () => {
+    expect(CLIENT_UNIT_SPEEDS).toEqual(UNIT_SPEEDS);
+  });
+
+  it('matches calculateTravelTime for random fleets, distances and Hangar Bays', () => {
+    const rng = seededRng(42);
+    const unitTypes = Object.keys(UNIT_SPEEDS);
+
+    for (let i = 0; i < 500; i++) {
+      const units: Record<string, number> = {};
+      for (const unitType of unitTypes) {
+        if (rng() < 0.5) units[unitType] = Math.floor(rng() * 50);
+      }
+      const buildings = Array.from({ length: Math.floor(rng() * 3) }, () => ({
+        type: 'hangar_bay',
+        level: 1 + Math.floor(rng() * 10),
+        status: rng() < 0.8 ? 'active' : 'constructing',
+      }));
+      const from = { x: rng() * 5000, y: rng() * 5000, buildings } as Planet;
+      const to = { x: rng() * 5000, y: rng() * 5000 } as Planet;
+
+      const server = calculateTravelTime(
+        calculateDistance(from.x, from.y, to.x, to.y),
+        getFleetSpeed(units),
+        getHangarSpeedBonus(buildings)
+      );
+      expect(estimateTravelTime(from, to, units)).toBe(server);
+    }
+  });
+
+  it('never goes below the minimum travel time', () => {
+    expect(calculateTravelTime(0)).toBe(5);
+    expect(calculateTravelTime(1, 90, 100)).toBe(5);
+  });
+});